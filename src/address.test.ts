@@ -0,0 +1,81 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { Address, AddressType, ADRS_SIZE } from './address';
+
+describe('Address', () => {
+    const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+    it('should lay out the words as in RFC 8391', () => {
+        const address = new Address()
+            .setLayerAddress(1)
+            .setTreeAddress(2 ** 32 + 3)
+            .setType(AddressType.OTS)
+            .setOTSAddress(4)
+            .setChainAddress(5)
+            .setHashAddress(6)
+            .setKeyAndMask(1);
+
+        expect(address.toBytes().length).toBe(ADRS_SIZE);
+        expect(toHex(address.toBytes())).toBe(
+            '00000001' + '00000001' + '00000003' + '00000000' +
+            '00000004' + '00000005' + '00000006' + '00000001'
+        );
+    });
+
+    it('should zero the type specific words on setType', () => {
+        const address = new Address().setLayerAddress(7).setOTSAddress(4).setChainAddress(5).setKeyAndMask(1);
+        address.setType(AddressType.HashTree).setTreeHeight(2).setTreeIndex(3);
+
+        expect(address.getType()).toBe(AddressType.HashTree);
+        expect(toHex(address.toBytes())).toBe(
+            '00000007' + '00000000' + '00000000' + '00000002' +
+            '00000000' + '00000002' + '00000003' + '00000000'
+        );
+    });
+
+    it('should copy on clone, construction and toBytes', () => {
+        const bytes = new Uint8Array(ADRS_SIZE);
+        const address = new Address(bytes).setLTreeAddress(9);
+        expect(bytes).toEqual(new Uint8Array(ADRS_SIZE));
+
+        const clone = address.clone().setLTreeAddress(10);
+        expect(address.toBytes()[19]).toBe(9);
+        expect(clone.toBytes()[19]).toBe(10);
+
+        address.toBytes().fill(0xff);
+        expect(address.toBytes()[0]).toBe(0);
+    });
+
+    it('should reject out of range fields', () => {
+        expect(() => new Address(new Uint8Array(31))).toThrow(/32 bytes/);
+        expect(() => new Address().setChainAddress(-1)).toThrow();
+        expect(() => new Address().setHashAddress(2 ** 32)).toThrow();
+        expect(() => new Address().setTreeAddress(1.5)).toThrow();
+        expect(() => new Address().setTreeAddress(Number.MAX_SAFE_INTEGER)).not.toThrow();
+        expect(() => new Address().setTreeAddress(2n ** 64n)).toThrow();
+        expect(() => new Address().setTreeAddress(-1n)).toThrow();
+    });
+
+    it('should accept 64 bit tree addresses as bigints', () => {
+        const address = new Address().setTreeAddress(0xFEDCBA9876543210n).setType(AddressType.ForsTree).setKeyPairAddress(7);
+        expect(toHex(address.toBytes())).toBe(
+            '00000000' + 'fedcba98' + '76543210' + '00000003' +
+            '00000007' + '00000000' + '00000000' + '00000000'
+        );
+        expect(address.getKeyPairAddress()).toBe(7);
+        expect(new Address().setTreeAddress(2n ** 32n + 3n).toBytes())
+            .toEqual(new Address().setTreeAddress(2 ** 32 + 3).toBytes());
+    });
+});
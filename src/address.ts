@@ -0,0 +1,167 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// ADRS_SIZE: Addresses are 32 bytes, eight 4 byte big-endian words.
+export const ADRS_SIZE = 32;
+
+// AddressType: the word at byte offset 12, XMSS RFC 8391 section 2.5.
+// The FORS types are the SPHINCS+ ones; SPHINCS+ uses LTree for the
+// compressed WOTS+ public key (its WOTS_PK type).
+export enum AddressType {
+    OTS = 0,
+    LTree = 1,
+    HashTree = 2,
+    ForsTree = 3,
+    ForsRoots = 4,
+}
+
+// Address: The 32 byte hash function address (ADRS) of XMSS RFC 8391 section 2.5.
+// Every PRF and F call in RFC 8391 mode is tweaked by one, so no two hash
+// calls in a key pair share the same key and bitmask.
+//
+//   word 0: layer address
+//   words 1-2: tree address (64 bits)
+//   word 3: type
+//   word 4: OTS address / L-tree address / key pair address / padding
+//   word 5: chain address / tree height
+//   word 6: hash address / tree index
+//   word 7: keyAndMask
+export class Address {
+    private readonly bytes: Uint8Array;
+
+    constructor(bytes?: Uint8Array) {
+        if (bytes !== undefined && bytes.length !== ADRS_SIZE) {
+            throw new InvalidLengthError(
+                `address length must be ${ADRS_SIZE} bytes`,
+                'address', ADRS_SIZE, bytes.length
+            );
+        }
+        this.bytes = bytes !== undefined ? bytes.slice() : new Uint8Array(ADRS_SIZE);
+    }
+
+    private setWord(word: number, value: number): void {
+        if (!Number.isInteger(value) || value < 0 || value > 0xFFFFFFFF) {
+            throw new InvalidParameterError("address fields must fit in 4 bytes");
+        }
+        const offset = word * 4;
+        this.bytes[offset] = (value >>> 24) & 0xFF;
+        this.bytes[offset + 1] = (value >>> 16) & 0xFF;
+        this.bytes[offset + 2] = (value >>> 8) & 0xFF;
+        this.bytes[offset + 3] = value & 0xFF;
+    }
+
+    private getWord(word: number): number {
+        const offset = word * 4;
+        return ((this.bytes[offset] << 24) | (this.bytes[offset + 1] << 16) |
+            (this.bytes[offset + 2] << 8) | this.bytes[offset + 3]) >>> 0;
+    }
+
+    public setLayerAddress(layer: number): this {
+        this.setWord(0, layer);
+        return this;
+    }
+
+    // setTreeAddress: The 64 bit tree address. Numbers must be safe integers,
+    // larger hypertree indexes are passed as bigints.
+    public setTreeAddress(tree: number | bigint): this {
+        if (typeof tree === 'bigint') {
+            if (tree < 0n || tree > 0xFFFFFFFFFFFFFFFFn) {
+                throw new InvalidParameterError("tree address must fit in 8 bytes");
+            }
+            this.setWord(1, Number(tree >> 32n));
+            this.setWord(2, Number(tree & 0xFFFFFFFFn));
+            return this;
+        }
+        if (!Number.isSafeInteger(tree) || tree < 0) {
+            throw new InvalidParameterError("tree address must be a non-negative safe integer");
+        }
+        this.setWord(1, Math.floor(tree / 2 ** 32));
+        this.setWord(2, tree % 2 ** 32);
+        return this;
+    }
+
+    // setType: Set the address type. As in the RFC, this zeroes words 4 to 7.
+    public setType(type: AddressType): this {
+        this.setWord(3, type);
+        this.bytes.fill(0, 16);
+        return this;
+    }
+
+    public setOTSAddress(ots: number): this {
+        this.setWord(4, ots);
+        return this;
+    }
+
+    public setLTreeAddress(ltree: number): this {
+        this.setWord(4, ltree);
+        return this;
+    }
+
+    // setKeyPairAddress: The SPHINCS+ name for word 4, the index of a WOTS+
+    // or FORS key pair within its tree.
+    public setKeyPairAddress(keyPair: number): this {
+        this.setWord(4, keyPair);
+        return this;
+    }
+
+    public setChainAddress(chain: number): this {
+        this.setWord(5, chain);
+        return this;
+    }
+
+    public setTreeHeight(height: number): this {
+        this.setWord(5, height);
+        return this;
+    }
+
+    public setHashAddress(hash: number): this {
+        this.setWord(6, hash);
+        return this;
+    }
+
+    public setTreeIndex(index: number): this {
+        this.setWord(6, index);
+        return this;
+    }
+
+    public setKeyAndMask(keyAndMask: number): this {
+        this.setWord(7, keyAndMask);
+        return this;
+    }
+
+    public getType(): AddressType {
+        return this.getWord(3);
+    }
+
+    public getKeyPairAddress(): number {
+        return this.getWord(4);
+    }
+
+    public clone(): Address {
+        return new Address(this.bytes);
+    }
+
+    // toBytes: A copy of the 32 address bytes.
+    public toBytes(): Uint8Array {
+        return this.bytes.slice();
+    }
+
+    // view: The address bytes without copying, for hashing in hot loops.
+    // Callers must not keep or modify the returned array.
+    public view(): Uint8Array {
+        return this.bytes;
+    }
+}
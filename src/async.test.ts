@@ -0,0 +1,304 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { build } from 'tsup';
+import { WOTSPlus } from './wotsplus';
+import { getParameterSet } from './params';
+import { ErrorCode, InvalidLengthError, WorkerError } from './errors';
+import {
+    generateKeyPairAsync,
+    signAsync,
+    verifyAsync,
+    verifyBatch,
+    WorkerPool,
+    WorkerLike,
+    WorkerRequest,
+    WorkerResponse,
+    handleWorkerRequest,
+    fromNodeWorker,
+    fromWebWorker,
+    createNodeWorkerPool,
+} from './async';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('async WOTSPlus', () => {
+    const privateSeed = new Uint8Array(32).fill(1);
+    const publicSeed = new Uint8Array(32).fill(2);
+    const messageFor = (i: number): Uint8Array =>
+        keccak_256(new TextEncoder().encode(`Hello World${i}`));
+
+    // An in-process stand-in for a worker thread that answers asynchronously
+    // and records how many requests it handled.
+    const makeFakeWorker = (): WorkerLike & { handled: number } => {
+        let onMessage: (message: WorkerResponse) => void = () => {};
+        const worker = {
+            handled: 0,
+            postMessage: (request: WorkerRequest) => {
+                setTimeout(() => {
+                    worker.handled++;
+                    onMessage(handleWorkerRequest(structuredClone(request)));
+                }, 0);
+            },
+            onMessage: (handler: (message: WorkerResponse) => void) => { onMessage = handler; },
+            onError: () => {},
+            terminate: () => {},
+        };
+        return worker;
+    };
+
+    it('should match the sync methods without a pool', async () => {
+        const wotsPlus = new WOTSPlus(keccak_256);
+        const expected = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+
+        const { publicKey, privateKey } = await generateKeyPairAsync(wotsPlus, privateSeed, publicSeed);
+        expect(publicKey).toEqual(expected.publicKey);
+        expect(privateKey).toEqual(expected.privateKey);
+
+        const message = messageFor(0);
+        const signature = await signAsync(wotsPlus, privateKey, publicSeed, message);
+        expect(signature).toEqual(wotsPlus.sign(privateKey, publicSeed, message));
+        expect(await verifyAsync(wotsPlus, publicKey, message, signature)).toBe(true);
+        expect(await verifyAsync(wotsPlus, publicKey, messageFor(1), signature)).toBe(false);
+    });
+
+    it('should offload to the pool and match the sync methods', async () => {
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16');
+        const workers = [makeFakeWorker(), makeFakeWorker()];
+        const pool = new WorkerPool(workers);
+        expect(pool.size).toBe(2);
+
+        const expected = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        const { publicKey, privateKey } = await generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool);
+        expect(publicKey).toEqual(expected.publicKey);
+        expect(privateKey).toEqual(expected.privateKey);
+
+        const messages = [0, 1, 2, 3].map(messageFor);
+        const signatures = await Promise.all(messages.map(message =>
+            signAsync(wotsPlus, privateKey, publicSeed, message, pool)
+        ));
+        signatures.forEach((signature, i) => {
+            expect(signature).toEqual(wotsPlus.sign(privateKey, publicSeed, messages[i]));
+        });
+
+        const items = messages.map((message, i) => ({ publicKey, message, signature: signatures[(i + 1) % 4] }));
+        items[0].signature = signatures[0];
+        expect(await verifyBatch(wotsPlus, items, pool)).toEqual([true, false, false, false]);
+
+        // work is spread over both workers
+        expect(workers[0].handled).toBeGreaterThan(0);
+        expect(workers[1].handled).toBeGreaterThan(0);
+        pool.terminate();
+    });
+
+    it('should fall back to the calling thread for custom hash functions', async () => {
+        const wotsPlus = new WOTSPlus(keccak_256);
+        const worker = makeFakeWorker();
+        const pool = new WorkerPool([worker]);
+
+        const { publicKey, privateKey } = await generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool);
+        const message = messageFor(0);
+        const signature = await signAsync(wotsPlus, privateKey, publicSeed, message, pool);
+        expect(await verifyBatch(wotsPlus, [{ publicKey, message, signature }], pool)).toEqual([true]);
+        expect(worker.handled).toBe(0);
+    });
+
+    it('should fall back to the calling thread when workers would rebuild a different instance', async () => {
+        const worker = makeFakeWorker();
+        const pool = new WorkerPool([worker]);
+        const set = getParameterSet('WOTSP-KECCAK256-W16');
+        const instances = [
+            // rfc8391 mode derives different keys than the quip mode workers
+            new WOTSPlus(keccak_256, 32, 16, 'rfc8391'),
+            // an unregistered copy of a set is not what the workers look up
+            new WOTSPlus(keccak_256, 32, 16, 'quip', { ...set }),
+        ];
+        for (const wotsPlus of instances) {
+            const expected = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+            const { publicKey, privateKey } = await generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool);
+            expect(publicKey).toEqual(expected.publicKey);
+            const message = messageFor(0);
+            const signature = await signAsync(wotsPlus, privateKey, publicSeed, message, pool);
+            expect(signature).toEqual(wotsPlus.sign(privateKey, publicSeed, message));
+            expect(await verifyBatch(wotsPlus, [{ publicKey, message, signature }], pool)).toEqual([true]);
+        }
+        expect(worker.handled).toBe(0);
+
+        // the registered set itself is offloaded
+        await generateKeyPairAsync(new WOTSPlus(keccak_256, 32, 16, 'quip', set), privateSeed, publicSeed, pool);
+        expect(worker.handled).toBe(1);
+        pool.terminate();
+    });
+
+    it('should surface worker errors', async () => {
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16');
+        const pool = new WorkerPool([makeFakeWorker()]);
+
+        await expect(signAsync(wotsPlus, new Uint8Array(31), publicSeed, messageFor(0), pool))
+            .rejects.toThrow(/private key length/);
+        // the error class and its details survive the trip through the worker
+        await expect(signAsync(wotsPlus, new Uint8Array(31), publicSeed, messageFor(0), pool))
+            .rejects.toMatchObject({ code: ErrorCode.InvalidLength, field: 'privateKey', expected: 32, actual: 31 });
+        await expect(signAsync(wotsPlus, new Uint8Array(31), publicSeed, messageFor(0), pool))
+            .rejects.toBeInstanceOf(InvalidLengthError);
+        expect(handleWorkerRequest({ id: 7, parameterSet: 'NOPE', op: 'verify', publicKey: new Uint8Array(0), message: new Uint8Array(0), signature: [] }))
+            .toEqual({ id: 7, ok: false, error: 'unknown parameter set NOPE', code: ErrorCode.InvalidParameter, details: {} });
+
+        pool.terminate();
+        await expect(verifyAsync(wotsPlus, new Uint8Array(64), messageFor(0), [], pool))
+            .rejects.toThrow(/terminated/);
+        expect(() => new WorkerPool([])).toThrow();
+    });
+
+    it('should reject in-flight requests when a worker fails', async () => {
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16');
+        let fail: (error: Error) => void = () => {};
+        let crashedTerminated = false;
+        const healthy = makeFakeWorker();
+        const pool = new WorkerPool([{
+            postMessage: () => { setTimeout(() => fail(new Error('worker crashed')), 0); },
+            onMessage: () => {},
+            onError: (handler) => { fail = handler; },
+            terminate: () => { crashedTerminated = true; },
+        }, healthy]);
+        await expect(generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool)).rejects.toThrow('worker crashed');
+
+        // the crashed worker is terminated and out of the rotation
+        expect(crashedTerminated).toBe(true);
+        expect(pool.size).toBe(1);
+        await Promise.all([0, 1, 2].map(() => generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool)));
+        expect(healthy.handled).toBe(3);
+
+        const onlyWorker = new WorkerPool([{
+            postMessage: () => { setTimeout(() => fail(new Error('worker crashed')), 0); },
+            onMessage: () => {},
+            onError: (handler) => { fail = handler; },
+            terminate: () => {},
+        }]);
+        await expect(generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, onlyWorker)).rejects.toThrow('worker crashed');
+        await expect(generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, onlyWorker)).rejects.toThrow(/every worker/);
+    });
+
+    it('should adapt Web Workers', async () => {
+        type MessageListener = (event: { data: WorkerResponse }) => void;
+        type ErrorListener = (event: { message?: string }) => void;
+        let onMessage: MessageListener = () => {};
+        let onError: ErrorListener = () => {};
+        let terminated = false;
+        function addEventListener(type: 'message', listener: MessageListener): void;
+        function addEventListener(type: 'error', listener: ErrorListener): void;
+        function addEventListener(type: 'message' | 'error', listener: MessageListener | ErrorListener): void {
+            if (type === 'message') {
+                onMessage = listener as MessageListener;
+            } else {
+                onError = listener as ErrorListener;
+            }
+        }
+        const webWorker: Parameters<typeof fromWebWorker>[0] = {
+            postMessage: (request: WorkerRequest) => {
+                setTimeout(() => onMessage({ data: handleWorkerRequest(request) }), 0);
+            },
+            addEventListener,
+            terminate: () => { terminated = true; },
+        };
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-SHA256-W16');
+        const pool = new WorkerPool([fromWebWorker(webWorker)]);
+
+        const { publicKey } = await generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool);
+        expect(publicKey).toEqual(wotsPlus.generateKeyPair(privateSeed, publicSeed).publicKey);
+
+        // error events fail the worker
+        onError({ message: 'script error' });
+        expect(terminated).toBe(true);
+        expect(pool.size).toBe(0);
+        pool.terminate();
+    });
+
+    it('should ref busy Node workers and reject their requests when they exit', async () => {
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-SHA256-W16');
+        const events: string[] = [];
+        const nodeWorker = Object.assign(new EventEmitter(), {
+            postMessage: (request: WorkerRequest) => {
+                if (request.op === 'generateKeyPair') {
+                    setTimeout(() => nodeWorker.emit('message', handleWorkerRequest(request)), 0);
+                }
+            },
+            terminate: () => { events.push('terminate'); },
+            ref: () => { events.push('ref'); },
+            unref: () => { events.push('unref'); },
+        });
+        const pool = new WorkerPool([fromNodeWorker(nodeWorker)]);
+
+        await generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool);
+        expect(events).toEqual(['ref', 'unref']);
+
+        // a sign request is never answered; the worker exits instead
+        const pending = signAsync(wotsPlus, new Uint8Array(wotsPlus.privateKeySize), publicSeed, messageFor(0), pool);
+        nodeWorker.emit('exit', 1);
+        const err = await pending.catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(WorkerError);
+        expect(err).toMatchObject({ code: ErrorCode.Worker, exitCode: 1 });
+        expect(events).toEqual(['ref', 'unref', 'ref', 'terminate']);
+        expect(pool.size).toBe(0);
+    });
+});
+
+describe('Node worker pool', () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hashsigs-worker-'));
+
+    afterAll(() => {
+        fs.rmSync(outDir, { recursive: true, force: true });
+    });
+
+    it('should run requests on worker_threads', async () => {
+        // Bundle the worker entry point, as `npm run build` does for dist/worker.js.
+        await build({
+            entry: { worker: path.join(__dirname, 'worker.ts') },
+            outDir,
+            format: ['cjs'],
+            platform: 'node',
+            noExternal: [/./],
+            config: false,
+            silent: true,
+        });
+
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16');
+        const privateSeed = new Uint8Array(32).fill(3);
+        const publicSeed = new Uint8Array(32).fill(4);
+        const message = keccak_256(new TextEncoder().encode('worker thread message'));
+        const pool = await createNodeWorkerPool(path.join(outDir, 'worker.js'), 2);
+        try {
+            const expected = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+            const { publicKey, privateKey } = await generateKeyPairAsync(wotsPlus, privateSeed, publicSeed, pool);
+            // Uint8Arrays survive the structured clone in both directions
+            expect(publicKey).toBeInstanceOf(Uint8Array);
+            expect(publicKey).toEqual(expected.publicKey);
+            expect(privateKey).toEqual(expected.privateKey);
+
+            const signature = await signAsync(wotsPlus, privateKey, publicSeed, message, pool);
+            expect(signature).toEqual(wotsPlus.sign(privateKey, publicSeed, message));
+            expect(await verifyBatch(wotsPlus, [
+                { publicKey, message, signature },
+                { publicKey, message: publicSeed, signature },
+            ], pool)).toEqual([true, false]);
+            await expect(signAsync(wotsPlus, new Uint8Array(31), publicSeed, message, pool))
+                .rejects.toBeInstanceOf(InvalidLengthError);
+        } finally {
+            pool.terminate();
+        }
+    }, 30000);
+});
@@ -0,0 +1,390 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { WOTSPlus } from './wotsplus';
+import { listParameterSets } from './params';
+import {
+    DecryptionError,
+    ErrorCode,
+    HashSigsError,
+    InvalidEncodingError,
+    InvalidLengthError,
+    InvalidParameterError,
+    KeyReuseError,
+    WorkerError
+} from './errors';
+
+// Async and worker backed WOTS+ operations.
+//
+// Hash functions cannot be sent to another thread, so workers rebuild their
+// WOTSPlus instance from a registered parameter set. Instances built with
+// `WOTSPlus.fromParameterSet` (or from the same registered set through the
+// constructor) are offloaded to the pool when one is given;
+// everything else runs on the calling thread after yielding to the event loop.
+// Either way the output is byte-identical to the sync WOTSPlus methods.
+
+export type WorkerRequest =
+    | { id: number, parameterSet: string, op: 'generateKeyPair', privateSeed: Uint8Array, publicSeed: Uint8Array }
+    | { id: number, parameterSet: string, op: 'sign', privateKey: Uint8Array, publicSeed: Uint8Array, message: Uint8Array }
+    | { id: number, parameterSet: string, op: 'verify', publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array[] };
+
+export type WorkerResponse =
+    | { id: number, ok: true, result: unknown }
+    | { id: number, ok: false, error: string, code?: ErrorCode, details?: ErrorDetails };
+
+// ErrorDetails: The extra fields of a HashSigsError, so the pool can rethrow
+// the same error class the worker threw.
+type ErrorDetails = { field?: string, expected?: number, actual?: number, index?: number };
+
+// WorkerLike: the minimal surface the pool needs from a worker. Use
+// `fromNodeWorker` or `fromWebWorker` to adapt worker_threads or Web Workers.
+// `onError` handlers run when the worker fails or exits. `ref` and `unref`
+// are optional; the pool refs a worker while it has requests in flight.
+export interface WorkerLike {
+    postMessage(message: WorkerRequest): void;
+    onMessage(handler: (message: WorkerResponse) => void): void;
+    onError(handler: (error: Error) => void): void;
+    terminate(): void;
+    ref?(): void;
+    unref?(): void;
+}
+
+// Instances are cached per parameter set so workers only build them once.
+const workerInstances = new Map<string, WOTSPlus>();
+
+// handleWorkerRequest: Run one request. This is the body of the worker entry
+// point (`worker.ts`); custom workers can register extra parameter sets and
+// then call it themselves.
+export function handleWorkerRequest(request: WorkerRequest): WorkerResponse {
+    try {
+        let wotsPlus = workerInstances.get(request.parameterSet);
+        if (wotsPlus === undefined) {
+            wotsPlus = WOTSPlus.fromParameterSet(request.parameterSet);
+            workerInstances.set(request.parameterSet, wotsPlus);
+        }
+
+        let result: unknown;
+        switch (request.op) {
+            case 'generateKeyPair':
+                result = wotsPlus.generateKeyPair(request.privateSeed, request.publicSeed);
+                break;
+            case 'sign':
+                result = wotsPlus.sign(request.privateKey, request.publicSeed, request.message);
+                break;
+            case 'verify':
+                result = wotsPlus.verify(request.publicKey, request.message, request.signature);
+                break;
+            default:
+                throw new InvalidParameterError(`unknown worker operation ${(request as { op: string }).op}`);
+        }
+        return { id: request.id, ok: true, result };
+    } catch (err) {
+        if (err instanceof HashSigsError) {
+            const { field, expected, actual, index } = err as Partial<InvalidLengthError & KeyReuseError>;
+            return {
+                id: request.id,
+                ok: false,
+                error: err.message,
+                code: err.code,
+                details: { field, expected, actual, index },
+            };
+        }
+        return { id: request.id, ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+}
+
+// responseError: Rebuild the error of a failed worker response.
+function responseError(response: { error: string, code?: ErrorCode, details?: ErrorDetails }): Error {
+    const details = response.details ?? {};
+    switch (response.code) {
+        case ErrorCode.InvalidParameter:
+            return new InvalidParameterError(response.error);
+        case ErrorCode.InvalidLength:
+            return new InvalidLengthError(response.error, details.field ?? '', details.expected ?? 0, details.actual ?? 0);
+        case ErrorCode.InvalidEncoding:
+            return new InvalidEncodingError(response.error);
+        case ErrorCode.KeyReuse:
+            return new KeyReuseError(response.error, details.index);
+        case ErrorCode.Decryption:
+            return new DecryptionError(response.error);
+        default:
+            return new Error(response.error);
+    }
+}
+
+// Distributive Omit so each request variant keeps its own fields.
+type RequestBody = WorkerRequest extends infer R ? R extends WorkerRequest ? Omit<R, 'id'> : never : never;
+
+// WorkerPool: spreads requests over a fixed set of workers, always picking
+// the worker with the fewest requests in flight. A worker that reports an
+// error or exits is terminated and gets no further requests; its requests
+// are rejected with a WorkerError.
+export class WorkerPool {
+    private readonly workers: WorkerLike[];
+    private readonly pending: Map<number, {
+        resolve: (value: unknown) => void,
+        reject: (error: Error) => void
+    }>[];
+    private readonly failed: boolean[];
+    private nextId = 0;
+    private terminated = false;
+
+    constructor(workers: WorkerLike[]) {
+        if (workers.length === 0) {
+            throw new InvalidParameterError("WorkerPool needs at least one worker");
+        }
+        this.workers = workers;
+        this.pending = workers.map(() => new Map());
+        this.failed = workers.map(() => false);
+
+        workers.forEach((worker, i) => {
+            worker.onMessage((response) => {
+                const entry = this.pending[i].get(response.id);
+                if (entry === undefined) return;
+                this.pending[i].delete(response.id);
+                if (this.pending[i].size === 0) {
+                    worker.unref?.();
+                }
+                if (response.ok) {
+                    entry.resolve(response.result);
+                } else {
+                    entry.reject(responseError(response));
+                }
+            });
+            worker.onError((error) => {
+                if (this.failed[i] || this.terminated) return;
+                this.failed[i] = true;
+                for (const entry of this.pending[i].values()) {
+                    entry.reject(error);
+                }
+                this.pending[i].clear();
+                worker.terminate();
+            });
+        });
+    }
+
+    // size: The number of workers that have not failed.
+    public get size(): number {
+        return this.failed.filter(failed => !failed).length;
+    }
+
+    // run: Send a request to the least busy worker and wait for its answer.
+    public run<T>(request: RequestBody): Promise<T> {
+        if (this.terminated) {
+            return Promise.reject(new WorkerError("WorkerPool has been terminated"));
+        }
+
+        let target = -1;
+        for (let i = 0; i < this.workers.length; i++) {
+            if (!this.failed[i] && (target === -1 || this.pending[i].size < this.pending[target].size)) {
+                target = i;
+            }
+        }
+        if (target === -1) {
+            return Promise.reject(new WorkerError("every worker in the WorkerPool has failed"));
+        }
+
+        const id = this.nextId++;
+        return new Promise<T>((resolve, reject) => {
+            this.pending[target].set(id, { resolve: resolve as (value: unknown) => void, reject });
+            if (this.pending[target].size === 1) {
+                this.workers[target].ref?.();
+            }
+            this.workers[target].postMessage({ ...request, id } as WorkerRequest);
+        });
+    }
+
+    // terminate: Stop every worker and reject requests still in flight.
+    public terminate(): void {
+        this.terminated = true;
+        this.workers.forEach((worker, i) => {
+            for (const entry of this.pending[i].values()) {
+                entry.reject(new WorkerError("WorkerPool has been terminated"));
+            }
+            this.pending[i].clear();
+            if (!this.failed[i]) {
+                worker.terminate();
+            }
+        });
+    }
+}
+
+// NodeWorker: the parts of a worker_threads Worker we use.
+interface NodeWorker {
+    postMessage(message: unknown): void;
+    on(event: 'message', listener: (message: WorkerResponse) => void): unknown;
+    on(event: 'error', listener: (error: Error) => void): unknown;
+    on(event: 'exit', listener: (exitCode: number) => void): unknown;
+    terminate(): unknown;
+    ref(): void;
+    unref(): void;
+}
+
+// fromNodeWorker: Adapt a worker_threads Worker running `worker.js`.
+export function fromNodeWorker(worker: NodeWorker): WorkerLike {
+    return {
+        postMessage: (message) => worker.postMessage(message),
+        onMessage: (handler) => { worker.on('message', handler); },
+        onError: (handler) => {
+            worker.on('error', (error) => handler(new WorkerError(`worker failed: ${error.message}`)));
+            worker.on('exit', (exitCode) => handler(new WorkerError(`worker exited with code ${exitCode}`, exitCode)));
+        },
+        terminate: () => { worker.terminate(); },
+        ref: () => worker.ref(),
+        unref: () => worker.unref()
+    };
+}
+
+// WebWorker: the parts of a browser Worker we use.
+interface WebWorker {
+    postMessage(message: unknown): void;
+    addEventListener(type: 'message', listener: (event: { data: WorkerResponse }) => void): void;
+    addEventListener(type: 'error', listener: (event: { message?: string }) => void): void;
+    terminate(): void;
+}
+
+// fromWebWorker: Adapt a browser Worker running `worker.js`.
+export function fromWebWorker(worker: WebWorker): WorkerLike {
+    return {
+        postMessage: (message) => worker.postMessage(message),
+        onMessage: (handler) => worker.addEventListener('message', (event) => handler(event.data)),
+        onError: (handler) => worker.addEventListener('error', (event) =>
+            handler(new WorkerError(`worker failed: ${event.message ?? 'unknown error'}`))),
+        terminate: () => worker.terminate()
+    };
+}
+
+// createNodeWorkerPool: Start `size` worker_threads running the worker entry
+// point at `workerPath` (the package's `dist/worker.js`).
+export async function createNodeWorkerPool(workerPath: string, size: number): Promise<WorkerPool> {
+    if (!Number.isInteger(size) || size < 1) {
+        throw new InvalidParameterError("pool size must be a positive integer");
+    }
+    const { Worker } = await import('worker_threads');
+    const workers: WorkerLike[] = [];
+    for (let i = 0; i < size; i++) {
+        const worker = new Worker(workerPath);
+        // Idle workers should not keep the process alive; the pool refs a
+        // worker while it has requests in flight.
+        worker.unref();
+        workers.push(fromNodeWorker(worker));
+    }
+    return new WorkerPool(workers);
+}
+
+// yieldToEventLoop: Let pending I/O and rendering run before we block on hashing.
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// offloadTarget: The pool and parameter set name to run an operation with,
+// or undefined when it has to run on the calling thread. Workers rebuild
+// instances with `WOTSPlus.fromParameterSet`, so only an instance that is
+// exactly such a rebuild, a quip mode instance of a registered set with
+// its `n` and `w`, can be offloaded.
+function offloadTarget(wotsPlus: WOTSPlus, pool?: WorkerPool): { pool: WorkerPool, parameterSet: string } | undefined {
+    const set = wotsPlus.parameterSet;
+    if (pool === undefined || set === undefined || wotsPlus.mode !== 'quip') {
+        return undefined;
+    }
+    const registered = listParameterSets().find(candidate => candidate.name === set.name);
+    if (registered !== set || set.hashLen !== wotsPlus.hashLen || set.chainLen !== wotsPlus.chainLen) {
+        return undefined;
+    }
+    return { pool, parameterSet: set.name };
+}
+
+// generateKeyPairAsync: Async counterpart of `WOTSPlus.generateKeyPair`.
+export async function generateKeyPairAsync(
+    wotsPlus: WOTSPlus,
+    privateSeed: Uint8Array,
+    publicSeed: Uint8Array,
+    pool?: WorkerPool
+): Promise<{ publicKey: Uint8Array, privateKey: Uint8Array }> {
+    const target = offloadTarget(wotsPlus, pool);
+    if (target !== undefined) {
+        return target.pool.run({
+            parameterSet: target.parameterSet,
+            op: 'generateKeyPair',
+            privateSeed,
+            publicSeed
+        });
+    }
+    await yieldToEventLoop();
+    return wotsPlus.generateKeyPair(privateSeed, publicSeed);
+}
+
+// signAsync: Async counterpart of `WOTSPlus.sign`.
+export async function signAsync(
+    wotsPlus: WOTSPlus,
+    privateKey: Uint8Array,
+    publicSeed: Uint8Array,
+    message: Uint8Array,
+    pool?: WorkerPool
+): Promise<Uint8Array[]> {
+    const target = offloadTarget(wotsPlus, pool);
+    if (target !== undefined) {
+        return target.pool.run({
+            parameterSet: target.parameterSet,
+            op: 'sign',
+            privateKey,
+            publicSeed,
+            message
+        });
+    }
+    await yieldToEventLoop();
+    return wotsPlus.sign(privateKey, publicSeed, message);
+}
+
+// verifyAsync: Async counterpart of `WOTSPlus.verify`.
+export async function verifyAsync(
+    wotsPlus: WOTSPlus,
+    publicKey: Uint8Array,
+    message: Uint8Array,
+    signature: Uint8Array[],
+    pool?: WorkerPool
+): Promise<boolean> {
+    const target = offloadTarget(wotsPlus, pool);
+    if (target !== undefined) {
+        return target.pool.run({
+            parameterSet: target.parameterSet,
+            op: 'verify',
+            publicKey,
+            message,
+            signature
+        });
+    }
+    await yieldToEventLoop();
+    return wotsPlus.verify(publicKey, message, signature);
+}
+
+// verifyBatch: Verify many signatures, spread over the pool when there is one.
+// Results are in the same order as `items`.
+export async function verifyBatch(
+    wotsPlus: WOTSPlus,
+    items: { publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array[] }[],
+    pool?: WorkerPool
+): Promise<boolean[]> {
+    if (offloadTarget(wotsPlus, pool) !== undefined) {
+        return Promise.all(items.map(item =>
+            verifyAsync(wotsPlus, item.publicKey, item.message, item.signature, pool)
+        ));
+    }
+
+    const results: boolean[] = [];
+    for (const item of items) {
+        results.push(await verifyAsync(wotsPlus, item.publicKey, item.message, item.signature));
+    }
+    return results;
+}
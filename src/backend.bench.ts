@@ -0,0 +1,60 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { bench, describe } from 'vitest';
+import { WOTSPlus } from './wotsplus';
+import { createHashBackend, createJsHashBackend } from './backend';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+// Batch hashing and the WOTS+ operations on the JavaScript and WebAssembly
+// keccak256 backends. Run with `npm run bench`.
+
+const privateSeed = keccak_256(new Uint8Array([1]));
+const publicSeed = keccak_256(new Uint8Array([2]));
+const message = keccak_256(new Uint8Array([3]));
+
+// One step of every chain of a W16 key: 67 inputs of 32 bytes.
+const inputs = Array.from({ length: 67 }, (_, i) => keccak_256(new Uint8Array([i])));
+
+const backends = {
+    'js': createJsHashBackend('keccak256'),
+    'wasm': await createHashBackend('keccak256'),
+};
+
+describe('hashMany 67 x 32 bytes', () => {
+    for (const [name, backend] of Object.entries(backends)) {
+        bench(name, () => {
+            backend.hashMany(inputs);
+        });
+    }
+});
+
+for (const [name, backend] of Object.entries(backends)) {
+    describe(`WOTSPlus keccak256 ${name}`, () => {
+        const wotsPlus = new WOTSPlus(backend);
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        const signature = wotsPlus.sign(privateKey, publicSeed, message);
+
+        bench('generateKeyPair', () => {
+            wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        });
+
+        bench('sign', () => {
+            wotsPlus.sign(privateKey, publicSeed, message);
+        });
+
+        bench('verify', () => {
+            wotsPlus.verify(publicKey, message, signature);
+        });
+    });
+}
@@ -0,0 +1,112 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { createHashBackend, createJsHashBackend, HashAlgorithm } from './backend';
+import { WOTSPlus } from './wotsplus';
+import { XMSS } from './xmss';
+import { Address } from './address';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+const noble = { keccak256: keccak_256, sha256 };
+
+// inputs: Every length from 0 to 300 bytes, so padding crosses block boundaries.
+const inputs = Array.from({ length: 301 }, (_, length) =>
+    Uint8Array.from({ length }, (_, j) => (length * 31 + j * 7) & 0xFF));
+
+describe('hash backends', () => {
+    for (const algorithm of ['keccak256', 'sha256'] as HashAlgorithm[]) {
+        it(`should match @noble/hashes for ${algorithm}`, async () => {
+            const wasm = await createHashBackend(algorithm);
+            const js = createJsHashBackend(algorithm);
+            expect(wasm.backendName).toBe(`${algorithm}-wasm`);
+            expect(js.backendName).toBe(`${algorithm}-js`);
+
+            const expected = inputs.map(input => noble[algorithm](input));
+            expect(wasm.hashMany(inputs)).toEqual(expected);
+            expect(js.hashMany(inputs)).toEqual(expected);
+            // Mixed lengths in any order, and the single input path
+            const shuffled = [...inputs].reverse();
+            expect(wasm.hashMany(shuffled)).toEqual([...expected].reverse());
+            expect(wasm(inputs[200])).toEqual(expected[200]);
+            expect(wasm.hashMany([])).toEqual([]);
+        });
+    }
+
+    it('should fall back to JavaScript on request', async () => {
+        expect((await createHashBackend('sha256', { wasm: false })).backendName).toBe('sha256-js');
+        await expect(createHashBackend('md5' as HashAlgorithm)).rejects.toThrow(InvalidParameterError);
+    });
+});
+
+describe('WOTSPlus with a batch hash', () => {
+    const privateSeed = keccak_256(new TextEncoder().encode('backend private seed'));
+    const publicSeed = keccak_256(new TextEncoder().encode('backend public seed'));
+    const message = keccak_256(new TextEncoder().encode('backend message'));
+
+    for (const [hashLen, chainLen] of [[32, 16], [32, 4], [32, 256], [24, 16]]) {
+        it(`should produce the same keys and signatures (n=${hashLen}, w=${chainLen})`, async () => {
+            const reference = new WOTSPlus(keccak_256, hashLen, chainLen);
+            const lockstep = new WOTSPlus(await createHashBackend('keccak256'), hashLen, chainLen);
+            const seed = publicSeed.slice(0, hashLen);
+
+            const expected = reference.generateKeyPair(privateSeed, seed);
+            const actual = lockstep.generateKeyPair(privateSeed, seed);
+            expect(actual).toEqual(expected);
+
+            const msg = message.slice(0, hashLen);
+            const signature = lockstep.sign(actual.privateKey, seed, msg);
+            expect(signature).toEqual(reference.sign(expected.privateKey, seed, msg));
+            expect(lockstep.verify(actual.publicKey, msg, signature)).toBe(true);
+            expect(lockstep.recoverPublicKey(seed, msg, signature)).toEqual(actual.publicKey);
+
+            signature[3] = signature[3].map(byte => byte ^ 1);
+            expect(lockstep.verify(actual.publicKey, msg, signature)).toBe(false);
+            signature[3] = signature[3].subarray(1);
+            expect(() => lockstep.verify(actual.publicKey, msg, signature)).toThrow(InvalidLengthError);
+        });
+    }
+
+    it('should produce the same keys and signatures in RFC 8391 mode', async () => {
+        const reference = new WOTSPlus(sha256, 32, 16, 'rfc8391');
+        const lockstep = new WOTSPlus(await createHashBackend('sha256'), 32, 16, 'rfc8391');
+        const address = new Address().setLayerAddress(1).setOTSAddress(5);
+
+        const expected = reference.generateKeyPair(privateSeed, publicSeed, address);
+        const actual = lockstep.generateKeyPair(privateSeed, publicSeed, address);
+        expect(actual).toEqual(expected);
+
+        const signature = lockstep.sign(actual.privateKey, publicSeed, message, address);
+        expect(signature).toEqual(reference.sign(expected.privateKey, publicSeed, message, address));
+        expect(lockstep.verify(actual.publicKey, message, signature, address)).toBe(true);
+        expect(lockstep.verify(actual.publicKey, message, signature, new Address().setOTSAddress(6))).toBe(false);
+
+        signature[3] = signature[3].map(byte => byte ^ 1);
+        expect(lockstep.verify(actual.publicKey, message, signature, address)).toBe(false);
+        signature[3] = signature[3].subarray(1);
+        expect(() => lockstep.verify(actual.publicKey, message, signature, address)).toThrow(InvalidLengthError);
+    });
+
+    it('should build the same XMSS trees', async () => {
+        const backend = await createHashBackend('sha256');
+        const reference = new XMSS(sha256, 3);
+        const lockstep = new XMSS(backend, 3);
+        const expected = reference.generateKeyPair(privateSeed, publicSeed);
+        const actual = lockstep.generateKeyPair(privateSeed, publicSeed);
+        expect(actual.publicKey).toEqual(expected.publicKey);
+        const signature = lockstep.sign(actual.privateKey, message);
+        expect(reference.verify(expected.publicKey, message, signature)).toBe(true);
+    });
+});
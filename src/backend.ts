@@ -0,0 +1,83 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { HashFunction } from './wotsplus';
+import { WasmHasher, wasmAvailable } from './wasm';
+import { InvalidParameterError } from './errors';
+
+// Hash backends
+//
+// A HashBackend is a HashFunction with a batch entry point, `hashMany`, that
+// hashes many independent inputs in one call. WOTSPlus detects it and hashes
+// each step of all its chains as one batch. The WebAssembly backends run a
+// batch in a single call into the module; the JavaScript ones are the
+// @noble/hashes functions applied in turn. Both give the same bytes.
+
+export type HashAlgorithm = 'keccak256' | 'sha256';
+
+export interface HashBackend extends HashFunction {
+    // BackendName: The algorithm and implementation, e.g. "keccak256-wasm".
+    readonly backendName: string;
+    hashMany(inputs: Uint8Array[]): Uint8Array[];
+}
+
+const NOBLE: Record<HashAlgorithm, HashFunction> = {
+    keccak256: keccak_256,
+    sha256: sha256,
+};
+
+function checkAlgorithm(algorithm: HashAlgorithm): void {
+    if (NOBLE[algorithm] === undefined) {
+        throw new InvalidParameterError(`unknown hash algorithm ${algorithm}`);
+    }
+}
+
+// createJsHashBackend: The @noble/hashes backend, available everywhere.
+export function createJsHashBackend(algorithm: HashAlgorithm): HashBackend {
+    checkAlgorithm(algorithm);
+    const hash = NOBLE[algorithm];
+    return Object.assign((data: Uint8Array) => hash(data), {
+        create: hash.create,
+        backendName: `${algorithm}-js`,
+        hashMany: (inputs: Uint8Array[]) => inputs.map(input => hash(input)),
+    });
+}
+
+// The module is instantiated once and shared by every WebAssembly backend.
+let wasmHasher: Promise<WasmHasher> | undefined;
+
+// createHashBackend: The WebAssembly backend, or the JavaScript one when the
+// runtime has no WebAssembly or `wasm` is false.
+export async function createHashBackend(
+    algorithm: HashAlgorithm,
+    options: { wasm?: boolean } = {}
+): Promise<HashBackend> {
+    checkAlgorithm(algorithm);
+    if (options.wasm === false || !wasmAvailable()) {
+        return createJsHashBackend(algorithm);
+    }
+    if (wasmHasher === undefined) {
+        wasmHasher = WasmHasher.create();
+    }
+    const hasher = await wasmHasher;
+    const hashMany = algorithm === 'keccak256'
+        ? (inputs: Uint8Array[]) => hasher.keccak256Many(inputs)
+        : (inputs: Uint8Array[]) => hasher.sha256Many(inputs);
+    return Object.assign((data: Uint8Array) => hashMany([data])[0], {
+        backendName: `${algorithm}-wasm`,
+        hashMany,
+    });
+}
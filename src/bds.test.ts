@@ -0,0 +1,123 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { BDSTraversal, MerkleTreeHasher, TreeHashBuilder } from './bds';
+import { BufferUtil } from './utils';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('Merkle tree traversal', () => {
+    // A cheap tree: leaves are hash(index), nodes hash(height || index || left || right).
+    const leafCalls: number[] = [];
+    const hasher: MerkleTreeHasher = {
+        leaf: (index) => {
+            leafCalls.push(index);
+            return keccak_256(BufferUtil.toBytes(index, 4));
+        },
+        hashNodes: (left, right, height, index) => keccak_256(BufferUtil.concat(
+            BufferUtil.toBytes(height, 4), BufferUtil.toBytes(index, 4), left, right
+        ))
+    };
+
+    // node: The node at `height` and `index`, computed from scratch.
+    const node = (height: number, index: number): Uint8Array => height === 0
+        ? hasher.leaf(index)
+        : hasher.hashNodes(node(height - 1, 2 * index), node(height - 1, 2 * index + 1), height - 1, index);
+
+    const naiveAuthPath = (height: number, leaf: number): Uint8Array[] =>
+        Array.from({ length: height }, (_, j) => node(j, (leaf >> j) ^ 1));
+
+    it('should build a root from a stream of leaves', () => {
+        const builder = new TreeHashBuilder(hasher.hashNodes, 4);
+        for (let i = 0; i < 16; i++) {
+            expect(builder.complete).toBe(false);
+            builder.push(hasher.leaf(i));
+        }
+        expect(builder.root()).toEqual(node(4, 0));
+        expect(() => builder.push(hasher.leaf(16))).toThrow(/complete/);
+
+        const subtree = new TreeHashBuilder(hasher.hashNodes, 2, 8);
+        subtree.pushFrom(hasher);
+        expect(subtree.root()).toEqual(node(2, 2));
+        expect(() => new TreeHashBuilder(hasher.hashNodes, 2, 6)).toThrow(/multiple/);
+    });
+
+    it('should resume a saved build', () => {
+        const builder = new TreeHashBuilder(hasher.hashNodes, 5);
+        expect(builder.pushFrom(hasher, 11)).toBe(11);
+        expect(() => builder.root()).toThrow(/21 more leaves/);
+
+        const saved = JSON.parse(JSON.stringify(builder));
+        const resumed = TreeHashBuilder.fromJSON(saved, hasher.hashNodes);
+        expect(resumed.nextIndex).toBe(11);
+        resumed.pushFrom(hasher);
+        expect(resumed.root()).toEqual(node(5, 0));
+    });
+
+    it('should output every authentication path in order', () => {
+        for (const [height, k] of [[4, 2], [5, 1], [5, 3], [6, 0], [6, 2], [4, 4]]) {
+            const { traversal, root } = BDSTraversal.initialize(hasher, height, k);
+            expect(root).toEqual(node(height, 0));
+            for (let leaf = 0; leaf < 2 ** height; leaf++) {
+                expect(traversal.leafIndex).toBe(leaf);
+                expect(traversal.authPath()).toEqual(naiveAuthPath(height, leaf));
+                if (leaf < 2 ** height - 1) {
+                    traversal.next(hasher);
+                }
+            }
+            expect(() => traversal.next(hasher)).toThrow(/last leaf/);
+        }
+    });
+
+    it('should bound the leaves computed per step', () => {
+        const height = 8;
+        const k = 2;
+        const { traversal } = BDSTraversal.initialize(hasher, height, k);
+        let maxLeaves = 0;
+        for (let leaf = 0; leaf < 2 ** height - 1; leaf++) {
+            leafCalls.length = 0;
+            traversal.next(hasher);
+            maxLeaves = Math.max(maxLeaves, leafCalls.length);
+        }
+        // (h - k) / 2 treehash updates plus the leaf of bds_round
+        expect(maxLeaves).toBeLessThanOrEqual((height - k) / 2 + 1);
+    });
+
+    it('should resume from a saved state', () => {
+        const { traversal } = BDSTraversal.initialize(hasher, 6, 2);
+        for (let leaf = 0; leaf < 23; leaf++) {
+            traversal.next(hasher);
+        }
+
+        const saved = JSON.parse(JSON.stringify(traversal));
+        const resumed = BDSTraversal.fromJSON(saved);
+        for (let leaf = 23; leaf < 63; leaf++) {
+            expect(resumed.authPath()).toEqual(naiveAuthPath(6, leaf));
+            resumed.next(hasher);
+        }
+        expect(resumed.authPath()).toEqual(naiveAuthPath(6, 63));
+    });
+
+    it('should reject invalid parameters and states', () => {
+        expect(() => BDSTraversal.initialize(hasher, 5, 2)).toThrow(/even/);
+        expect(() => BDSTraversal.initialize(hasher, 4, 6)).toThrow();
+        expect(() => new TreeHashBuilder(hasher.hashNodes, 0)).toThrow(/Height/);
+
+        const saved = BDSTraversal.initialize(hasher, 4, 2).traversal.toJSON();
+        expect(() => BDSTraversal.fromJSON({ ...saved, version: 2 })).toThrow(/version/);
+        expect(() => BDSTraversal.fromJSON({ ...saved, k: 1 })).toThrow(/height or k/);
+        expect(() => BDSTraversal.fromJSON({ ...saved, auth: saved.auth.slice(1) })).toThrow(/malformed/);
+        expect(() => BDSTraversal.fromJSON({ ...saved, index: 16 })).toThrow();
+        expect(() => BDSTraversal.fromJSON({ ...saved, auth: ['zz', ...saved.auth.slice(1)] })).toThrow(/hex/);
+    });
+});
@@ -0,0 +1,463 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { hexToBytes } from '@noble/hashes/utils';
+import { BufferUtil } from './utils';
+import { InvalidEncodingError, InvalidParameterError } from './errors';
+
+// Merkle tree construction and traversal with bounded memory.
+//
+// TreeHashBuilder computes a root from a stream of leaves while holding at
+// most one node per level. BDSTraversal is the traversal algorithm of
+// Buchmann, Dahmen and Schneider ("Merkle tree traversal revisited", 2008) as
+// used by the XMSS reference implementation: after one pass over the leaves it
+// outputs the authentication path of each successive leaf, computing about
+// (h - k) / 2 leaves per step and storing O(h) nodes plus 2^k - k - 1 retained
+// nodes near the top of the tree.
+//
+// Both only ever hold tree nodes, which are public, so their state can be
+// written to disk as is. The leaves and node hash are supplied by the caller
+// on every call and are never stored.
+
+// MerkleTreeHasher: How to compute the leaves and inner nodes of a tree.
+export interface MerkleTreeHasher {
+    // leaf: The leaf at `index`.
+    leaf(index: number): Uint8Array;
+    // hashNodes: The parent of `left` and `right`, which are at `height`.
+    // `index` is the index of the parent within its own level.
+    hashNodes(left: Uint8Array, right: Uint8Array, height: number, index: number): Uint8Array;
+}
+
+export const BDS_STATE_VERSION = 1;
+
+// Heights are limited so node indexes stay in 32 bit integer range.
+const MAX_HEIGHT = 30;
+
+function checkHeight(height: number): void {
+    if (!Number.isInteger(height) || height < 1 || height > MAX_HEIGHT) {
+        throw new InvalidParameterError(`Height must be an integer between 1 and ${MAX_HEIGHT}`);
+    }
+}
+
+function parseNode(value: unknown): Uint8Array {
+    if (typeof value !== 'string' || value.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(value)) {
+        throw new InvalidEncodingError("tree nodes must be hex strings");
+    }
+    return hexToBytes(value);
+}
+
+function parseInteger(value: unknown, max: number): number {
+    if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > max) {
+        throw new InvalidEncodingError(`expected an integer between 0 and ${max}`);
+    }
+    return value as number;
+}
+
+export interface TreeHashBuilderJSON {
+    height: number;
+    start: number;
+    count: number;
+    stack: { node: string, height: number }[];
+}
+
+// TreeHashBuilder: The treehash algorithm of RFC 8391 section 4.1.6, fed one
+// leaf at a time. Builds the subtree of 2^height leaves whose left-most leaf
+// is `start`, which must be a multiple of 2^height.
+export class TreeHashBuilder {
+    private readonly hashNodes: MerkleTreeHasher['hashNodes'];
+    private readonly onNode?: (node: Uint8Array, height: number, index: number) => void;
+    private stack: { node: Uint8Array, height: number }[] = [];
+    private count = 0;
+
+    public readonly height: number;
+    public readonly start: number;
+
+    // `onNode` sees every node as it is completed, leaves included.
+    constructor(
+        hashNodes: MerkleTreeHasher['hashNodes'],
+        height: number,
+        start: number = 0,
+        onNode?: (node: Uint8Array, height: number, index: number) => void
+    ) {
+        checkHeight(height);
+        if (!Number.isSafeInteger(start) || start < 0 || start % 2 ** height !== 0) {
+            throw new InvalidParameterError("start must be a multiple of 2^height");
+        }
+        this.hashNodes = hashNodes;
+        this.height = height;
+        this.start = start;
+        this.onNode = onNode;
+    }
+
+    // nextIndex: The index of the leaf `push` expects next.
+    public get nextIndex(): number {
+        return this.start + this.count;
+    }
+
+    public get complete(): boolean {
+        return this.count === 2 ** this.height;
+    }
+
+    // push: Add the next leaf and hash every pair of equal height nodes.
+    public push(leaf: Uint8Array): void {
+        if (this.complete) {
+            throw new InvalidParameterError("tree is already complete");
+        }
+        let node = leaf;
+        let height = 0;
+        let index = this.nextIndex;
+        this.onNode?.(node, height, index);
+        while (this.stack.length > 0 && this.stack[this.stack.length - 1].height === height) {
+            index = index >>> 1;
+            const left = this.stack.pop();
+            if (left === undefined) {
+                throw new InvalidEncodingError("malformed treehash stack");
+            }
+            node = this.hashNodes(left.node, node, height, index);
+            height++;
+            this.onNode?.(node, height, index);
+        }
+        this.stack.push({ node, height });
+        this.count++;
+    }
+
+    // pushFrom: Push leaves from `hasher` until the tree is complete or
+    // `count` leaves have been added. Returns the number of leaves added.
+    public pushFrom(hasher: Pick<MerkleTreeHasher, 'leaf'>, count: number = Infinity): number {
+        let added = 0;
+        while (!this.complete && added < count) {
+            this.push(hasher.leaf(this.nextIndex));
+            added++;
+        }
+        return added;
+    }
+
+    // root: The root once every leaf has been pushed.
+    public root(): Uint8Array {
+        if (!this.complete) {
+            throw new InvalidParameterError(`tree needs ${2 ** this.height - this.count} more leaves`);
+        }
+        return this.stack[0].node.slice();
+    }
+
+    public toJSON(): TreeHashBuilderJSON {
+        return {
+            height: this.height,
+            start: this.start,
+            count: this.count,
+            stack: this.stack.map(({ node, height }) => ({ node: BufferUtil.toHex(node), height })),
+        };
+    }
+
+    // fromJSON: Resume a build saved with `toJSON`.
+    public static fromJSON(json: TreeHashBuilderJSON, hashNodes: MerkleTreeHasher['hashNodes']): TreeHashBuilder {
+        const builder = new TreeHashBuilder(hashNodes, json.height, json.start);
+        builder.count = parseInteger(json.count, 2 ** json.height);
+        if (!Array.isArray(json.stack) || json.stack.length > json.height + 1) {
+            throw new InvalidEncodingError("malformed treehash stack");
+        }
+        builder.stack = json.stack.map(entry => ({
+            node: parseNode(entry.node),
+            height: parseInteger(entry.height, json.height),
+        }));
+        return builder;
+    }
+}
+
+// TreeHashInstance: One treehash computation of BDS, building the next
+// authentication node of its level a few leaves at a time. Its stack entries
+// live on the stack shared by all instances.
+interface TreeHashInstance {
+    height: number;
+    nextIndex: number;
+    stackUsage: number;
+    completed: boolean;
+    node: Uint8Array;
+}
+
+export interface BDSStateJSON {
+    version: number;
+    height: number;
+    k: number;
+    index: number;
+    auth: string[];
+    keep: string[];
+    retain: string[];
+    stack: { node: string, height: number }[];
+    treehash: { height: number, nextIndex: number, stackUsage: number, completed: boolean, node: string }[];
+}
+
+// BDSTraversal: Authentication paths for leaves 0, 1, 2, ... in order.
+//
+// `k` trades memory for speed: the top k levels are kept in full, which takes
+// 2^k - k - 1 nodes and saves recomputing them. h - k must be even.
+export class BDSTraversal {
+    public readonly height: number;
+    public readonly k: number;
+
+    private index = 0;
+    private readonly auth: Uint8Array[];
+    private readonly keep: Uint8Array[];
+    private readonly retain: Uint8Array[];
+    private readonly stack: { node: Uint8Array, height: number }[] = [];
+    private readonly treehash: TreeHashInstance[];
+
+    private constructor(height: number, k: number) {
+        checkHeight(height);
+        if (!Number.isInteger(k) || k < 0 || k > height || (height - k) % 2 !== 0) {
+            throw new InvalidParameterError("k must be between 0 and the height, and height - k must be even");
+        }
+        this.height = height;
+        this.k = k;
+        const empty = () => new Uint8Array(0);
+        this.auth = Array.from({ length: height }, empty);
+        this.keep = Array.from({ length: height >> 1 }, empty);
+        this.retain = Array.from({ length: 2 ** k - k - 1 }, empty);
+        this.treehash = Array.from({ length: height - k }, (_, i) => ({
+            height: i, nextIndex: 0, stackUsage: 0, completed: true, node: empty()
+        }));
+    }
+
+    // initialize: Build the whole tree once, keeping the nodes the traversal
+    // starts from. Returns the traversal, ready for leaf 0, and the root.
+    public static initialize(hasher: MerkleTreeHasher, height: number, k: number): {
+        traversal: BDSTraversal,
+        root: Uint8Array
+    } {
+        const traversal = new BDSTraversal(height, k);
+        const builder = new TreeHashBuilder(
+            (left, right, h, index) => hasher.hashNodes(left, right, h, index),
+            height,
+            0,
+            (node, h, index) => traversal.keepInitialNode(node, h, index)
+        );
+        builder.pushFrom(hasher);
+        return { traversal, root: builder.root() };
+    }
+
+    // keepInitialNode: Store the nodes the first authentication paths need:
+    // every node with index 1 (the path of leaf 0), the node with index 3 on
+    // every treehash level, and every right node of the top k levels.
+    private keepInitialNode(node: Uint8Array, height: number, index: number): void {
+        if (height >= this.height) {
+            return;
+        }
+        if (index === 1) {
+            this.auth[height] = node;
+        } else if (height < this.height - this.k) {
+            if (index === 3) {
+                this.treehash[height].node = node;
+            }
+        } else if (index >= 3 && (index & 1) === 1) {
+            this.retain[this.retainOffset(height) + ((index - 3) >> 1)] = node;
+        }
+    }
+
+    // retainOffset: Where the retained nodes of `height` start; higher levels come first.
+    private retainOffset(height: number): number {
+        return 2 ** (this.height - 1 - height) + height - this.height;
+    }
+
+    // leafIndex: The leaf whose authentication path `authPath` returns.
+    public get leafIndex(): number {
+        return this.index;
+    }
+
+    // authPath: The authentication path of `leafIndex`, bottom level first.
+    public authPath(): Uint8Array[] {
+        return this.auth.map(node => node.slice());
+    }
+
+    // next: Move on to the next leaf.
+    public next(hasher: MerkleTreeHasher): void {
+        if (this.index >= 2 ** this.height - 1) {
+            throw new InvalidParameterError("traversal has reached the last leaf");
+        }
+        this.round(hasher, this.index);
+        this.updateTreeHashes(hasher, (this.height - this.k) >> 1);
+        this.index++;
+    }
+
+    // round: Compute the authentication path of `leafIndex + 1` from the one
+    // of `leafIndex` (bds_round of the XMSS reference implementation).
+    private round(hasher: MerkleTreeHasher, leafIndex: number): void {
+        const h = this.height;
+        let tau = h;
+        for (let i = 0; i < h; i++) {
+            if (((leafIndex >> i) & 1) === 0) {
+                tau = i;
+                break;
+            }
+        }
+
+        let left: Uint8Array | undefined;
+        let right: Uint8Array | undefined;
+        if (tau > 0) {
+            // Read these before `keep` is refreshed below
+            left = this.auth[tau - 1];
+            right = this.keep[(tau - 1) >> 1];
+        }
+        if (((leafIndex >> (tau + 1)) & 1) === 0 && tau < h - 1) {
+            this.keep[tau >> 1] = this.auth[tau];
+        }
+
+        if (tau === 0) {
+            this.auth[0] = hasher.leaf(leafIndex);
+            return;
+        }
+        if (left === undefined || right === undefined) {
+            throw new InvalidEncodingError("malformed traversal state");
+        }
+        this.auth[tau] = hasher.hashNodes(left, right, tau - 1, leafIndex >>> tau);
+        for (let i = 0; i < tau; i++) {
+            if (i < h - this.k) {
+                this.auth[i] = this.treehash[i].node;
+            } else {
+                this.auth[i] = this.retain[this.retainOffset(i) + (((leafIndex >>> i) - 1) >> 1)];
+            }
+        }
+        for (let i = 0; i < Math.min(tau, h - this.k); i++) {
+            const start = leafIndex + 1 + 3 * 2 ** i;
+            if (start < 2 ** h) {
+                this.treehash[i] = { height: i, nextIndex: start, stackUsage: 0, completed: false, node: this.treehash[i].node };
+            }
+        }
+    }
+
+    // updateTreeHashes: Spend up to `updates` leaf computations on the
+    // unfinished treehash instance with the lowest node on the stack.
+    private updateTreeHashes(hasher: MerkleTreeHasher, updates: number): void {
+        const levels = this.height - this.k;
+        for (let j = 0; j < updates; j++) {
+            let level = levels;
+            let lowest = this.height;
+            for (let i = 0; i < levels; i++) {
+                const instance = this.treehash[i];
+                let low: number;
+                if (instance.completed) {
+                    low = this.height;
+                } else if (instance.stackUsage === 0) {
+                    low = i;
+                } else {
+                    low = this.minHeightOnStack(instance);
+                }
+                if (low < lowest) {
+                    level = i;
+                    lowest = low;
+                }
+            }
+            if (level === levels) {
+                return;
+            }
+            this.updateTreeHash(hasher, this.treehash[level]);
+        }
+    }
+
+    private minHeightOnStack(instance: TreeHashInstance): number {
+        let min = this.height;
+        for (let i = 0; i < instance.stackUsage; i++) {
+            min = Math.min(min, this.stack[this.stack.length - 1 - i].height);
+        }
+        return min;
+    }
+
+    // updateTreeHash: Add one leaf to a treehash instance.
+    private updateTreeHash(hasher: MerkleTreeHasher, instance: TreeHashInstance): void {
+        let node = hasher.leaf(instance.nextIndex);
+        let height = 0;
+        while (instance.stackUsage > 0 && this.stack[this.stack.length - 1].height === height) {
+            const left = this.stack.pop();
+            if (left === undefined) {
+                throw new InvalidEncodingError("malformed traversal state");
+            }
+            node = hasher.hashNodes(left.node, node, height, instance.nextIndex >>> (height + 1));
+            height++;
+            instance.stackUsage--;
+        }
+        if (height === instance.height) {
+            instance.node = node;
+            instance.completed = true;
+        } else {
+            this.stack.push({ node, height });
+            instance.stackUsage++;
+            instance.nextIndex++;
+        }
+    }
+
+    public toJSON(): BDSStateJSON {
+        const hex = (nodes: Uint8Array[]) => nodes.map(node => BufferUtil.toHex(node));
+        return {
+            version: BDS_STATE_VERSION,
+            height: this.height,
+            k: this.k,
+            index: this.index,
+            auth: hex(this.auth),
+            keep: hex(this.keep),
+            retain: hex(this.retain),
+            stack: this.stack.map(({ node, height }) => ({ node: BufferUtil.toHex(node), height })),
+            treehash: this.treehash.map(instance => ({
+                height: instance.height,
+                nextIndex: instance.nextIndex,
+                stackUsage: instance.stackUsage,
+                completed: instance.completed,
+                node: BufferUtil.toHex(instance.node),
+            })),
+        };
+    }
+
+    // fromJSON: Restore a traversal saved with `toJSON`.
+    public static fromJSON(json: BDSStateJSON): BDSTraversal {
+        if (json?.version !== BDS_STATE_VERSION) {
+            throw new InvalidEncodingError(`unsupported traversal state version ${json?.version}`);
+        }
+        let traversal: BDSTraversal;
+        try {
+            traversal = new BDSTraversal(json.height, json.k);
+        } catch {
+            throw new InvalidEncodingError("invalid traversal height or k");
+        }
+        const nodes = (values: unknown, into: Uint8Array[]) => {
+            if (!Array.isArray(values) || values.length !== into.length) {
+                throw new InvalidEncodingError("malformed traversal state");
+            }
+            values.forEach((value, i) => { into[i] = parseNode(value); });
+        };
+        const leaves = 2 ** json.height;
+
+        traversal.index = parseInteger(json.index, leaves - 1);
+        nodes(json.auth, traversal.auth);
+        nodes(json.keep, traversal.keep);
+        nodes(json.retain, traversal.retain);
+        if (!Array.isArray(json.stack) || json.stack.length > json.height + 1
+            || !Array.isArray(json.treehash) || json.treehash.length !== traversal.treehash.length) {
+            throw new InvalidEncodingError("malformed traversal state");
+        }
+        for (const entry of json.stack) {
+            traversal.stack.push({ node: parseNode(entry.node), height: parseInteger(entry.height, json.height) });
+        }
+        json.treehash.forEach((instance, i) => {
+            if (instance.height !== i || typeof instance.completed !== 'boolean') {
+                throw new InvalidEncodingError("malformed traversal state");
+            }
+            traversal.treehash[i] = {
+                height: i,
+                nextIndex: parseInteger(instance.nextIndex, leaves),
+                stackUsage: parseInteger(instance.stackUsage, json.height + 1),
+                completed: instance.completed,
+                node: parseNode(instance.node),
+            };
+        });
+        return traversal;
+    }
+}
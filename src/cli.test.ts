@@ -0,0 +1,213 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli, CliIO, EXIT_CODES } from './cli';
+import { ErrorCode } from './errors';
+import { WOTSPlus } from './wotsplus';
+import { keccak_256 } from '@noble/hashes/sha3';
+import testVectors from '../test/test_vectors/wotsplus_keccak256.json';
+
+describe('hashsigs CLI', () => {
+    const tmpDirs: string[] = [];
+    const makeTmpDir = (): string => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hashsigs-'));
+        tmpDirs.push(dir);
+        return dir;
+    };
+
+    afterEach(() => {
+        while (tmpDirs.length > 0) {
+            fs.rmSync(tmpDirs.pop()!, { recursive: true, force: true });
+        }
+    });
+
+    // run: Run the CLI and capture its exit code and output.
+    const run = (...argv: string[]) => {
+        let stdout = '';
+        let stderr = '';
+        const io: CliIO = {
+            stdout: data => { stdout += typeof data === 'string' ? data : Buffer.from(data).toString('hex'); },
+            stderr: data => { stderr += data; },
+        };
+        const code = runCli(argv, io);
+        return { code, stdout, stderr };
+    };
+
+    const seed = '0x' + '11'.repeat(32);
+    const publicSeed = '0x' + '22'.repeat(32);
+    const message = '0x' + 'ab'.repeat(32);
+
+    it('should generate keys, sign and verify', () => {
+        const dir = makeTmpDir();
+        const keyPath = path.join(dir, 'key.json');
+        const sigPath = path.join(dir, 'sig.json');
+
+        expect(run('keygen', '--seed', seed, '--public-seed', publicSeed, '--out', keyPath).code).toBe(0);
+        const key = JSON.parse(fs.readFileSync(keyPath, 'utf8'));
+        expect(key.parameterSet).toBe('WOTSP-KECCAK256-W16');
+        expect(key.publicSeed).toBe(publicSeed);
+        // the key file holds the private key, so only its owner may read it
+        if (process.platform !== 'win32') {
+            expect(fs.statSync(keyPath).mode & 0o777).toBe(0o600);
+        }
+
+        const wotsPlus = new WOTSPlus(keccak_256);
+        const expected = wotsPlus.generateKeyPair(
+            new Uint8Array(32).fill(0x11),
+            new Uint8Array(32).fill(0x22)
+        );
+        expect(key.publicKey).toBe('0x' + Buffer.from(expected.publicKey).toString('hex'));
+
+        const pubkey = run('pubkey', '--key', keyPath, '--format', 'hex');
+        expect(pubkey.stdout.trim()).toBe(key.publicKey);
+
+        expect(run('sign', '--key', keyPath, '--message', message, '--out', sigPath).code).toBe(0);
+        const signature = JSON.parse(fs.readFileSync(sigPath, 'utf8'));
+        expect(signature.signature.length).toBe(wotsPlus.numSignatureChunks);
+        expect(signature.message).toBe(message);
+
+        expect(run('verify', '--signature', sigPath)).toMatchObject({ code: 0, stdout: 'valid\n' });
+        expect(run('verify', '--signature', sigPath, '--key', keyPath).code).toBe(0);
+        expect(run('verify', '--signature', sigPath, '--message', '0x' + 'ac'.repeat(32)))
+            .toMatchObject({ code: 1, stdout: 'invalid\n' });
+    });
+
+    it('should read hex and binary signature and message files', () => {
+        const dir = makeTmpDir();
+        const keyPath = path.join(dir, 'key.json');
+        run('keygen', '--params', 'WOTSP-SHA256-W4', '--out', keyPath);
+        const publicKey = run('pubkey', '--key', keyPath, '--format', 'hex').stdout.trim();
+
+        const hexSigPath = path.join(dir, 'sig.hex');
+        const binSigPath = path.join(dir, 'sig.bin');
+        const messagePath = path.join(dir, 'message.bin');
+        fs.writeFileSync(messagePath, Buffer.from(message.slice(2), 'hex'));
+        run('sign', '--key', keyPath, '--message-file', messagePath, '--format', 'hex', '--out', hexSigPath);
+        // a second state file lets the key sign the same message again
+        run('sign', '--key', keyPath, '--message', message, '--format', 'binary', '--out', binSigPath,
+            '--state', path.join(dir, 'second.state'));
+        expect(fs.readFileSync(binSigPath).toString('hex')).toBe(fs.readFileSync(hexSigPath, 'utf8').trim().slice(2));
+
+        for (const [sigPath, format] of [[hexSigPath, 'hex'], [binSigPath, 'binary']]) {
+            expect(run('verify', '--params', 'WOTSP-SHA256-W4', '--pubkey', publicKey,
+                '--message', message, '--signature', sigPath, '--format', format).code).toBe(0);
+        }
+        // binary is the default for signature files that are not JSON
+        expect(run('verify', '--params', 'WOTSP-SHA256-W4', '--pubkey', publicKey,
+            '--message', message, '--signature', binSigPath).code).toBe(0);
+        expect(run('verify', '--params', 'WOTSP-SHA256-W4', '--pubkey', publicKey,
+            '--message', message, '--signature', hexSigPath).code).toBe(EXIT_CODES[ErrorCode.InvalidLength]);
+        // the parameter set can also be given by OID
+        expect(run('verify', '--params', '0x12', '--pubkey', publicKey,
+            '--message-file', messagePath, '--signature', hexSigPath, '--format', 'hex').code).toBe(0);
+    });
+
+    it('should read message files in the requested encoding only', () => {
+        const dir = makeTmpDir();
+        const keyPath = path.join(dir, 'key.json');
+        run('keygen', '--seed', seed, '--public-seed', publicSeed, '--out', keyPath);
+
+        // 64 ASCII hex digits are 64 raw bytes, not the 32 bytes they spell
+        const textPath = path.join(dir, 'message.txt');
+        fs.writeFileSync(textPath, message.slice(2));
+        expect(run('sign', '--key', keyPath, '--message-file', textPath).code)
+            .toBe(EXIT_CODES[ErrorCode.InvalidLength]);
+
+        const sigPath = path.join(dir, 'sig.json');
+        expect(run('sign', '--key', keyPath, '--message-file', textPath, '--encoding', 'hex',
+            '--out', sigPath).code).toBe(0);
+        expect(JSON.parse(fs.readFileSync(sigPath, 'utf8')).message).toBe(message);
+        expect(run('verify', '--signature', sigPath, '--message-file', textPath, '--encoding', 'hex').code).toBe(0);
+        expect(run('verify', '--signature', sigPath, '--message-file', textPath, '--encoding', 'utf8').stderr)
+            .toMatch(/unknown encoding/);
+    });
+
+    it('should refuse to sign twice with one key', () => {
+        const dir = makeTmpDir();
+        const keyPath = path.join(dir, 'key.json');
+        run('keygen', '--out', keyPath);
+        expect(JSON.parse(fs.readFileSync(`${keyPath}.state`, 'utf8')).nextIndex).toBe(0);
+
+        expect(run('sign', '--key', keyPath, '--message', message).code).toBe(0);
+        expect(JSON.parse(fs.readFileSync(`${keyPath}.state`, 'utf8')).nextIndex).toBe(1);
+
+        const again = run('sign', '--key', keyPath, '--message', '0x' + 'cd'.repeat(32));
+        expect(again.code).toBe(EXIT_CODES[ErrorCode.KeyReuse]);
+        expect(again.stderr).toMatch(/already signed/);
+        expect(again.stdout).toBe('');
+
+        // keygen does not reset the state of an existing key
+        const regenerate = run('keygen', '--seed', seed, '--out', keyPath);
+        expect(regenerate.code).toBe(2);
+        expect(regenerate.stderr).toMatch(/already exists.*--force/);
+        expect(JSON.parse(fs.readFileSync(`${keyPath}.state`, 'utf8')).nextIndex).toBe(1);
+        fs.rmSync(keyPath);
+        expect(run('keygen', '--seed', seed, '--out', keyPath).stderr).toMatch(/key\.json\.state already exists/);
+        expect(fs.existsSync(keyPath)).toBe(false);
+
+        // unless it is told to, and then a fresh key file starts a fresh state file
+        expect(run('keygen', '--out', keyPath, '--force').code).toBe(0);
+        expect(run('sign', '--key', keyPath, '--message', message).code).toBe(0);
+    });
+
+    it('should generate vectors in the test vector format', () => {
+        const { code, stdout } = run('gen-vectors', '--count', '2', '--seed', seed);
+        expect(code).toBe(0);
+        const vectors = JSON.parse(stdout);
+        expect(Object.keys(vectors)).toEqual(['vector0', 'vector1']);
+        expect(Object.keys(vectors.vector0).sort()).toEqual(Object.keys(testVectors.vector0).sort());
+
+        // reproducible with a seed
+        expect(JSON.parse(run('gen-vectors', '--count', '2', '--seed', seed).stdout)).toEqual(vectors);
+
+        const hex = (s: string) => new Uint8Array(Buffer.from(s.slice(2), 'hex'));
+        const wotsPlus = new WOTSPlus(keccak_256);
+        for (const vector of Object.values(vectors) as typeof testVectors.vector0[]) {
+            const publicKey = hex(vector.publicKey);
+            expect(wotsPlus.verify(publicKey, hex(vector.message), vector.signature.map(hex))).toBe(true);
+            expect(wotsPlus.sign(hex(vector.privateKey), hex(vector.publicSeed), hex(vector.message)).map(
+                s => '0x' + Buffer.from(s).toString('hex'))).toEqual(vector.signature);
+            expect(keccak_256(Buffer.concat(vector.publicKeySegments.map(hex)))).toEqual(publicKey.slice(32));
+        }
+    });
+
+    it('should report errors', () => {
+        expect(run().code).toBe(2);
+        expect(run('--help')).toMatchObject({ code: 0 });
+        expect(run('frobnicate').stderr).toMatch(/unknown command/);
+        expect(run('keygen', '--params', 'NOPE')).toMatchObject({
+            code: EXIT_CODES[ErrorCode.InvalidParameter],
+            stderr: expect.stringMatching(/NOPE/),
+        });
+        expect(run('keygen', '--bogus').code).toBe(2);
+        expect(run('sign', '--message', message).stderr).toMatch(/--key/);
+
+        const dir = makeTmpDir();
+        const keyPath = path.join(dir, 'key.json');
+        run('keygen', '--out', keyPath);
+        expect(run('sign', '--key', keyPath, '--message', '0xabcd')).toMatchObject({
+            code: EXIT_CODES[ErrorCode.InvalidLength],
+            stderr: expect.stringMatching(/32 bytes/),
+        });
+        expect(run('sign', '--key', keyPath, '--message', 'zz')).toMatchObject({
+            code: EXIT_CODES[ErrorCode.InvalidEncoding],
+            stderr: expect.stringMatching(/hex/),
+        });
+        expect(run('sign', '--key', path.join(dir, 'missing.json'), '--message', message).code).toBe(2);
+        expect(run('pubkey', '--key', keyPath, '--format', 'yaml').stderr).toMatch(/format/);
+    });
+});
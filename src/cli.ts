@@ -0,0 +1,475 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { randomBytes } from '@noble/hashes/utils';
+import { WOTSPlus } from './wotsplus';
+import { WOTSKeyDerivation } from './derivation';
+import { encodeSignature, decodeSignature } from './serialization';
+import { FileStateStore, writeFileAtomic } from './node';
+import {
+    ErrorCode,
+    HashSigsError,
+    InvalidEncodingError,
+    InvalidLengthError,
+    InvalidParameterError,
+    KeyReuseError
+} from './errors';
+
+// hashsigs: A command line front end to WOTSPlus for ops and QA.
+//
+//   hashsigs keygen      [--params NAME] [--seed HEX] [--public-seed HEX] [--out FILE [--force]]
+//   hashsigs pubkey      --key FILE [--format json|hex|binary] [--out FILE]
+//   hashsigs sign        --key FILE (--message HEX | --message-file FILE [--encoding raw|hex])
+//                        [--state FILE] [--format ...] [--out FILE]
+//   hashsigs verify      (--pubkey HEX | --key FILE) (--message HEX | --message-file FILE [--encoding ...])
+//                        --signature FILE [--format ...] [--params NAME]
+//   hashsigs gen-vectors [--params NAME] [--count N] [--seed HEX] [--out FILE]
+//
+// Byte strings are written as 0x-prefixed hex. Input files are never sniffed:
+// message files are raw bytes unless --encoding hex is given, and signature
+// files are read in the --format they were written with (JSON by default,
+// raw bytes for a file that is not JSON). gen-vectors writes the same JSON
+// shape as test/test_vectors/wotsplus_keccak256.json.
+//
+// A key file signs once. sign keeps a FileStateStore next to it (<key>.state
+// unless --state is given), marks the key used before it signs and refuses
+// keys that are already marked. keygen --out writes the key file with mode
+// 0600, starts a fresh state file and refuses to replace an existing key or
+// state file unless --force is given.
+//
+// Exit codes: 0 on success, 1 for a signature that does not verify, 2 for
+// usage and I/O errors and EXIT_CODES for errors of the library.
+
+export const DEFAULT_PARAMETER_SET = 'WOTSP-KECCAK256-W16';
+
+// EXIT_CODES: The exit code for each HashSigsError code.
+export const EXIT_CODES: Readonly<Record<ErrorCode, number>> = {
+    [ErrorCode.InvalidParameter]: 3,
+    [ErrorCode.InvalidLength]: 4,
+    [ErrorCode.InvalidEncoding]: 5,
+    [ErrorCode.KeyReuse]: 6,
+    [ErrorCode.Decryption]: 7,
+    [ErrorCode.GrindingLimit]: 8,
+    [ErrorCode.Worker]: 9,
+};
+
+const USAGE = `usage: hashsigs <command> [options]
+
+commands:
+  keygen       generate a key file
+  pubkey       print the public key of a key file
+  sign         sign a hashed message with a key file
+  verify       verify a signature
+  gen-vectors  write test vectors in the wotsplus_keccak256.json format
+
+options:
+  --params NAME        parameter set name or OID (default ${DEFAULT_PARAMETER_SET})
+  --seed HEX           private seed for keygen, master seed for gen-vectors
+  --public-seed HEX    public seed for keygen
+  --key FILE           key file written by keygen
+  --pubkey HEX         public key to verify against
+  --message HEX        message, exactly n bytes
+  --message-file FILE  file holding the message
+  --signature FILE     signature file written by sign
+  --state FILE         state file of the key (default <key>.state)
+  --format FORMAT      json (default), hex or binary
+  --encoding ENCODING  raw (default) or hex, how --message-file is read
+  --force              let keygen replace an existing key and state file
+  --count N            number of vectors (default 5)
+  --out FILE           write the result to FILE instead of stdout
+`;
+
+// CliIO: Where the CLI writes its output, so it can run in tests.
+export interface CliIO {
+    stdout(data: string | Uint8Array): void;
+    stderr(data: string): void;
+}
+
+const processIO: CliIO = {
+    stdout: data => { process.stdout.write(data); },
+    stderr: data => { process.stderr.write(data); },
+};
+
+// KeyFile is the JSON written by keygen.
+export interface KeyFile {
+    parameterSet: string;
+    privateKey: string;
+    publicSeed: string;
+    publicKey: string;
+}
+
+// SignatureFile is the JSON written by sign.
+export interface SignatureFile {
+    parameterSet: string;
+    publicKey: string;
+    message: string;
+    signature: string[];
+}
+
+type Format = 'json' | 'hex' | 'binary';
+
+type Options = {
+    params?: string;
+    seed?: string;
+    'public-seed'?: string;
+    key?: string;
+    pubkey?: string;
+    message?: string;
+    'message-file'?: string;
+    signature?: string;
+    state?: string;
+    format?: string;
+    encoding?: string;
+    count?: string;
+    out?: string;
+    force?: boolean;
+    help?: boolean;
+};
+
+// UsageError marks mistakes in the command line, which also print the usage.
+class UsageError extends Error {}
+
+// runCli: Run one hashsigs command and return its exit code.
+export function runCli(argv: string[], io: CliIO = processIO): number {
+    let options: Options;
+    let positionals: string[];
+    try {
+        const parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                params: { type: 'string' },
+                seed: { type: 'string' },
+                'public-seed': { type: 'string' },
+                key: { type: 'string' },
+                pubkey: { type: 'string' },
+                message: { type: 'string' },
+                'message-file': { type: 'string' },
+                signature: { type: 'string' },
+                state: { type: 'string' },
+                format: { type: 'string' },
+                encoding: { type: 'string' },
+                count: { type: 'string' },
+                out: { type: 'string' },
+                force: { type: 'boolean' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+        options = parsed.values;
+        positionals = parsed.positionals;
+    } catch (err) {
+        io.stderr(`hashsigs: ${(err as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (options.help || positionals.length === 0) {
+        io.stdout(USAGE);
+        return options.help ? 0 : 2;
+    }
+
+    try {
+        if (positionals.length !== 1) {
+            throw new UsageError(`unexpected arguments: ${positionals.slice(1).join(' ')}`);
+        }
+        switch (positionals[0]) {
+            case 'keygen':
+                return keygen(options, io);
+            case 'pubkey':
+                return pubkey(options, io);
+            case 'sign':
+                return sign(options, io);
+            case 'verify':
+                return verify(options, io);
+            case 'gen-vectors':
+                return genVectors(options, io);
+            default:
+                throw new UsageError(`unknown command ${positionals[0]}`);
+        }
+    } catch (err) {
+        io.stderr(`hashsigs: ${(err as Error).message}\n`);
+        if (err instanceof UsageError) {
+            io.stderr(`\n${USAGE}`);
+        }
+        return err instanceof HashSigsError ? EXIT_CODES[err.code] : 2;
+    }
+}
+
+function keygen(options: Options, io: CliIO): number {
+    const wotsPlus = loadParameterSet(options.params);
+    // A new state file marks the key unused, so replacing the state file of a
+    // key that has signed would let it sign again.
+    if (options.out !== undefined && !options.force) {
+        for (const filePath of [options.out, `${options.out}.state`]) {
+            if (fs.existsSync(filePath)) {
+                throw new UsageError(`${filePath} already exists, pass --force to replace it`);
+            }
+        }
+    }
+    const privateSeed = options.seed !== undefined
+        ? parseHex(options.seed, '--seed')
+        : randomBytes(wotsPlus.hashLen);
+    const publicSeed = options['public-seed'] !== undefined
+        ? parseHex(options['public-seed'], '--public-seed')
+        : randomBytes(wotsPlus.hashLen);
+
+    const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+    const keyFile: KeyFile = {
+        parameterSet: wotsPlus.parameterId,
+        privateKey: toHex(privateKey),
+        publicSeed: toHex(publicSeed),
+        publicKey: toHex(publicKey),
+    };
+    const json = JSON.stringify(keyFile, null, 2) + '\n';
+    if (options.out !== undefined) {
+        // The key file holds the private key, so only the owner may read it.
+        writeFileAtomic(options.out, json, 0o600);
+        new FileStateStore(`${options.out}.state`).save(0);
+    } else {
+        io.stdout(json);
+    }
+    return 0;
+}
+
+function pubkey(options: Options, io: CliIO): number {
+    const { wotsPlus, privateKey, publicSeed } = loadKeyFile(options);
+    const publicKey = wotsPlus.derivePublicKey(privateKey, publicSeed);
+    writeBytes(options, io, publicKey, () => ({
+        parameterSet: wotsPlus.parameterId,
+        publicKey: toHex(publicKey),
+    }));
+    return 0;
+}
+
+function sign(options: Options, io: CliIO): number {
+    const { wotsPlus, privateKey, publicSeed } = loadKeyFile(options);
+    const message = loadMessage(options, wotsPlus);
+
+    // Mark the key used before signing, so a crash cannot leave a signature
+    // out in the world and the key still marked unused.
+    const state = new FileStateStore(options.state ?? `${options.key}.state`);
+    if (state.load() > 0) {
+        throw new KeyReuseError(`${options.key} has already signed (see ${state.filePath})`);
+    }
+    state.save(1);
+    const signature = wotsPlus.sign(privateKey, publicSeed, message);
+
+    writeBytes(options, io, encodeSignature(wotsPlus, signature), (): SignatureFile => ({
+        parameterSet: wotsPlus.parameterId,
+        publicKey: toHex(wotsPlus.derivePublicKey(privateKey, publicSeed)),
+        message: toHex(message),
+        signature: signature.map(toHex),
+    }));
+    return 0;
+}
+
+function verify(options: Options, io: CliIO): number {
+    if (options.signature === undefined) {
+        throw new UsageError("verify needs --signature");
+    }
+    const signatureData = fs.readFileSync(options.signature);
+    const signatureJson = parseJson(signatureData) as Partial<SignatureFile> | undefined;
+
+    // The signature file may name the parameter set, public key and message.
+    // Explicit options win over it.
+    let wotsPlus: WOTSPlus;
+    let publicKey: Uint8Array;
+    if (options.pubkey !== undefined) {
+        wotsPlus = loadParameterSet(options.params ?? signatureJson?.parameterSet);
+        publicKey = parseHex(options.pubkey, '--pubkey');
+    } else if (options.key !== undefined) {
+        const key = loadKeyFile(options);
+        wotsPlus = key.wotsPlus;
+        publicKey = wotsPlus.derivePublicKey(key.privateKey, key.publicSeed);
+    } else if (typeof signatureJson?.publicKey === 'string') {
+        wotsPlus = loadParameterSet(options.params ?? signatureJson.parameterSet);
+        publicKey = parseHex(signatureJson.publicKey, 'signature file publicKey');
+    } else {
+        throw new UsageError("verify needs --pubkey or --key");
+    }
+
+    let message: Uint8Array;
+    if (options.message === undefined && options['message-file'] === undefined
+        && typeof signatureJson?.message === 'string') {
+        message = parseHex(signatureJson.message, 'signature file message');
+    } else {
+        message = loadMessage(options, wotsPlus);
+    }
+
+    let signature: Uint8Array[];
+    if (options.format !== undefined && options.format !== 'json') {
+        signature = decodeSignature(wotsPlus, readBytes(signatureData,
+            options.format === 'binary' ? 'raw' : options.format, '--format'));
+    } else if (signatureJson !== undefined) {
+        if (!Array.isArray(signatureJson.signature)) {
+            throw new InvalidEncodingError(`${options.signature} has no signature array`);
+        }
+        signature = signatureJson.signature.map((chunk, i) => parseHex(chunk, `signature[${i}]`));
+    } else if (options.format === undefined) {
+        signature = decodeSignature(wotsPlus, new Uint8Array(signatureData));
+    } else {
+        throw new InvalidEncodingError(`${options.signature} is not a JSON signature file`);
+    }
+
+    const result = wotsPlus.verifyDetailed(publicKey, message, signature);
+    if (!result.valid && result.kind === 'malformed') {
+        throw result.error;
+    }
+    io.stdout(result.valid ? 'valid\n' : 'invalid\n');
+    return result.valid ? 0 : 1;
+}
+
+// genVectors: Vectors in the shape of test/test_vectors/wotsplus_keccak256.json.
+// With --seed the vectors are reproducible: keys come from WOTSKeyDerivation
+// at m/0'/i' and messages from the private seed at m/1'/i'.
+function genVectors(options: Options, io: CliIO): number {
+    const wotsPlus = loadParameterSet(options.params);
+    const count = options.count !== undefined ? Number(options.count) : 5;
+    if (!Number.isInteger(count) || count < 1) {
+        throw new UsageError("--count must be a positive integer");
+    }
+    const derivation = options.seed !== undefined
+        ? new WOTSKeyDerivation(wotsPlus, parseHex(options.seed, '--seed'))
+        : undefined;
+
+    const vectors: Record<string, object> = {};
+    for (let i = 0; i < count; i++) {
+        const { privateSeed, publicSeed } = derivation !== undefined
+            ? derivation.deriveSeeds(0, i)
+            : { privateSeed: randomBytes(wotsPlus.hashLen), publicSeed: randomBytes(wotsPlus.hashLen) };
+        const message = derivation !== undefined
+            ? derivation.deriveSeeds(1, i).privateSeed
+            : randomBytes(wotsPlus.messageLen);
+
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        vectors[`vector${i}`] = {
+            privateKey: toHex(privateKey),
+            publicSeed: toHex(publicSeed),
+            publicKeySegments: wotsPlus.derivePublicKeySegments(privateKey, publicSeed).map(toHex),
+            randomizationElements: wotsPlus.generateRandomizationElements(publicSeed).map(toHex),
+            publicKey: toHex(publicKey),
+            message: toHex(message),
+            signature: wotsPlus.sign(privateKey, publicSeed, message).map(toHex),
+        };
+    }
+    output(options, io, JSON.stringify(vectors, null, 2) + '\n');
+    return 0;
+}
+
+function loadParameterSet(nameOrOid: string | undefined): WOTSPlus {
+    const value = nameOrOid ?? DEFAULT_PARAMETER_SET;
+    return WOTSPlus.fromParameterSet(/^(0x[0-9a-f]+|\d+)$/i.test(value) ? Number(value) : value);
+}
+
+function loadKeyFile(options: Options): { wotsPlus: WOTSPlus, privateKey: Uint8Array, publicSeed: Uint8Array } {
+    if (options.key === undefined) {
+        throw new UsageError("--key is required");
+    }
+    const keyFile = parseJson(fs.readFileSync(options.key)) as Partial<KeyFile> | undefined;
+    if (keyFile === undefined || typeof keyFile.privateKey !== 'string' || typeof keyFile.publicSeed !== 'string') {
+        throw new InvalidEncodingError(`${options.key} is not a key file`);
+    }
+
+    const wotsPlus = loadParameterSet(options.params ?? keyFile.parameterSet);
+    const privateKey = parseHex(keyFile.privateKey, 'privateKey');
+    const publicSeed = parseHex(keyFile.publicSeed, 'publicSeed');
+    if (privateKey.length !== wotsPlus.hashLen || publicSeed.length !== wotsPlus.hashLen) {
+        throw new InvalidParameterError(`${options.key} does not match parameter set ${wotsPlus.parameterId}`);
+    }
+    return { wotsPlus, privateKey, publicSeed };
+}
+
+function loadMessage(options: Options, wotsPlus: WOTSPlus): Uint8Array {
+    let message: Uint8Array;
+    if (options.message !== undefined && options['message-file'] !== undefined) {
+        throw new UsageError("use either --message or --message-file");
+    } else if (options.message !== undefined) {
+        message = parseHex(options.message, '--message');
+    } else if (options['message-file'] !== undefined) {
+        message = readBytes(fs.readFileSync(options['message-file']), options.encoding ?? 'raw', '--encoding');
+    } else {
+        throw new UsageError("--message or --message-file is required");
+    }
+    if (message.length !== wotsPlus.messageLen) {
+        throw new InvalidLengthError(`message must be ${wotsPlus.messageLen} bytes, got ${message.length}`,
+            'message', wotsPlus.messageLen, message.length);
+    }
+    return message;
+}
+
+function output(options: Options, io: CliIO, data: string | Uint8Array): void {
+    if (options.out !== undefined) {
+        fs.writeFileSync(options.out, data);
+    } else {
+        io.stdout(data);
+    }
+}
+
+// writeBytes: Write `bytes` in the --format the user asked for. JSON output
+// is built lazily by `json`.
+function writeBytes(options: Options, io: CliIO, bytes: Uint8Array, json: () => object): void {
+    const format = (options.format ?? 'json') as Format;
+    switch (format) {
+        case 'json':
+            output(options, io, JSON.stringify(json(), null, 2) + '\n');
+            break;
+        case 'hex':
+            output(options, io, toHex(bytes) + '\n');
+            break;
+        case 'binary':
+            output(options, io, bytes);
+            break;
+        default:
+            throw new UsageError(`unknown format ${options.format}`);
+    }
+}
+
+function toHex(bytes: Uint8Array): string {
+    return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+function parseHex(value: string, name: string): Uint8Array {
+    const hex = value.trim().replace(/^0x/i, '');
+    if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+        throw new InvalidEncodingError(`${name} is not valid hex`);
+    }
+    return new Uint8Array(Buffer.from(hex, 'hex'));
+}
+
+// readBytes: File contents in the given encoding, raw bytes or hex text.
+function readBytes(data: Uint8Array, encoding: string, option: string): Uint8Array {
+    switch (encoding) {
+        case 'raw':
+            return new Uint8Array(data);
+        case 'hex':
+            return parseHex(Buffer.from(data).toString('latin1'), 'file');
+        default:
+            throw new UsageError(`unknown ${option.slice(2)} ${encoding}`);
+    }
+}
+
+// parseJson: The JSON object in a file, or undefined for hex or binary files.
+function parseJson(data: Uint8Array): unknown {
+    const text = Buffer.from(data).toString('utf8').trim();
+    if (!text.startsWith('{')) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        // a binary file that happens to start with '{'
+        return undefined;
+    }
+}
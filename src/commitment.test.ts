@@ -0,0 +1,112 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { WOTSPlus } from './wotsplus';
+import {
+    PublicKeyCommitment,
+    hashPublicKeyLeaf,
+    verifyMembership,
+    verifyMultiProof,
+    verifyCommittedSignature
+} from './commitment';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('PublicKeyCommitment', () => {
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const seedFor = (label: string, i: number): Uint8Array =>
+        keccak_256(new TextEncoder().encode(`${label} ${i}`));
+    const keys = Array.from({ length: 5 }, (_, i) =>
+        wotsPlus.generateKeyPair(seedFor('private', i), seedFor('public', i)));
+    const publicKeys = keys.map(key => key.publicKey);
+    const commitment = new PublicKeyCommitment(wotsPlus, publicKeys);
+    const root = commitment.root;
+
+    it('should commit to the public keys with keccak256', () => {
+        expect(commitment.size).toBe(5);
+        expect(commitment.depth).toBe(3);
+        expect(root.length).toBe(32);
+
+        // leaves 5 to 7 are zero padding
+        const empty = new Uint8Array(32);
+        const node = (left: Uint8Array, right: Uint8Array) =>
+            keccak_256(new Uint8Array([0x01, ...left, ...right]));
+        const leaves = [...publicKeys.map(hashPublicKeyLeaf), empty, empty, empty];
+        const expected = node(
+            node(node(leaves[0], leaves[1]), node(leaves[2], leaves[3])),
+            node(node(leaves[4], leaves[5]), node(leaves[6], leaves[7]))
+        );
+        expect(root).toEqual(expected);
+        expect(hashPublicKeyLeaf(publicKeys[0])).toEqual(keccak_256(new Uint8Array([0x00, ...publicKeys[0]])));
+    });
+
+    it('should prove and verify membership of every key', () => {
+        for (let i = 0; i < publicKeys.length; i++) {
+            const proof = commitment.prove(i);
+            expect(proof.siblings.length).toBe(commitment.depth);
+            expect(verifyMembership(root, publicKeys[i], proof)).toBe(true);
+            expect(verifyMembership(root, publicKeys[(i + 1) % 5], proof)).toBe(false);
+            expect(verifyMembership(root, publicKeys[i], { ...proof, index: i ^ 1 })).toBe(false);
+        }
+        expect(verifyMembership(root, publicKeys[0], { ...commitment.prove(0), index: 8 })).toBe(false);
+        expect(() => commitment.prove(5)).toThrow(InvalidParameterError);
+    });
+
+    it('should prove several keys with one multiproof', () => {
+        const proof = commitment.proveMany([4, 0, 1]);
+        expect(proof.indexes).toEqual([0, 1, 4]);
+        // 0 and 1 are siblings; level 1 needs node 1 and node 3; level 2 nothing
+        expect(proof.nodes.length).toBe(3);
+        expect(verifyMultiProof(root, [publicKeys[0], publicKeys[1], publicKeys[4]], proof)).toBe(true);
+        expect(verifyMultiProof(root, [publicKeys[0], publicKeys[1], publicKeys[3]], proof)).toBe(false);
+        expect(verifyMultiProof(root, [publicKeys[0], publicKeys[1], publicKeys[4]], { ...proof, nodes: proof.nodes.slice(1) }))
+            .toBe(false);
+        expect(verifyMultiProof(root, [publicKeys[0], publicKeys[1], publicKeys[4]], { ...proof, indexes: [1, 0, 4] }))
+            .toBe(false);
+
+        const all = commitment.proveMany([0, 1, 2, 3, 4]);
+        // only the padding: leaf 5 and the node above leaves 6 and 7
+        expect(all.nodes.length).toBe(2);
+        expect(verifyMultiProof(root, publicKeys, all)).toBe(true);
+
+        expect(() => commitment.proveMany([])).toThrow(InvalidParameterError);
+        expect(() => commitment.proveMany([1, 1])).toThrow(/unique/);
+        expect(() => verifyMultiProof(root, publicKeys.slice(1), all)).toThrow(InvalidLengthError);
+    });
+
+    it('should verify a signature and proof against the root alone', () => {
+        const message = keccak_256(new TextEncoder().encode('epoch message'));
+        const signature = wotsPlus.sign(keys[3].privateKey, seedFor('public', 3), message);
+        const proof = commitment.prove(3);
+
+        expect(verifyCommittedSignature(wotsPlus, root, seedFor('public', 3), message, signature, proof)).toBe(true);
+        expect(verifyCommittedSignature(wotsPlus, root, seedFor('public', 3), seedFor('other', 0), signature, proof))
+            .toBe(false);
+        expect(verifyCommittedSignature(wotsPlus, root, seedFor('public', 3), message, signature, commitment.prove(2)))
+            .toBe(false);
+    });
+
+    it('should handle a single key and reject malformed input', () => {
+        const single = new PublicKeyCommitment(wotsPlus, [publicKeys[0]]);
+        expect(single.depth).toBe(0);
+        expect(single.root).toEqual(hashPublicKeyLeaf(publicKeys[0]));
+        expect(verifyMembership(single.root, publicKeys[0], single.prove(0))).toBe(true);
+
+        expect(() => new PublicKeyCommitment(wotsPlus, [])).toThrow(InvalidParameterError);
+        expect(() => new PublicKeyCommitment(wotsPlus, [publicKeys[0].slice(1)])).toThrow(InvalidLengthError);
+        const proof = commitment.prove(0);
+        expect(() => verifyMembership(root, publicKeys[0], { ...proof, siblings: [new Uint8Array(31)] }))
+            .toThrow(InvalidLengthError);
+    });
+});
@@ -0,0 +1,250 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { WOTSPlus } from './wotsplus';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// Merkle commitments to lists of WOTS+ public keys.
+//
+// Publishing one 32 byte root instead of every 64 byte public key lets a
+// contract check any signature from the list with a proof of log2(n) nodes:
+// the public key is recovered from the signature, hashed into a leaf and
+// hashed up to the root.
+//
+//   leaf = keccak256(0x00 || publicKey)
+//   node = keccak256(0x01 || left || right)
+//
+// A public key and a pair of nodes are both 64 bytes, the prefixes keep a
+// node from being passed off as a leaf. The tree is padded to a power of two
+// with zero leaves, which are not the hash of any public key.
+
+// MembershipProof: The siblings on the path from leaf `index` to the root, bottom first.
+export interface MembershipProof {
+    index: number;
+    siblings: Uint8Array[];
+}
+
+// MultiProof: A proof for several leaves at once. `nodes` holds the siblings
+// that cannot be computed from the proven leaves, level by level from the
+// bottom and left to right within a level.
+export interface MultiProof {
+    depth: number;
+    indexes: number[];
+    nodes: Uint8Array[];
+}
+
+const HASH_SIZE = 32;
+const EMPTY_LEAF = new Uint8Array(HASH_SIZE);
+
+// Depths are limited so leaf indexes stay in 32 bit integer range.
+const MAX_DEPTH = 32;
+
+// hashPublicKeyLeaf: The leaf of a public key.
+export function hashPublicKeyLeaf(publicKey: Uint8Array): Uint8Array {
+    return keccak_256(BufferUtil.concat(new Uint8Array([0x00]), publicKey));
+}
+
+function hashNodes(left: Uint8Array, right: Uint8Array): Uint8Array {
+    return keccak_256(BufferUtil.concat(new Uint8Array([0x01]), left, right));
+}
+
+function checkNodes(nodes: Uint8Array[], field: string): void {
+    for (const node of nodes) {
+        if (node.length !== HASH_SIZE) {
+            throw new InvalidLengthError(`proof nodes must be ${HASH_SIZE} bytes`, field, HASH_SIZE, node.length);
+        }
+    }
+}
+
+// PublicKeyCommitment: The Merkle tree of a list of public keys.
+// Every level is kept in memory, so proofs need no hashing.
+export class PublicKeyCommitment {
+    private readonly levels: Uint8Array[][];
+
+    // Size: The number of committed public keys.
+    public readonly size: number;
+
+    // Depth: The tree height, ceil(log2(size)).
+    public readonly depth: number;
+
+    constructor(wotsPlus: WOTSPlus, publicKeys: Uint8Array[]) {
+        if (publicKeys.length === 0) {
+            throw new InvalidParameterError("commitment needs at least one public key");
+        }
+        for (const publicKey of publicKeys) {
+            if (publicKey.length !== wotsPlus.publicKeySize) {
+                throw new InvalidLengthError(
+                    `public key length must be ${wotsPlus.publicKeySize} bytes`,
+                    'publicKey', wotsPlus.publicKeySize, publicKey.length
+                );
+            }
+        }
+
+        this.size = publicKeys.length;
+        this.depth = Math.ceil(Math.log2(publicKeys.length));
+        if (this.depth > MAX_DEPTH) {
+            throw new InvalidParameterError(`commitment can hold at most 2^${MAX_DEPTH} public keys`);
+        }
+
+        let level = publicKeys.map(hashPublicKeyLeaf);
+        while (level.length < 2 ** this.depth) {
+            level.push(EMPTY_LEAF);
+        }
+        this.levels = [level];
+        for (let height = 0; height < this.depth; height++) {
+            const parents: Uint8Array[] = new Array(level.length / 2);
+            for (let i = 0; i < parents.length; i++) {
+                parents[i] = hashNodes(level[2 * i], level[2 * i + 1]);
+            }
+            this.levels.push(parents);
+            level = parents;
+        }
+    }
+
+    // root: The 32 byte commitment to publish.
+    public get root(): Uint8Array {
+        return this.levels[this.depth][0].slice();
+    }
+
+    private checkIndex(index: number): void {
+        if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+            throw new InvalidParameterError(`index must be an integer between 0 and ${this.size - 1}`);
+        }
+    }
+
+    // prove: The membership proof of the public key at `index`.
+    public prove(index: number): MembershipProof {
+        this.checkIndex(index);
+        const siblings: Uint8Array[] = new Array(this.depth);
+        for (let height = 0; height < this.depth; height++) {
+            siblings[height] = this.levels[height][(index >>> height) ^ 1].slice();
+        }
+        return { index, siblings };
+    }
+
+    // proveMany: One proof for the public keys at `indexes`. Siblings shared
+    // between the paths, or computable from other proven leaves, are left out.
+    public proveMany(indexes: number[]): MultiProof {
+        if (indexes.length === 0) {
+            throw new InvalidParameterError("multiproof needs at least one index");
+        }
+        indexes.forEach(index => this.checkIndex(index));
+        const sorted = Array.from(new Set(indexes)).sort((a, b) => a - b);
+        if (sorted.length !== indexes.length) {
+            throw new InvalidParameterError("multiproof indexes must be unique");
+        }
+
+        const nodes: Uint8Array[] = [];
+        let known = sorted;
+        for (let height = 0; height < this.depth; height++) {
+            const knownSet = new Set(known);
+            for (const index of known) {
+                if (!knownSet.has(index ^ 1)) {
+                    nodes.push(this.levels[height][index ^ 1].slice());
+                }
+            }
+            known = Array.from(new Set(known.map(index => index >>> 1)));
+        }
+        return { depth: this.depth, indexes: sorted, nodes };
+    }
+}
+
+// verifyMembership: Whether `publicKey` is committed to by `root` at `proof.index`.
+export function verifyMembership(root: Uint8Array, publicKey: Uint8Array, proof: MembershipProof): boolean {
+    const { index, siblings } = proof;
+    checkNodes(siblings, 'proofNode');
+    if (siblings.length > MAX_DEPTH) {
+        throw new InvalidLengthError(
+            `proof can have at most ${MAX_DEPTH} siblings`,
+            'siblings', MAX_DEPTH, siblings.length
+        );
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= 2 ** siblings.length) {
+        return false;
+    }
+
+    let node = hashPublicKeyLeaf(publicKey);
+    for (let height = 0; height < siblings.length; height++) {
+        node = ((index >>> height) & 1) === 0
+            ? hashNodes(node, siblings[height])
+            : hashNodes(siblings[height], node);
+    }
+    return BufferUtil.equals(node, root);
+}
+
+// verifyMultiProof: Whether every public key is committed to by `root` at the
+// matching index of `proof.indexes`. `publicKeys` are in the order of
+// `proof.indexes`, which `proveMany` sorts.
+export function verifyMultiProof(root: Uint8Array, publicKeys: Uint8Array[], proof: MultiProof): boolean {
+    const { depth, indexes, nodes } = proof;
+    checkNodes(nodes, 'proofNode');
+    if (publicKeys.length !== indexes.length) {
+        throw new InvalidLengthError(
+            `expected ${indexes.length} public keys`,
+            'publicKeys', indexes.length, publicKeys.length
+        );
+    }
+    if (!Number.isInteger(depth) || depth < 0 || depth > MAX_DEPTH || indexes.length === 0) {
+        return false;
+    }
+    for (let i = 0; i < indexes.length; i++) {
+        const index = indexes[i];
+        if (!Number.isInteger(index) || index < 0 || index >= 2 ** depth || (i > 0 && index <= indexes[i - 1])) {
+            return false;
+        }
+    }
+
+    let level = new Map<number, Uint8Array>();
+    indexes.forEach((index, i) => level.set(index, hashPublicKeyLeaf(publicKeys[i])));
+    let next = 0;
+    for (let height = 0; height < depth; height++) {
+        const parents = new Map<number, Uint8Array>();
+        for (const [index, node] of level) {
+            if (parents.has(index >>> 1)) {
+                continue;
+            }
+            let sibling = level.get(index ^ 1);
+            if (sibling === undefined) {
+                if (next >= nodes.length) {
+                    return false;
+                }
+                sibling = nodes[next++];
+            }
+            parents.set(index >>> 1, (index & 1) === 0 ? hashNodes(node, sibling) : hashNodes(sibling, node));
+        }
+        level = parents;
+    }
+    const computedRoot = level.get(0);
+    if (computedRoot === undefined) {
+        throw new InvalidParameterError("multiproof did not reduce to a single root");
+    }
+    return next === nodes.length && BufferUtil.equals(computedRoot, root);
+}
+
+// verifyCommittedSignature: Verify a WOTS+ signature against a commitment
+// alone. The signer's public key is recovered from the signature and its
+// public seed, then checked against `root` with the membership proof.
+export function verifyCommittedSignature(
+    wotsPlus: WOTSPlus,
+    root: Uint8Array,
+    publicSeed: Uint8Array,
+    message: Uint8Array,
+    signature: Uint8Array[],
+    proof: MembershipProof
+): boolean {
+    const publicKey = wotsPlus.recoverPublicKey(publicSeed, message, signature);
+    return verifyMembership(root, publicKey, proof);
+}
@@ -0,0 +1,114 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { HDNode, WOTSKeyDerivation, mnemonicToSeed, parsePath, formatPath } from './derivation';
+import { WOTSPlus } from './wotsplus';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+
+describe('WOTSKeyDerivation', () => {
+    const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+    const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+    const wotsPlus = new WOTSPlus(keccak_256);
+
+    it('should compute BIP-39 seeds', () => {
+        // BIP-39 reference vector (Trezor python-mnemonic, passphrase "TREZOR")
+        expect(toHex(mnemonicToSeed(mnemonic, 'TREZOR'))).toBe(
+            'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+        );
+        // whitespace is normalized
+        expect(mnemonicToSeed(`  ${mnemonic.replace(/ /g, '\t ')}\n`, 'TREZOR'))
+            .toEqual(mnemonicToSeed(mnemonic, 'TREZOR'));
+        expect(() => mnemonicToSeed('abandon about')).toThrow(/words/);
+    });
+
+    it('should derive known seeds and public keys', () => {
+        // regression values pinning the derivation scheme
+        const derivation = WOTSKeyDerivation.fromMnemonic(wotsPlus, mnemonic);
+        const { privateSeed, publicSeed } = derivation.deriveSeeds(0, 0);
+        expect(toHex(privateSeed)).toBe('fc240b0b53f23dbc8790a2a69bb2b9cf5f158fc3f7268ef384a50e2a32af6685');
+        expect(toHex(publicSeed)).toBe('18e4a6e6497fc45c7816d97666930d4a2da0ab83c5c6a61d025072037fdff8f5');
+        expect(toHex(derivation.getPublicKey(1, 7))).toBe(
+            '9c6e96f052f614a4ea8ee18a2f739591c9280a1b252dd1f5d8741e455e7bcd6a' +
+            'fd06baa15756f04f48565f0fc599a940e4e504d4cd1d867bd2b3153309538ce3'
+        );
+    });
+
+    it('should restore every key from the mnemonic', () => {
+        const device = WOTSKeyDerivation.fromMnemonic(wotsPlus, mnemonic, 'pass');
+        const restored = new WOTSKeyDerivation(wotsPlus, mnemonicToSeed(mnemonic, 'pass'));
+        expect(restored.getPublicKeys(3, 10, 4)).toEqual(device.getPublicKeys(3, 10, 4));
+
+        const other = WOTSKeyDerivation.fromMnemonic(wotsPlus, mnemonic, 'other');
+        expect(other.getPublicKey(3, 10)).not.toEqual(device.getPublicKey(3, 10));
+
+        const message = keccak_256(new TextEncoder().encode('Hello World'));
+        const { publicKey, privateKey, publicSeed } = device.deriveKeyPair(3, 11);
+        const signature = wotsPlus.sign(privateKey, publicSeed, message);
+        expect(wotsPlus.verify(restored.getPublicKey(3, 11), message, signature)).toBe(true);
+        expect(wotsPlus.verify(publicKey, message, signature)).toBe(true);
+    });
+
+    it('should give every account and index its own key', () => {
+        const derivation = new WOTSKeyDerivation(wotsPlus, new Uint8Array(32).fill(1));
+        const keys = new Set<string>();
+        for (const account of [0, 1, 2]) {
+            for (const index of [0, 1, 2]) {
+                keys.add(toHex(derivation.getPublicKey(account, index)));
+            }
+        }
+        expect(keys.size).toBe(9);
+    });
+
+    it('should follow paths', () => {
+        const master = HDNode.fromMasterSeed(new Uint8Array(16).fill(2));
+        const node = master.derive("m/1'/2h/3'");
+        expect(node.depth).toBe(3);
+        expect(node.pathString).toBe("m/1'/2'/3'");
+        expect(node.key).toEqual(master.deriveChild(1).derive([2, 3]).key);
+        expect(node.chainCode).toEqual(master.derive([1, 2, 3]).chainCode);
+
+        const derivation = new WOTSKeyDerivation(wotsPlus, master);
+        expect(derivation.deriveSeeds(4, 5)).toEqual(master.derive("m/4'/5'").deriveSeeds(32));
+
+        expect(parsePath('m')).toEqual([]);
+        expect(parsePath("m/0'/2147483647'")).toEqual([0, 2147483647]);
+        expect(formatPath([0, 5])).toBe("m/0'/5'");
+        expect(() => parsePath('m/0')).toThrow(/hardened/);
+        expect(() => parsePath("0'/1'")).toThrow(/start with m/);
+        expect(() => parsePath("m/2147483648'")).toThrow(/index/);
+        expect(() => node.derive("m/0'")).toThrow(/master/);
+    });
+
+    it('should size seeds to the parameter set', () => {
+        const wots24 = new WOTSPlus(sha256, 24, 16);
+        const derivation = new WOTSKeyDerivation(wots24, new Uint8Array(64).fill(3));
+        const { privateSeed, publicSeed } = derivation.deriveSeeds(0, 0);
+        expect(privateSeed.length).toBe(24);
+        expect(publicSeed.length).toBe(24);
+
+        const rfc = new WOTSPlus(sha256, 32, 16, 'rfc8391');
+        const { publicKey, privateKey, publicSeed: seed } = new WOTSKeyDerivation(rfc, new Uint8Array(32)).deriveKeyPair(0, 0);
+        const message = sha256(new Uint8Array([1]));
+        expect(rfc.verify(publicKey, message, rfc.sign(privateKey, seed, message))).toBe(true);
+    });
+
+    it('should reject invalid seeds', () => {
+        expect(() => HDNode.fromMasterSeed(new Uint8Array(15))).toThrow(/master seed/);
+        expect(() => HDNode.fromMasterSeed(new Uint8Array(65))).toThrow(/master seed/);
+        expect(() => new WOTSKeyDerivation(wotsPlus, HDNode.fromMasterSeed(new Uint8Array(16)).deriveChild(0)))
+            .toThrow(/master node/);
+        expect(() => new HDNode(new Uint8Array(31), new Uint8Array(32))).toThrow();
+    });
+});
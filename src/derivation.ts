@@ -0,0 +1,237 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha512 } from '@noble/hashes/sha512';
+import { WOTSPlus } from './wotsplus';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// Hierarchical deterministic derivation of WOTS+ seeds, so every one-time key
+// of a wallet can be restored from a single mnemonic or master seed.
+//
+// The tree follows BIP-32 / SLIP-0010 with HMAC-SHA512 as the only primitive.
+// There is no elliptic curve to derive public children with, so every level is
+// hardened: a child can only be derived from its parent's secret key.
+//
+//   master        = HMAC-SHA512("hashsigs seed", seed)
+//   child(i)      = HMAC-SHA512(chainCode, 0x00 || key || ser32(i + 2^31))
+//   privateSeed   = HMAC-SHA512(key, "hashsigs private seed")[0:n]
+//   publicSeed    = HMAC-SHA512(key, "hashsigs public seed")[0:n]
+//
+// where key and chainCode are the left and right halves of each HMAC output.
+
+const encoder = new TextEncoder();
+const MASTER_KEY = encoder.encode('hashsigs seed');
+const PRIVATE_SEED_LABEL = encoder.encode('hashsigs private seed');
+const PUBLIC_SEED_LABEL = encoder.encode('hashsigs public seed');
+
+// HARDENED_OFFSET: Added to every index before it is hashed, as in BIP-32.
+export const HARDENED_OFFSET = 0x80000000;
+
+// MIN_SEED_SIZE, MAX_SEED_SIZE: The master seed sizes BIP-32 allows.
+export const MIN_SEED_SIZE = 16;
+export const MAX_SEED_SIZE = 64;
+
+// mnemonicToSeed: The 64 byte BIP-39 seed of a mnemonic sentence,
+// PBKDF2-HMAC-SHA512(NFKD(mnemonic), "mnemonic" || NFKD(passphrase), 2048).
+// The words are not checked against a wordlist, so any normalized sentence
+// gives a seed; wallets should validate the mnemonic when it is entered.
+export function mnemonicToSeed(mnemonic: string, passphrase: string = ''): Uint8Array {
+    const words = mnemonic.normalize('NFKD').trim().split(/\s+/);
+    if (words.length < 12 || words.length > 24 || words.length % 3 !== 0) {
+        throw new InvalidParameterError("mnemonic must have 12, 15, 18, 21 or 24 words");
+    }
+    const password = encoder.encode(words.join(' '));
+    const salt = encoder.encode('mnemonic' + passphrase.normalize('NFKD'));
+    return pbkdf2(sha512, password, salt, { c: 2048, dkLen: 64 });
+}
+
+// parsePath: Parse a path like "m/0'/5'" into its indices, [0, 5].
+// Both ' and h mark a hardened level. Every level must be hardened.
+export function parsePath(path: string): number[] {
+    const parts = path.trim().split('/');
+    if (parts[0] !== 'm') {
+        throw new InvalidParameterError(`invalid derivation path ${path}: must start with m`);
+    }
+    return parts.slice(1).map(part => {
+        const match = /^(\d+)['h]$/.exec(part);
+        if (match === null) {
+            throw new InvalidParameterError(`invalid derivation path ${path}: every level must be hardened, like 0'`);
+        }
+        const index = Number(match[1]);
+        checkIndex(index);
+        return index;
+    });
+}
+
+// formatPath: The inverse of parsePath.
+export function formatPath(indices: number[]): string {
+    return ['m', ...indices.map(index => `${index}'`)].join('/');
+}
+
+function checkIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+        throw new InvalidParameterError(`derivation index must be an integer between 0 and ${HARDENED_OFFSET - 1}`);
+    }
+}
+
+// HDNode is one node of the derivation tree: a 32 byte secret key and the
+// 32 byte chain code its children are derived with.
+export class HDNode {
+    public readonly key: Uint8Array;
+    public readonly chainCode: Uint8Array;
+    // Path: The indices from the master node to this one.
+    public readonly path: readonly number[];
+
+    constructor(key: Uint8Array, chainCode: Uint8Array, path: readonly number[] = []) {
+        if (key.length !== 32) {
+            throw new InvalidLengthError("key must be 32 bytes", 'key', 32, key.length);
+        }
+        if (chainCode.length !== 32) {
+            throw new InvalidLengthError("chain code must be 32 bytes", 'chainCode', 32, chainCode.length);
+        }
+        this.key = key.slice();
+        this.chainCode = chainCode.slice();
+        this.path = Object.freeze(path.slice());
+    }
+
+    // fromMasterSeed: The master node of a 16 to 64 byte seed.
+    public static fromMasterSeed(seed: Uint8Array): HDNode {
+        if (seed.length < MIN_SEED_SIZE || seed.length > MAX_SEED_SIZE) {
+            throw new InvalidLengthError(
+                `master seed must be between ${MIN_SEED_SIZE} and ${MAX_SEED_SIZE} bytes`,
+                'masterSeed', seed.length < MIN_SEED_SIZE ? MIN_SEED_SIZE : MAX_SEED_SIZE, seed.length
+            );
+        }
+        const I = hmac(sha512, MASTER_KEY, seed);
+        return new HDNode(I.subarray(0, 32), I.subarray(32));
+    }
+
+    // fromMnemonic: The master node of a BIP-39 mnemonic, see mnemonicToSeed.
+    public static fromMnemonic(mnemonic: string, passphrase: string = ''): HDNode {
+        return HDNode.fromMasterSeed(mnemonicToSeed(mnemonic, passphrase));
+    }
+
+    public get depth(): number {
+        return this.path.length;
+    }
+
+    public get pathString(): string {
+        return formatPath(this.path.slice());
+    }
+
+    // deriveChild: The hardened child at `index`.
+    public deriveChild(index: number): HDNode {
+        checkIndex(index);
+        const data = new Uint8Array(1 + 32 + 4);
+        data.set(this.key, 1);
+        new DataView(data.buffer).setUint32(33, index + HARDENED_OFFSET);
+        const I = hmac(sha512, this.chainCode, data);
+        return new HDNode(I.subarray(0, 32), I.subarray(32), [...this.path, index]);
+    }
+
+    // derive: Follow a path of indices relative to this node, or an absolute
+    // "m/..." path from the master node.
+    public derive(path: string | number[]): HDNode {
+        let indices: number[];
+        if (typeof path === 'string') {
+            if (this.depth !== 0) {
+                throw new InvalidParameterError("absolute paths can only be derived from the master node");
+            }
+            indices = parsePath(path);
+        } else {
+            indices = path;
+        }
+        return indices.reduce<HDNode>((node, index) => node.deriveChild(index), this);
+    }
+
+    // deriveSeeds: The WOTS+ private and public seed of this node, `hashLen`
+    // bytes each.
+    public deriveSeeds(hashLen: number): { privateSeed: Uint8Array, publicSeed: Uint8Array } {
+        if (!Number.isInteger(hashLen) || hashLen < 1 || hashLen > 64) {
+            throw new InvalidParameterError("seed length must be between 1 and 64 bytes");
+        }
+        return {
+            privateSeed: hmac(sha512, this.key, PRIVATE_SEED_LABEL).slice(0, hashLen),
+            publicSeed: hmac(sha512, this.key, PUBLIC_SEED_LABEL).slice(0, hashLen),
+        };
+    }
+}
+
+// WOTSKeyDerivation derives the one-time keys of a wallet along the path
+// m/account'/index'. The same mnemonic or seed always gives the same keys, so
+// a lost device can regenerate every past and future public key.
+//
+// Derivation does not track which keys have signed. Pair it with a
+// WOTSKeyManager or another KeyStateStore so no index is used twice.
+export class WOTSKeyDerivation {
+    public readonly wotsPlus: WOTSPlus;
+    private readonly master: HDNode;
+    private readonly accounts = new Map<number, HDNode>();
+
+    constructor(wotsPlus: WOTSPlus, masterSeed: Uint8Array | HDNode) {
+        this.wotsPlus = wotsPlus;
+        this.master = masterSeed instanceof HDNode ? masterSeed : HDNode.fromMasterSeed(masterSeed);
+        if (this.master.depth !== 0) {
+            throw new InvalidParameterError("derivation must start from a master node");
+        }
+    }
+
+    // fromMnemonic: Key derivation from a BIP-39 mnemonic and optional passphrase.
+    public static fromMnemonic(wotsPlus: WOTSPlus, mnemonic: string, passphrase: string = ''): WOTSKeyDerivation {
+        return new WOTSKeyDerivation(wotsPlus, HDNode.fromMnemonic(mnemonic, passphrase));
+    }
+
+    // accountNode: The node at m/account'. Account nodes are cached.
+    public accountNode(account: number): HDNode {
+        let node = this.accounts.get(account);
+        if (node === undefined) {
+            node = this.master.deriveChild(account);
+            this.accounts.set(account, node);
+        }
+        return node;
+    }
+
+    // deriveSeeds: The seeds of the key at m/account'/index'.
+    public deriveSeeds(account: number, index: number): { privateSeed: Uint8Array, publicSeed: Uint8Array } {
+        return this.accountNode(account).deriveChild(index).deriveSeeds(this.wotsPlus.hashLen);
+    }
+
+    // deriveKeyPair: The key pair at m/account'/index'.
+    public deriveKeyPair(account: number, index: number): {
+        publicKey: Uint8Array,
+        privateKey: Uint8Array,
+        publicSeed: Uint8Array
+    } {
+        const { privateSeed, publicSeed } = this.deriveSeeds(account, index);
+        const { publicKey, privateKey } = this.wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        return { publicKey, privateKey, publicSeed };
+    }
+
+    // getPublicKey: The public key at m/account'/index'.
+    public getPublicKey(account: number, index: number): Uint8Array {
+        return this.deriveKeyPair(account, index).publicKey;
+    }
+
+    // getPublicKeys: `count` consecutive public keys of an account starting at
+    // `start`, for restoring a wallet or pre-publishing keys.
+    public getPublicKeys(account: number, start: number, count: number): Uint8Array[] {
+        const keys: Uint8Array[] = [];
+        for (let i = 0; i < count; i++) {
+            keys.push(this.getPublicKey(account, start + i));
+        }
+        return keys;
+    }
+}
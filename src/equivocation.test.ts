@@ -0,0 +1,118 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { WOTSPlus } from './wotsplus';
+import { Address, ADRS_SIZE } from './address';
+import {
+    analyzeChainExposure,
+    createEquivocationProof,
+    decodeEquivocationProof,
+    encodeEquivocationProof,
+    equivocationProofSize,
+    isForgeable,
+    verifyEquivocationProof
+} from './equivocation';
+import { InvalidEncodingError, InvalidParameterError } from './errors';
+
+describe('equivocation', () => {
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const privateSeed = keccak_256(new TextEncoder().encode('equivocation private seed'));
+    const publicSeed = keccak_256(new TextEncoder().encode('equivocation public seed'));
+    const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+    const messageA = keccak_256(new TextEncoder().encode('pay alice'));
+    const messageB = keccak_256(new TextEncoder().encode('pay bob'));
+    const a = { message: messageA, signature: wotsPlus.sign(privateKey, publicSeed, messageA) };
+    const b = { message: messageB, signature: wotsPlus.sign(privateKey, publicSeed, messageB) };
+
+    it('should prove two signatures on different messages', () => {
+        const proof = createEquivocationProof(wotsPlus, publicKey, a, b);
+        expect(verifyEquivocationProof(wotsPlus, proof)).toBe(true);
+
+        // The same pair in either order gives the same proof
+        const encoded = encodeEquivocationProof(wotsPlus, proof);
+        expect(encoded.length).toBe(equivocationProofSize(wotsPlus));
+        expect(encodeEquivocationProof(wotsPlus, createEquivocationProof(wotsPlus, publicKey, b, a))).toEqual(encoded);
+
+        const decoded = decodeEquivocationProof(wotsPlus, encoded);
+        expect(decoded).toEqual(proof);
+        expect(verifyEquivocationProof(wotsPlus, decoded)).toBe(true);
+        expect(() => decodeEquivocationProof(wotsPlus, encoded.subarray(1))).toThrow(InvalidEncodingError);
+    });
+
+    it('should refuse to build proofs that prove nothing', () => {
+        expect(() => createEquivocationProof(wotsPlus, publicKey, a, a)).toThrow(InvalidParameterError);
+        const forged = { message: messageB, signature: a.signature };
+        expect(() => createEquivocationProof(wotsPlus, publicKey, a, forged)).toThrow(InvalidParameterError);
+    });
+
+    it('should reject tampered and malformed proofs', () => {
+        const proof = createEquivocationProof(wotsPlus, publicKey, a, b);
+        expect(verifyEquivocationProof(wotsPlus, { ...proof, first: proof.second, second: proof.first })).toBe(false);
+        expect(verifyEquivocationProof(wotsPlus, { ...proof, second: proof.first })).toBe(false);
+
+        const otherKey = wotsPlus.generateKeyPair(publicSeed, publicSeed).publicKey;
+        expect(verifyEquivocationProof(wotsPlus, { ...proof, publicKey: otherKey })).toBe(false);
+        expect(verifyEquivocationProof(wotsPlus, { ...proof, publicKey: publicKey.subarray(1) })).toBe(false);
+        const truncated = { ...proof.first, signature: proof.first.signature.slice(1) };
+        expect(verifyEquivocationProof(wotsPlus, { ...proof, first: truncated })).toBe(false);
+    });
+
+    it('should pass the address through in RFC 8391 mode', () => {
+        const rfc = new WOTSPlus(sha256, 32, 16, 'rfc8391');
+        const address = new Address().setOTSAddress(7);
+        const key = rfc.generateKeyPair(privateSeed, publicSeed, address);
+        const sign = (message: Uint8Array) => ({ message, signature: rfc.sign(key.privateKey, publicSeed, message, address) });
+        const proof = createEquivocationProof(rfc, key.publicKey, sign(messageA), sign(messageB), address);
+        expect(verifyEquivocationProof(rfc, proof, address)).toBe(true);
+        expect(verifyEquivocationProof(rfc, proof, new Address().setOTSAddress(8))).toBe(false);
+
+        // the encoding carries the address, so a decoded proof verifies on its own
+        const encoded = encodeEquivocationProof(rfc, proof);
+        expect(encoded.length).toBe(equivocationProofSize(wotsPlus) + ADRS_SIZE);
+        expect(encoded.subarray(rfc.publicKeySize, rfc.publicKeySize + ADRS_SIZE)).toEqual(address.toBytes());
+        const decoded = decodeEquivocationProof(rfc, encoded);
+        expect(decoded.address!.toBytes()).toEqual(address.toBytes());
+        expect(verifyEquivocationProof(rfc, decoded)).toBe(true);
+
+        const otherAddress = encoded.slice();
+        otherAddress[rfc.publicKeySize + 19] ^= 1;
+        expect(verifyEquivocationProof(rfc, decodeEquivocationProof(rfc, otherAddress))).toBe(false);
+    });
+
+    it('should report the chain positions leaked signatures expose', () => {
+        const single = analyzeChainExposure(wotsPlus, [messageA]);
+        expect(single.lowestPositions).toEqual(wotsPlus.computeMessageHashChainIndexes(messageA));
+        expect(isForgeable(wotsPlus, single, messageA)).toBe(true);
+        expect(isForgeable(wotsPlus, single, messageB)).toBe(false);
+
+        const both = analyzeChainExposure(wotsPlus, [messageA, messageB]);
+        for (let i = 0; i < wotsPlus.numSignatureChunks; i++) {
+            expect(both.lowestPositions[i]).toBeLessThanOrEqual(single.lowestPositions[i]);
+            expect(both.exposedPositions[i]).toBe(wotsPlus.chainLen - both.lowestPositions[i]);
+        }
+        expect(both.messageFraction).toBeGreaterThan(single.messageFraction);
+
+        // All zero digits leak the bottom of every message chain and all 0xff
+        // digits the bottom of every checksum chain: every message is forgeable.
+        const broken = analyzeChainExposure(wotsPlus, [new Uint8Array(32), new Uint8Array(32).fill(0xFF)]);
+        expect(broken.lowestPositions.every(position => position === 0)).toBe(true);
+        expect(broken.messageFraction).toBe(1);
+        expect(isForgeable(wotsPlus, broken, keccak_256(new TextEncoder().encode('anything')))).toBe(true);
+
+        expect(analyzeChainExposure(wotsPlus, [new Uint8Array(32).fill(0xFF)]).messageFraction).toBe(1 / 16);
+        expect(() => analyzeChainExposure(wotsPlus, [])).toThrow(InvalidParameterError);
+    });
+});
@@ -0,0 +1,234 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { WOTSPlus } from './wotsplus';
+import { Address, ADRS_SIZE } from './address';
+import { encodeSignature, decodeSignature } from './serialization';
+import { BufferUtil } from './utils';
+import { InvalidEncodingError, InvalidLengthError, InvalidParameterError } from './errors';
+
+// Equivocation fraud proofs
+//
+// A WOTS+ key signs once. Two valid signatures under one public key on
+// different messages prove that its owner signed twice, which protocols can
+// slash. A proof is the public key and both (message, signature) pairs; the
+// messages are the fixed length values `sign` signs, so for `signMessage`
+// signatures pass `hashMessage(randomizer, publicKey, message)`.
+//
+// The pairs are stored in byte order of their messages, so the same two
+// signatures always give the same proof. In RFC 8391 mode the chains also
+// depend on the OTS address, so the proof carries it as well.
+
+export interface SignedMessage {
+    message: Uint8Array;
+    signature: Uint8Array[];
+}
+
+export interface EquivocationProof {
+    publicKey: Uint8Array;
+    first: SignedMessage;
+    second: SignedMessage;
+    address?: Address;  // RFC 8391 mode only
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return a.length - b.length;
+}
+
+// createEquivocationProof: Check both signatures with `verify` and build a
+// proof. Throws an InvalidParameterError if the messages are equal or either
+// signature is invalid, since that proves nothing.
+export function createEquivocationProof(
+    wotsPlus: WOTSPlus,
+    publicKey: Uint8Array,
+    a: SignedMessage,
+    b: SignedMessage,
+    address?: Address
+): EquivocationProof {
+    if (BufferUtil.equals(a.message, b.message)) {
+        throw new InvalidParameterError("equivocation needs two different messages");
+    }
+    if (!wotsPlus.verify(publicKey, a.message, a.signature, address)
+        || !wotsPlus.verify(publicKey, b.message, b.signature, address)) {
+        throw new InvalidParameterError("both signatures must be valid for the public key");
+    }
+    const copy = (signed: SignedMessage): SignedMessage => ({
+        message: signed.message.slice(),
+        signature: signed.signature.map(chunk => chunk.slice())
+    });
+    const [first, second] = compareBytes(a.message, b.message) < 0 ? [a, b] : [b, a];
+    const proof: EquivocationProof = { publicKey: publicKey.slice(), first: copy(first), second: copy(second) };
+    if (wotsPlus.mode === 'rfc8391') {
+        proof.address = address?.clone() ?? new Address();
+    }
+    return proof;
+}
+
+// verifyEquivocationProof: True if the proof holds two valid signatures on
+// different messages. Malformed proofs are invalid rather than errors, so
+// this can judge untrusted submissions. `address` defaults to the address in
+// the proof; pass it to check the proof against a known key's address.
+export function verifyEquivocationProof(
+    wotsPlus: WOTSPlus,
+    proof: EquivocationProof,
+    address?: Address
+): boolean {
+    address ??= proof.address;
+    try {
+        return compareBytes(proof.first.message, proof.second.message) < 0
+            && wotsPlus.verify(proof.publicKey, proof.first.message, proof.first.signature, address)
+            && wotsPlus.verify(proof.publicKey, proof.second.message, proof.second.signature, address);
+    } catch (err) {
+        if (err instanceof InvalidLengthError || err instanceof InvalidParameterError) {
+            return false;
+        }
+        throw err;
+    }
+}
+
+// equivocationProofSize: publicKey || address || first message || second message
+// || first signature || second signature, where the 32 byte address is only
+// there in RFC 8391 mode.
+export function equivocationProofSize(wotsPlus: WOTSPlus): number {
+    return wotsPlus.publicKeySize + addressSize(wotsPlus) + 2 * wotsPlus.messageLen + 2 * wotsPlus.signatureSize;
+}
+
+function addressSize(wotsPlus: WOTSPlus): number {
+    return wotsPlus.mode === 'rfc8391' ? ADRS_SIZE : 0;
+}
+
+// encodeEquivocationProof: The flat encoding of a proof, see `equivocationProofSize`.
+export function encodeEquivocationProof(wotsPlus: WOTSPlus, proof: EquivocationProof): Uint8Array {
+    if (proof.publicKey.length !== wotsPlus.publicKeySize) {
+        throw new InvalidLengthError(
+            `public key length must be ${wotsPlus.publicKeySize} bytes`,
+            'publicKey', wotsPlus.publicKeySize, proof.publicKey.length
+        );
+    }
+    for (const { message } of [proof.first, proof.second]) {
+        if (message.length !== wotsPlus.messageLen) {
+            throw new InvalidLengthError(
+                `message length must be ${wotsPlus.messageLen} bytes`,
+                'message', wotsPlus.messageLen, message.length
+            );
+        }
+    }
+    const address = wotsPlus.mode === 'rfc8391'
+        ? (proof.address ?? new Address()).toBytes()
+        : new Uint8Array(0);
+    return BufferUtil.concat(
+        proof.publicKey,
+        address,
+        proof.first.message,
+        proof.second.message,
+        encodeSignature(wotsPlus, proof.first.signature),
+        encodeSignature(wotsPlus, proof.second.signature)
+    );
+}
+
+// decodeEquivocationProof: The inverse of `encodeEquivocationProof`. It does
+// not check the signatures; use `verifyEquivocationProof` for that.
+export function decodeEquivocationProof(wotsPlus: WOTSPlus, data: Uint8Array): EquivocationProof {
+    if (data.length !== equivocationProofSize(wotsPlus)) {
+        throw new InvalidEncodingError(`equivocation proof length must be ${equivocationProofSize(wotsPlus)} bytes`);
+    }
+    let offset = 0;
+    const take = (length: number): Uint8Array => data.slice(offset, offset += length);
+    const publicKey = take(wotsPlus.publicKeySize);
+    const address = take(addressSize(wotsPlus));
+    const firstMessage = take(wotsPlus.messageLen);
+    const secondMessage = take(wotsPlus.messageLen);
+    const proof: EquivocationProof = {
+        publicKey,
+        first: { message: firstMessage, signature: decodeSignature(wotsPlus, take(wotsPlus.signatureSize)) },
+        second: { message: secondMessage, signature: decodeSignature(wotsPlus, take(wotsPlus.signatureSize)) }
+    };
+    if (wotsPlus.mode === 'rfc8391') {
+        proof.address = new Address(address);
+    }
+    return proof;
+}
+
+// ChainExposure: What leaked signatures reveal about a key. A signature on
+// a message reveals chain i at position d_i, its i-th chain index, and anyone
+// can hash forward from there, so chain i is exposed from the lowest leaked
+// position up to ChainLen - 1.
+export interface ChainExposure {
+    // LowestPositions: The lowest leaked position of every chain, checksum
+    // chains included.
+    lowestPositions: number[];
+
+    // ExposedPositions: How many positions of every chain an attacker can
+    // compute, ChainLen - lowestPositions[i].
+    exposedPositions: number[];
+
+    // MessageFraction: The fraction of message chain positions an attacker
+    // can compute, a rough measure of how far the key is broken.
+    messageFraction: number;
+}
+
+// chainIndexes: The chain indexes of a fixed length message.
+function chainIndexes(wotsPlus: WOTSPlus, message: Uint8Array): number[] {
+    if (message.length !== wotsPlus.messageLen) {
+        throw new InvalidLengthError(
+            `message length must be ${wotsPlus.messageLen} bytes`,
+            'message', wotsPlus.messageLen, message.length
+        );
+    }
+    return wotsPlus.computeMessageHashChainIndexes(message);
+}
+
+// analyzeChainExposure: The chain positions revealed by signatures on
+// `messages`. Only the messages matter: the chain indexes say which values
+// a signature holds.
+export function analyzeChainExposure(wotsPlus: WOTSPlus, messages: Uint8Array[]): ChainExposure {
+    if (messages.length === 0) {
+        throw new InvalidParameterError("at least one signed message is needed");
+    }
+    const lowestPositions = new Array(wotsPlus.numSignatureChunks).fill(wotsPlus.chainLen - 1);
+    for (const message of messages) {
+        const indexes = chainIndexes(wotsPlus, message);
+        for (let i = 0; i < indexes.length; i++) {
+            lowestPositions[i] = Math.min(lowestPositions[i], indexes[i]);
+        }
+    }
+    const exposedPositions = lowestPositions.map(position => wotsPlus.chainLen - position);
+    let exposedMessagePositions = 0;
+    for (let i = 0; i < wotsPlus.numMessageChunks; i++) {
+        exposedMessagePositions += exposedPositions[i];
+    }
+    return {
+        lowestPositions,
+        exposedPositions,
+        messageFraction: exposedMessagePositions / (wotsPlus.numMessageChunks * wotsPlus.chainLen)
+    };
+}
+
+// isForgeable: True if an attacker holding the leaked signatures can sign
+// `message`: every chain index of the message, checksum included, is at or
+// above the lowest leaked position of its chain.
+export function isForgeable(wotsPlus: WOTSPlus, exposure: ChainExposure, message: Uint8Array): boolean {
+    if (exposure.lowestPositions.length !== wotsPlus.numSignatureChunks) {
+        throw new InvalidLengthError(
+            `exposure must cover ${wotsPlus.numSignatureChunks} chains`,
+            'lowestPositions', wotsPlus.numSignatureChunks, exposure.lowestPositions.length
+        );
+    }
+    return chainIndexes(wotsPlus, message).every((index, i) => index >= exposure.lowestPositions[i]);
+}
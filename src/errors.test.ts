@@ -0,0 +1,73 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import {
+    ErrorCode,
+    HashSigsError,
+    InvalidParameterError,
+    InvalidLengthError,
+    InvalidEncodingError,
+    KeyReuseError,
+    GrindingLimitError,
+    WorkerError
+} from './errors';
+import { WOTSPlus } from './wotsplus';
+import { getParameterSet } from './params';
+import { decodeEnvelope, HashId, EnvelopeKind } from './serialization';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('errors', () => {
+    // catchError: The error thrown by `fn`.
+    const catchError = (fn: () => unknown): unknown => {
+        try {
+            fn();
+        } catch (err) {
+            return err;
+        }
+        throw new Error('expected an error');
+    };
+
+    it('should carry names and codes', () => {
+        const errors: [HashSigsError, string, ErrorCode][] = [
+            [new InvalidParameterError('p'), 'InvalidParameterError', ErrorCode.InvalidParameter],
+            [new InvalidLengthError('l', 'message', 32, 31), 'InvalidLengthError', ErrorCode.InvalidLength],
+            [new InvalidEncodingError('e'), 'InvalidEncodingError', ErrorCode.InvalidEncoding],
+            [new KeyReuseError('k', 5), 'KeyReuseError', ErrorCode.KeyReuse],
+            [new GrindingLimitError('g', 16), 'GrindingLimitError', ErrorCode.GrindingLimit],
+            [new WorkerError('w', 1), 'WorkerError', ErrorCode.Worker],
+        ];
+        for (const [err, name, code] of errors) {
+            expect(err).toBeInstanceOf(Error);
+            expect(err).toBeInstanceOf(HashSigsError);
+            expect(err.name).toBe(name);
+            expect(err.code).toBe(code);
+        }
+    });
+
+    it('should be thrown with machine-readable details', () => {
+        const wotsPlus = new WOTSPlus(keccak_256);
+
+        const lengthError = catchError(() => wotsPlus.sign(new Uint8Array(32), new Uint8Array(32), new Uint8Array(31)));
+        expect(lengthError).toBeInstanceOf(InvalidLengthError);
+        expect(lengthError).toMatchObject({ field: 'message', expected: 32, actual: 31 });
+
+        expect(catchError(() => new WOTSPlus(keccak_256, 32, 3))).toBeInstanceOf(InvalidParameterError);
+        expect(catchError(() => getParameterSet('NOPE'))).toBeInstanceOf(InvalidParameterError);
+
+        const envelope = new Uint8Array(8 + wotsPlus.publicKeySize);
+        envelope[0] = 9;
+        expect(catchError(() => decodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, envelope)))
+            .toBeInstanceOf(InvalidEncodingError);
+    });
+});
@@ -0,0 +1,110 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+// ErrorCode: Machine-readable codes carried by every error this library throws,
+// so services can branch on `err.code` instead of matching messages.
+export enum ErrorCode {
+    InvalidParameter = 'ERR_INVALID_PARAMETER',
+    InvalidLength = 'ERR_INVALID_LENGTH',
+    InvalidEncoding = 'ERR_INVALID_ENCODING',
+    KeyReuse = 'ERR_KEY_REUSE',
+    Decryption = 'ERR_DECRYPTION',
+    GrindingLimit = 'ERR_GRINDING_LIMIT',
+    Worker = 'ERR_WORKER',
+}
+
+// HashSigsError is the base class of all errors thrown by this library.
+export class HashSigsError extends Error {
+    public readonly code: ErrorCode;
+
+    constructor(code: ErrorCode, message: string) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+    }
+}
+
+// InvalidParameterError: A value is out of range or not supported, e.g. a
+// chain length that is not a power of 2 or an unknown parameter set.
+export class InvalidParameterError extends HashSigsError {
+    constructor(message: string) {
+        super(ErrorCode.InvalidParameter, message);
+    }
+}
+
+// InvalidLengthError: A key, seed, message or signature has the wrong size.
+// `field` names the input, `expected` and `actual` are counts of bytes, or of
+// chunks for signatures.
+export class InvalidLengthError extends HashSigsError {
+    public readonly field: string;
+    public readonly expected: number;
+    public readonly actual: number;
+
+    constructor(message: string, field: string, expected: number, actual: number) {
+        super(ErrorCode.InvalidLength, message);
+        this.field = field;
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+// InvalidEncodingError: Serialized data is malformed, e.g. an envelope of an
+// unsupported version or ABI data with an unexpected offset.
+export class InvalidEncodingError extends HashSigsError {
+    constructor(message: string) {
+        super(ErrorCode.InvalidEncoding, message);
+    }
+}
+
+// KeyReuseError: Signing would use a one-time key that may already have
+// signed, or a stateful key has no unused keys left. `index` is the key
+// index for indexed keys.
+export class KeyReuseError extends HashSigsError {
+    public readonly index?: number;
+
+    constructor(message: string, index?: number) {
+        super(ErrorCode.KeyReuse, message);
+        this.index = index;
+    }
+}
+
+// DecryptionError: Encrypted data failed authentication, because the password
+// is wrong or the data was tampered with.
+export class DecryptionError extends HashSigsError {
+    constructor(message: string) {
+        super(ErrorCode.Decryption, message);
+    }
+}
+
+// GrindingLimitError: A signer that searches for a counter (WOTS+C) found
+// none within its budget. `attempts` is the number of counters tried.
+export class GrindingLimitError extends HashSigsError {
+    public readonly attempts: number;
+
+    constructor(message: string, attempts: number) {
+        super(ErrorCode.GrindingLimit, message);
+        this.attempts = attempts;
+    }
+}
+
+// WorkerError: A pool worker failed or exited, or the pool was terminated,
+// before answering a request. `exitCode` is set when the worker exited.
+export class WorkerError extends HashSigsError {
+    public readonly exitCode?: number;
+
+    constructor(message: string, exitCode?: number) {
+        super(ErrorCode.Worker, message);
+        this.exitCode = exitCode;
+    }
+}
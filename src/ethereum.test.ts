@@ -0,0 +1,124 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { WOTSPlus } from './wotsplus';
+import {
+    deriveAddress,
+    toChecksumAddress,
+    functionSelector,
+    abiEncodePublicKey,
+    abiEncodeSignature,
+    abiDecodeSignature,
+    abiEncodeVerifyArgs,
+    abiDecodeVerifyArgs,
+} from './ethereum';
+import { keccak_256 } from '@noble/hashes/sha3';
+import testVectors from '../test/test_vectors/wotsplus_keccak256.json';
+import addressVectors from '../test/test_vectors/wotsplus_keccak256_addresses.json';
+
+describe('ethereum', () => {
+    const hexToUint8Array = (hex: string): Uint8Array =>
+        new Uint8Array(Buffer.from(hex.startsWith('0x') ? hex.slice(2) : hex, 'hex'));
+
+    // Helper to build a 32 byte big-endian ABI word
+    const word = (value: number): Uint8Array => {
+        const arr = new Uint8Array(32);
+        arr[30] = (value >> 8) & 0xff;
+        arr[31] = value & 0xff;
+        return arr;
+    };
+
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const vector = testVectors.vector0;
+    const publicKey = hexToUint8Array(vector.publicKey);
+    const message = hexToUint8Array(vector.message);
+    const signature = vector.signature.map(hexToUint8Array);
+
+    it('should derive the addresses of the test vectors', () => {
+        Object.entries(testVectors).forEach(([vectorName, vector]) => {
+            const address = deriveAddress(hexToUint8Array(vector.publicKey));
+            const expected = addressVectors[vectorName as keyof typeof addressVectors].address;
+            expect(address.length).toBe(20);
+            expect(toChecksumAddress(address), vectorName).toBe(expected);
+        });
+    });
+
+    it('should produce EIP-55 checksum addresses', () => {
+        // Examples from EIP-55
+        for (const address of [
+            '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+            '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+            '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+        ]) {
+            expect(toChecksumAddress(hexToUint8Array(address))).toBe(address);
+        }
+        expect(() => toChecksumAddress(new Uint8Array(19))).toThrow();
+    });
+
+    it('should compute function selectors', () => {
+        expect(functionSelector('transfer(address,uint256)')).toEqual(hexToUint8Array('a9059cbb'));
+    });
+
+    it('should ABI encode and decode signatures', () => {
+        const encoded = abiEncodeSignature(wotsPlus, signature);
+        expect(encoded.length).toBe(64 + 32 * wotsPlus.numSignatureChunks);
+        expect(encoded.slice(0, 32)).toEqual(word(32));
+        expect(encoded.slice(32, 64)).toEqual(word(wotsPlus.numSignatureChunks));
+        expect(encoded.slice(64, 96)).toEqual(signature[0]);
+
+        const decoded = abiDecodeSignature(wotsPlus, encoded);
+        expect(decoded).toEqual(signature);
+        expect(wotsPlus.verify(publicKey, message, decoded)).toBe(true);
+    });
+
+    it('should ABI encode and decode verify arguments', () => {
+        expect(abiEncodePublicKey(wotsPlus, publicKey)).toEqual(publicKey);
+
+        const args = abiEncodeVerifyArgs(wotsPlus, publicKey, message, signature);
+        expect(args.slice(0, 64)).toEqual(publicKey);
+        expect(args.slice(64, 96)).toEqual(message);
+        expect(args.slice(96, 128)).toEqual(word(128));
+        expect(args.slice(128, 160)).toEqual(word(wotsPlus.numSignatureChunks));
+
+        const decoded = abiDecodeVerifyArgs(wotsPlus, args);
+        expect(decoded.publicKey).toEqual(publicKey);
+        expect(decoded.message).toEqual(message);
+        expect(decoded.signature).toEqual(signature);
+    });
+
+    it('should reject malformed ABI data', () => {
+        const encoded = abiEncodeSignature(wotsPlus, signature);
+        expect(() => abiDecodeSignature(wotsPlus, encoded.slice(0, -1))).toThrow();
+        expect(() => abiDecodeSignature(wotsPlus, encoded.slice(0, 40))).toThrow(/too short/);
+
+        const badOffset = encoded.slice();
+        badOffset[31] = 0x40;
+        expect(() => abiDecodeSignature(wotsPlus, badOffset)).toThrow(/offset/);
+
+        const badLength = encoded.slice();
+        badLength[63] = 1;
+        expect(() => abiDecodeSignature(wotsPlus, badLength)).toThrow(/signature length/);
+
+        const hugeLength = encoded.slice();
+        hugeLength[32] = 1;
+        expect(() => abiDecodeSignature(wotsPlus, hugeLength)).toThrow(/too large/);
+
+        expect(() => abiDecodeVerifyArgs(wotsPlus, new Uint8Array(64))).toThrow();
+        expect(() => abiEncodeVerifyArgs(wotsPlus, publicKey, message.slice(1), signature)).toThrow();
+        expect(() => abiEncodeSignature(wotsPlus, signature.slice(1))).toThrow();
+        expect(() => abiEncodeSignature(new WOTSPlus(keccak_256, 24), [])).toThrow(/hash length/);
+        expect(() => deriveAddress(new Uint8Array(0))).toThrow();
+    });
+});
@@ -0,0 +1,200 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { WOTSPlus } from './wotsplus';
+import { BufferUtil } from './utils';
+import { InvalidEncodingError, InvalidLengthError, InvalidParameterError } from './errors';
+
+// Ethereum helpers for the hashsigs Solidity verifier.
+//
+// On chain a WOTS+ public key is the static struct (bytes32 publicSeed,
+// bytes32 publicKeyHash) and a signature is a bytes32[] of NumSignatureChunks
+// elements, so these helpers require HashLen to be 32.
+
+// ADDRESS_SIZE: Addresses are the last 20 bytes of a keccak256 hash, as in Ethereum.
+export const ADDRESS_SIZE = 20;
+
+const WORD_SIZE = 32;
+
+function checkWordSized(wotsPlus: WOTSPlus): void {
+    if (wotsPlus.hashLen !== WORD_SIZE) {
+        throw new InvalidParameterError(`ABI encoding requires a hash length of ${WORD_SIZE} bytes`);
+    }
+}
+
+// readWord: Read a 32 byte big-endian word as a number, rejecting anything
+// that does not fit in a safe integer.
+function readWord(data: Uint8Array, offset: number): number {
+    if (offset + WORD_SIZE > data.length) {
+        throw new InvalidEncodingError("ABI data is too short");
+    }
+    for (let i = offset; i < offset + WORD_SIZE - 6; i++) {
+        if (data[i] !== 0) {
+            throw new InvalidEncodingError("ABI integer is too large");
+        }
+    }
+    let value = 0;
+    for (let i = offset + WORD_SIZE - 6; i < offset + WORD_SIZE; i++) {
+        value = value * 256 + data[i];
+    }
+    return value;
+}
+
+// deriveAddress: The address of a WOTS+ public key, the last 20 bytes of
+// keccak256(publicSeed || publicKeyHash).
+export function deriveAddress(publicKey: Uint8Array): Uint8Array {
+    if (publicKey.length === 0) {
+        throw new InvalidParameterError("public key must not be empty");
+    }
+    return keccak_256(publicKey).slice(WORD_SIZE - ADDRESS_SIZE);
+}
+
+// toChecksumAddress: The EIP-55 mixed case hex string of an address.
+export function toChecksumAddress(address: Uint8Array): string {
+    if (address.length !== ADDRESS_SIZE) {
+        throw new InvalidLengthError(
+            `address length must be ${ADDRESS_SIZE} bytes`,
+            'address', ADDRESS_SIZE, address.length
+        );
+    }
+    const hex = BufferUtil.toHex(address);
+    const hash = BufferUtil.toHex(keccak_256(new TextEncoder().encode(hex)));
+    let result = '0x';
+    for (let i = 0; i < hex.length; i++) {
+        result += parseInt(hash[i], 16) >= 8 ? hex[i].toUpperCase() : hex[i];
+    }
+    return result;
+}
+
+// functionSelector: The 4 byte selector of a Solidity function signature,
+// e.g. "verify((bytes32,bytes32),bytes32,bytes32[])".
+export function functionSelector(signature: string): Uint8Array {
+    return keccak_256(new TextEncoder().encode(signature)).slice(0, 4);
+}
+
+// abiEncodePublicKey: abi.encode of the (publicSeed, publicKeyHash) struct.
+// Both fields are bytes32, so this is the 64 byte public key itself.
+export function abiEncodePublicKey(wotsPlus: WOTSPlus, publicKey: Uint8Array): Uint8Array {
+    checkWordSized(wotsPlus);
+    if (publicKey.length !== wotsPlus.publicKeySize) {
+        throw new InvalidLengthError(
+            `public key length must be ${wotsPlus.publicKeySize} bytes`,
+            'publicKey', wotsPlus.publicKeySize, publicKey.length
+        );
+    }
+    return publicKey.slice();
+}
+
+// encodeSignatureArray: The tail of a bytes32[]: its length followed by the elements.
+function encodeSignatureArray(wotsPlus: WOTSPlus, signature: Uint8Array[]): Uint8Array {
+    if (signature.length !== wotsPlus.numSignatureChunks) {
+        throw new InvalidLengthError(
+            `signature length must be ${wotsPlus.numSignatureChunks}`,
+            'signature', wotsPlus.numSignatureChunks, signature.length
+        );
+    }
+    for (const chunk of signature) {
+        if (chunk.length !== WORD_SIZE) {
+            throw new InvalidLengthError(
+                `signature chunks must be ${WORD_SIZE} bytes`,
+                'signatureChunk', WORD_SIZE, chunk.length
+            );
+        }
+    }
+    return BufferUtil.concat(BufferUtil.toBytes(signature.length, WORD_SIZE), ...signature);
+}
+
+// decodeSignatureArray: Read a bytes32[] whose length word is at `offset`.
+function decodeSignatureArray(wotsPlus: WOTSPlus, data: Uint8Array, offset: number): Uint8Array[] {
+    const length = readWord(data, offset);
+    if (length !== wotsPlus.numSignatureChunks) {
+        throw new InvalidEncodingError(`signature length must be ${wotsPlus.numSignatureChunks}, got ${length}`);
+    }
+    const start = offset + WORD_SIZE;
+    if (start + length * WORD_SIZE !== data.length) {
+        throw new InvalidEncodingError(`ABI data length must be ${start + length * WORD_SIZE} bytes`);
+    }
+    const signature: Uint8Array[] = new Array(length);
+    for (let i = 0; i < length; i++) {
+        signature[i] = data.slice(start + i * WORD_SIZE, start + (i + 1) * WORD_SIZE);
+    }
+    return signature;
+}
+
+// abiEncodeSignature: abi.encode(bytes32[] signature).
+export function abiEncodeSignature(wotsPlus: WOTSPlus, signature: Uint8Array[]): Uint8Array {
+    checkWordSized(wotsPlus);
+    return BufferUtil.concat(
+        BufferUtil.toBytes(WORD_SIZE, WORD_SIZE),
+        encodeSignatureArray(wotsPlus, signature)
+    );
+}
+
+// abiDecodeSignature: The inverse of `abiEncodeSignature`.
+export function abiDecodeSignature(wotsPlus: WOTSPlus, data: Uint8Array): Uint8Array[] {
+    checkWordSized(wotsPlus);
+    if (readWord(data, 0) !== WORD_SIZE) {
+        throw new InvalidEncodingError("unexpected ABI offset for signature");
+    }
+    return decodeSignatureArray(wotsPlus, data, WORD_SIZE);
+}
+
+// abiEncodeVerifyArgs: abi.encode((bytes32,bytes32) publicKey, bytes32 message, bytes32[] signature),
+// the arguments of the Solidity verifier's verify function. Prefix the result
+// with `functionSelector` to build calldata.
+export function abiEncodeVerifyArgs(
+    wotsPlus: WOTSPlus,
+    publicKey: Uint8Array,
+    message: Uint8Array,
+    signature: Uint8Array[]
+): Uint8Array {
+    checkWordSized(wotsPlus);
+    if (message.length !== WORD_SIZE) {
+        throw new InvalidLengthError(
+            `message length must be ${WORD_SIZE} bytes`,
+            'message', WORD_SIZE, message.length
+        );
+    }
+    // head: publicKey (2 words, inline), message (1 word), signature offset (1 word)
+    const signatureOffset = 4 * WORD_SIZE;
+    return BufferUtil.concat(
+        abiEncodePublicKey(wotsPlus, publicKey),
+        message,
+        BufferUtil.toBytes(signatureOffset, WORD_SIZE),
+        encodeSignatureArray(wotsPlus, signature)
+    );
+}
+
+// abiDecodeVerifyArgs: The inverse of `abiEncodeVerifyArgs`. Strip the 4 byte
+// function selector from calldata before calling this.
+export function abiDecodeVerifyArgs(wotsPlus: WOTSPlus, data: Uint8Array): {
+    publicKey: Uint8Array,
+    message: Uint8Array,
+    signature: Uint8Array[]
+} {
+    checkWordSized(wotsPlus);
+    if (data.length < 4 * WORD_SIZE) {
+        throw new InvalidEncodingError("ABI data is too short");
+    }
+    const signatureOffset = readWord(data, 3 * WORD_SIZE);
+    if (signatureOffset !== 4 * WORD_SIZE) {
+        throw new InvalidEncodingError("unexpected ABI offset for signature");
+    }
+    return {
+        publicKey: data.slice(0, 2 * WORD_SIZE),
+        message: data.slice(2 * WORD_SIZE, 3 * WORD_SIZE),
+        signature: decodeSignatureArray(wotsPlus, data, signatureOffset)
+    };
+}
@@ -0,0 +1,72 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { FORS } from './fors';
+import { Address, AddressType } from './address';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('FORS', () => {
+    const fors = new FORS(keccak_256, 16, 4, 5);
+    const secretSeed = keccak_256(new TextEncoder().encode('fors secret seed')).slice(0, 16);
+    const publicSeed = keccak_256(new TextEncoder().encode('fors public seed')).slice(0, 16);
+    const address = new Address().setTreeAddress(3).setType(AddressType.ForsTree).setKeyPairAddress(1);
+    const messageFor = (i: number): Uint8Array =>
+        keccak_256(new TextEncoder().encode(`Hello World${i}`)).slice(0, fors.messageLen);
+
+    it('should split messages into k indexes of a bits', () => {
+        expect(fors.messageLen).toBe(3);
+        expect(fors.signatureSize).toBe(5 * 5 * 16);
+        // 1011 0010 1100 0111 1110 0001 -> 11, 2, 12, 7, 14 (last 4 bits unused)
+        expect(fors.messageIndexes(new Uint8Array([0xb2, 0xc7, 0xe1]))).toEqual([11, 2, 12, 7, 14]);
+        expect(() => fors.messageIndexes(new Uint8Array(4))).toThrow(/3 bytes/);
+    });
+
+    it('should rebuild the public key from a signature', () => {
+        const publicKey = fors.generatePublicKey(secretSeed, publicSeed, address);
+        for (let i = 0; i < 3; i++) {
+            const signature = fors.sign(secretSeed, publicSeed, messageFor(i), address);
+            expect(signature.length).toBe(fors.numTrees);
+            expect(fors.computePublicKey(publicSeed, messageFor(i), signature, address)).toEqual(publicKey);
+        }
+
+        // The key pair address separates FORS key pairs
+        const other = address.clone().setKeyPairAddress(2);
+        expect(fors.generatePublicKey(secretSeed, publicSeed, other)).not.toEqual(publicKey);
+    });
+
+    it('should not rebuild the public key from a tampered signature', () => {
+        const publicKey = fors.generatePublicKey(secretSeed, publicSeed, address);
+        const signature = fors.sign(secretSeed, publicSeed, messageFor(0), address);
+
+        expect(fors.computePublicKey(publicSeed, messageFor(1), signature, address)).not.toEqual(publicKey);
+
+        const tampered = signature.map(({ secretKey, authPath }) => ({ secretKey, authPath: authPath.slice() }));
+        tampered[2].authPath[1] = new Uint8Array(16);
+        expect(fors.computePublicKey(publicSeed, messageFor(0), tampered, address)).not.toEqual(publicKey);
+    });
+
+    it('should reject bad parameters, addresses and signatures', () => {
+        expect(() => new FORS(keccak_256, 16, 0, 5)).toThrow();
+        expect(() => new FORS(keccak_256, 16, 4, 0)).toThrow();
+        expect(() => fors.generatePublicKey(secretSeed, publicSeed, new Address())).toThrow(/ForsTree/);
+        expect(() => fors.sign(secretSeed.slice(1), publicSeed, messageFor(0), address)).toThrow(/16 bytes/);
+
+        const signature = fors.sign(secretSeed, publicSeed, messageFor(0), address);
+        expect(() => fors.computePublicKey(publicSeed, messageFor(0), signature.slice(1), address))
+            .toThrow(/5 trees/);
+        signature[0].authPath.pop();
+        expect(() => fors.computePublicKey(publicSeed, messageFor(0), signature, address))
+            .toThrow(/authentication path/);
+    });
+});
@@ -0,0 +1,240 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { HashFunction } from './wotsplus';
+import { TweakableHash } from './tweakable';
+import { Address, AddressType } from './address';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// FORSTreeSignature: The revealed secret leaf of one FORS tree and the
+// authentication path from that leaf to the tree root.
+export interface FORSTreeSignature {
+    secretKey: Uint8Array;
+    authPath: Uint8Array[];
+}
+
+// FORSSignature: One FORSTreeSignature per tree.
+export type FORSSignature = FORSTreeSignature[];
+
+// FORS (Forest Of Random Subsets) is the few-time signature scheme of
+// SPHINCS+. A key pair is k Merkle trees of 2^a secret leaves; a message is
+// split into k indexes of a bits and reveals one leaf per tree. The public key
+// is the hash of the k tree roots.
+//
+// Unlike WOTS+, signing a few messages with the same key pair only slowly
+// reduces security, which is what lets SPHINCS+ pick key pairs at random.
+//
+// Every method takes the FORS address of the key pair: type ForsTree with the
+// layer, tree and key pair address set.
+export class FORS {
+    private readonly tweakable: TweakableHash;
+
+    // HashLen: The `n` security parameter.
+    public readonly hashLen: number;
+
+    // Height: The FORS `a` parameter, the height of each tree.
+    public readonly height: number;
+
+    // NumTrees: The FORS `k` parameter.
+    public readonly numTrees: number;
+
+    // NumLeaves: 2^a, the leaves of each tree.
+    public readonly numLeaves: number;
+
+    // MessageLen: ceil(k * a / 8), the bytes of message digest a signature covers.
+    public readonly messageLen: number;
+
+    // SignatureSize: k * (a + 1) * n, a secret leaf and an authentication path per tree.
+    public readonly signatureSize: number;
+
+    constructor(hashFunction: HashFunction, hashLen: number = 32, height: number = 12, numTrees: number = 14) {
+        // Tree indexes k * 2^a must fit in an address word.
+        if (!Number.isInteger(height) || height < 1 || height > 24) {
+            throw new InvalidParameterError("FORS height must be an integer between 1 and 24");
+        }
+        if (!Number.isInteger(numTrees) || numTrees < 1 || numTrees > 64) {
+            throw new InvalidParameterError("FORS tree count must be an integer between 1 and 64");
+        }
+        this.tweakable = new TweakableHash(hashFunction, hashLen);
+        this.hashLen = hashLen;
+        this.height = height;
+        this.numTrees = numTrees;
+        this.numLeaves = 2 ** height;
+        this.messageLen = Math.ceil((numTrees * height) / 8);
+        this.signatureSize = numTrees * (height + 1) * hashLen;
+    }
+
+    // messageIndexes: Split a message digest into k indexes of a bits,
+    // reading it as a big-endian bit string (base_2^b of FIPS 205).
+    public messageIndexes(message: Uint8Array): number[] {
+        if (message.length !== this.messageLen) {
+            throw new InvalidLengthError(
+                `message length must be ${this.messageLen} bytes`,
+                'message', this.messageLen, message.length
+            );
+        }
+        const indexes: number[] = new Array(this.numTrees);
+        let offset = 0;
+        let total = 0;
+        let bits = 0;
+        for (let i = 0; i < this.numTrees; i++) {
+            while (bits < this.height) {
+                total = ((total << 8) | message[offset++]) & 0xFFFFFFFF;
+                bits += 8;
+            }
+            bits -= this.height;
+            indexes[i] = (total >>> bits) & (this.numLeaves - 1);
+        }
+        return indexes;
+    }
+
+    // node: The node at `height` and `index` across all trees, computed
+    // recursively from its leaves (fors_node of FIPS 205). Tree i holds the
+    // leaves i * 2^a to (i + 1) * 2^a - 1.
+    private node(
+        secretSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        index: number,
+        height: number,
+        address: Address
+    ): Uint8Array {
+        const adrs = address.clone();
+        if (height === 0) {
+            const secretKey = this.secretKey(secretSeed, publicSeed, index, address);
+            adrs.setTreeHeight(0).setTreeIndex(index);
+            const leaf = this.tweakable.thash(publicSeed, adrs, secretKey);
+            secretKey.fill(0);
+            return leaf;
+        }
+        const left = this.node(secretSeed, publicSeed, 2 * index, height - 1, address);
+        const right = this.node(secretSeed, publicSeed, 2 * index + 1, height - 1, address);
+        adrs.setTreeHeight(height).setTreeIndex(index);
+        return this.tweakable.thash(publicSeed, adrs, left, right);
+    }
+
+    // secretKey: The secret leaf `index`, PRF_keygen at tree height 0.
+    private secretKey(secretSeed: Uint8Array, publicSeed: Uint8Array, index: number, address: Address): Uint8Array {
+        const adrs = address.clone().setTreeHeight(0).setTreeIndex(index);
+        return this.tweakable.prfKeygen(secretSeed, publicSeed, adrs);
+    }
+
+    // compressRoots: The public key, T_k of the k tree roots.
+    private compressRoots(publicSeed: Uint8Array, roots: Uint8Array[], address: Address): Uint8Array {
+        const adrs = address.clone()
+            .setType(AddressType.ForsRoots)
+            .setKeyPairAddress(address.getKeyPairAddress());
+        return this.tweakable.thash(publicSeed, adrs, ...roots);
+    }
+
+    // generatePublicKey: Compute every tree root and compress them.
+    public generatePublicKey(secretSeed: Uint8Array, publicSeed: Uint8Array, address: Address): Uint8Array {
+        const adrs = this.forsAddress(address);
+        try {
+            const roots: Uint8Array[] = new Array(this.numTrees);
+            for (let i = 0; i < this.numTrees; i++) {
+                roots[i] = this.node(secretSeed, publicSeed, i, this.height, adrs);
+            }
+            return this.compressRoots(publicSeed, roots, adrs);
+        } finally {
+            this.tweakable.zeroize();
+        }
+    }
+
+    // sign: Reveal one secret leaf per tree, chosen by the message digest.
+    public sign(
+        secretSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        address: Address
+    ): FORSSignature {
+        const adrs = this.forsAddress(address);
+        const indexes = this.messageIndexes(message);
+        try {
+            return indexes.map((leafIndex, i) => {
+                const offset = i * this.numLeaves;
+                const authPath: Uint8Array[] = new Array(this.height);
+                for (let j = 0; j < this.height; j++) {
+                    const sibling = (leafIndex >> j) ^ 1;
+                    authPath[j] = this.node(secretSeed, publicSeed, (offset >> j) + sibling, j, adrs);
+                }
+                return { secretKey: this.secretKey(secretSeed, publicSeed, offset + leafIndex, adrs), authPath };
+            });
+        } finally {
+            this.tweakable.zeroize();
+        }
+    }
+
+    // computePublicKey: Rebuild the public key from a signature (fors_pkFromSig).
+    // Only a valid signature yields the signer's public key.
+    public computePublicKey(
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        signature: FORSSignature,
+        address: Address
+    ): Uint8Array {
+        const adrs = this.forsAddress(address);
+        this.checkSignature(signature);
+        const indexes = this.messageIndexes(message);
+
+        const roots = indexes.map((leafIndex, i) => {
+            const { secretKey, authPath } = signature[i];
+            let index = i * this.numLeaves + leafIndex;
+            adrs.setTreeHeight(0).setTreeIndex(index);
+            let node = this.tweakable.thash(publicSeed, adrs, secretKey);
+            for (let j = 0; j < this.height; j++) {
+                const isLeft = (index & 1) === 0;
+                index = index >>> 1;
+                adrs.setTreeHeight(j + 1).setTreeIndex(index);
+                node = isLeft
+                    ? this.tweakable.thash(publicSeed, adrs, node, authPath[j])
+                    : this.tweakable.thash(publicSeed, adrs, authPath[j], node);
+            }
+            return node;
+        });
+        return this.compressRoots(publicSeed, roots, adrs);
+    }
+
+    private checkSignature(signature: FORSSignature): void {
+        if (signature.length !== this.numTrees) {
+            throw new InvalidLengthError(
+                `FORS signature must have ${this.numTrees} trees`,
+                'forsSignature', this.numTrees, signature.length
+            );
+        }
+        for (const { secretKey, authPath } of signature) {
+            if (authPath.length !== this.height) {
+                throw new InvalidLengthError(
+                    `authentication path length must be ${this.height}`,
+                    'authenticationPath', this.height, authPath.length
+                );
+            }
+            for (const node of [secretKey, ...authPath]) {
+                if (node.length !== this.hashLen) {
+                    throw new InvalidLengthError(
+                        `FORS signature nodes must be ${this.hashLen} bytes`,
+                        'forsSignatureNode', this.hashLen, node.length
+                    );
+                }
+            }
+        }
+    }
+
+    // forsAddress: A private copy of the caller's address, which must be a FORS tree address.
+    private forsAddress(address: Address): Address {
+        if (address.getType() !== AddressType.ForsTree) {
+            throw new InvalidParameterError("address type must be ForsTree");
+        }
+        return address.clone();
+    }
+}
@@ -12,5 +12,178 @@
 // MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
 // GNU Affero General Public License for more details.
 
-export { WOTSPlus, type HashFunction } from './wotsplus';
+export {
+    WOTSPlus,
+    type HashFunction,
+    type IncrementalHash,
+    type MessageSignature,
+    type WOTSPlusMode,
+    type VerifyResult
+} from './wotsplus';
+export { type SignatureScheme } from './scheme';
+export { Lamport } from './lamport';
+export { WOTSPlusC, type WOTSPlusCOptions, type WOTSPlusCSignature } from './wotsc';
+export {
+    ErrorCode,
+    HashSigsError,
+    InvalidParameterError,
+    InvalidLengthError,
+    InvalidEncodingError,
+    KeyReuseError,
+    DecryptionError,
+    GrindingLimitError,
+    WorkerError
+} from './errors';
+export { Address, AddressType, ADRS_SIZE } from './address';
+export {
+    WOTSPrivateKey,
+    type WOTSPrivateKeyOptions,
+    type DestroyedWOTSPrivateKey,
+    type WOTSSignResult
+} from './privatekey';
 
+export { XMSS, type XMSSSignature, type XMSSPrivateKey } from './xmss';
+export {
+    TreeHashBuilder,
+    BDSTraversal,
+    BDS_STATE_VERSION,
+    type MerkleTreeHasher,
+    type TreeHashBuilderJSON,
+    type BDSStateJSON
+} from './bds';
+export {
+    WOTSKeyManager,
+    MemoryStateStore,
+    type KeyStateStore
+} from './keymanager';
+export {
+    encodeSignature,
+    decodeSignature,
+    encodePublicKey,
+    decodePublicKey,
+    encodePrivateKey,
+    decodePrivateKey,
+    encodeMessageSignature,
+    decodeMessageSignature,
+    encodeEnvelope,
+    decodeEnvelope,
+    readEnvelopeHeader,
+    HashId,
+    EnvelopeKind,
+    ENVELOPE_VERSION,
+    ENVELOPE_HEADER_SIZE,
+    type EnvelopeHeader
+} from './serialization';
+export {
+    registerParameterSet,
+    getParameterSet,
+    listParameterSets,
+    findParameterSet,
+    encodeWithOid,
+    decodeWithOid,
+    OID_SIZE,
+    type ParameterSet
+} from './params';
+export {
+    generateKeyPairAsync,
+    signAsync,
+    verifyAsync,
+    verifyBatch,
+    WorkerPool,
+    createNodeWorkerPool,
+    fromNodeWorker,
+    fromWebWorker,
+    handleWorkerRequest,
+    type WorkerLike,
+    type WorkerRequest,
+    type WorkerResponse
+} from './async';
+export { WOTSVerifier, WOTSVerifierCache } from './verifier';
+export {
+    HDNode,
+    WOTSKeyDerivation,
+    mnemonicToSeed,
+    parsePath,
+    formatPath,
+    HARDENED_OFFSET,
+    MIN_SEED_SIZE,
+    MAX_SEED_SIZE
+} from './derivation';
+export {
+    deriveAddress,
+    toChecksumAddress,
+    functionSelector,
+    abiEncodePublicKey,
+    abiEncodeSignature,
+    abiDecodeSignature,
+    abiEncodeVerifyArgs,
+    abiDecodeVerifyArgs,
+    ADDRESS_SIZE
+} from './ethereum';
+export {
+    SPHINCSPlus,
+    SPHINCS_PARAMETER_SETS,
+    type SPHINCSParameters,
+    type SPHINCSParameterSet,
+    type SPHINCSPrivateKey,
+    type SPHINCSSignature,
+    type HypertreeLayerSignature
+} from './sphincs';
+export { FORS, type FORSSignature, type FORSTreeSignature } from './fors';
+export {
+    PublicKeyCommitment,
+    hashPublicKeyLeaf,
+    verifyMembership,
+    verifyMultiProof,
+    verifyCommittedSignature,
+    type MembershipProof,
+    type MultiProof
+} from './commitment';
+export {
+    createEquivocationProof,
+    verifyEquivocationProof,
+    encodeEquivocationProof,
+    decodeEquivocationProof,
+    equivocationProofSize,
+    analyzeChainExposure,
+    isForgeable,
+    type EquivocationProof,
+    type SignedMessage,
+    type ChainExposure
+} from './equivocation';
+export {
+    exportKeystore,
+    importKeystore,
+    checkKeystore,
+    KEYSTORE_VERSION,
+    DEFAULT_SCRYPT_PARAMS,
+    DEFAULT_ARGON2ID_PARAMS,
+    MAX_SCRYPT_PARAMS,
+    MAX_ARGON2ID_PARAMS,
+    type KeystoreJSON,
+    type KeystoreContents,
+    type KeystoreOptions,
+    type KeystoreKdf,
+    type ScryptParams,
+    type Argon2idParams
+} from './keystore';
+export {
+    LMOTS,
+    LMS,
+    HSS,
+    LMOTSType,
+    LMSType,
+    parseLMSPublicKey,
+    verifyLMS,
+    verifyHSS,
+    type LMSPrivateKey,
+    type HSSLevel,
+    type HSSPrivateKey
+} from './lms';
+export {
+    createHashBackend,
+    createJsHashBackend,
+    type HashBackend,
+    type HashAlgorithm
+} from './backend';
+export { WasmHasher, buildHashModule, wasmAvailable } from './wasm';
@@ -0,0 +1,137 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WOTSKeyManager, MemoryStateStore, KeyStateStore } from './keymanager';
+import { FileStateStore } from './node';
+import { InvalidEncodingError, KeyReuseError } from './errors';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('WOTSKeyManager', () => {
+    const masterSeed = keccak_256(new TextEncoder().encode('master seed'));
+    const messageFor = (i: number): Uint8Array =>
+        keccak_256(new TextEncoder().encode(`Hello World${i}`));
+
+    const tmpDirs: string[] = [];
+    const makeTmpDir = (): string => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hashsigs-'));
+        tmpDirs.push(dir);
+        return dir;
+    };
+
+    afterEach(() => {
+        while (tmpDirs.length > 0) {
+            fs.rmSync(tmpDirs.pop()!, { recursive: true, force: true });
+        }
+    });
+
+    it('should derive distinct deterministic keys per index', () => {
+        const manager = new WOTSKeyManager(keccak_256, masterSeed);
+        const other = new WOTSKeyManager(keccak_256, masterSeed);
+
+        expect(manager.getPublicKey(0)).toEqual(other.getPublicKey(0));
+        expect(manager.getPublicKey(0)).not.toEqual(manager.getPublicKey(1));
+        expect(manager.deriveSeeds(0).privateSeed).not.toEqual(manager.deriveSeeds(0).publicSeed);
+    });
+
+    it('should sign with successive indices and verify', () => {
+        const manager = new WOTSKeyManager(keccak_256, masterSeed);
+
+        for (let i = 0; i < 3; i++) {
+            const message = messageFor(i);
+            const { index, publicKey, signature } = manager.sign(message);
+            expect(index).toBe(i);
+            expect(publicKey).toEqual(manager.getPublicKey(i));
+            expect(manager.wotsPlus.verify(publicKey, message, signature)).toBe(true);
+            expect(manager.isSpent(i)).toBe(true);
+        }
+        expect(manager.nextIndex()).toBe(3);
+    });
+
+    it('should refuse to reuse a spent index', () => {
+        const manager = new WOTSKeyManager(keccak_256, masterSeed);
+        manager.signWithIndex(5, messageFor(0));
+
+        expect(() => manager.signWithIndex(5, messageFor(1))).toThrow(/already been used/);
+        expect(() => manager.signWithIndex(5, messageFor(1))).toThrow(KeyReuseError);
+        expect(() => manager.signWithIndex(2, messageFor(1))).toThrow(/already been used/);
+        expect(manager.sign(messageFor(1)).index).toBe(6);
+    });
+
+    it('should save state before signing', () => {
+        const saved: number[] = [];
+        const store: KeyStateStore = {
+            load: () => saved.length > 0 ? saved[saved.length - 1] : 0,
+            save: (nextIndex) => { saved.push(nextIndex); },
+        };
+        const manager = new WOTSKeyManager(keccak_256, masterSeed, store);
+        manager.sign(messageFor(0));
+        expect(saved).toEqual([1]);
+
+        // a store that cannot persist must prevent the signature
+        const failing: KeyStateStore = {
+            load: () => 0,
+            save: () => { throw new Error('disk full'); },
+        };
+        const failingManager = new WOTSKeyManager(keccak_256, masterSeed, failing);
+        expect(() => failingManager.sign(messageFor(0))).toThrow('disk full');
+    });
+
+    it('should not burn an index on invalid input', () => {
+        const manager = new WOTSKeyManager(keccak_256, masterSeed, new MemoryStateStore(7));
+        expect(() => manager.sign(new Uint8Array(3))).toThrow();
+        expect(manager.nextIndex()).toBe(7);
+        expect(() => manager.signWithIndex(-1, messageFor(0))).toThrow();
+        expect(() => new WOTSKeyManager(keccak_256, new Uint8Array(16))).toThrow();
+    });
+
+    it('should persist state across managers with FileStateStore', () => {
+        const filePath = path.join(makeTmpDir(), 'state.json');
+
+        const first = new WOTSKeyManager(keccak_256, masterSeed, new FileStateStore(filePath));
+        expect(first.nextIndex()).toBe(0);
+        first.sign(messageFor(0));
+        first.sign(messageFor(1));
+
+        // simulate a restart
+        const second = new WOTSKeyManager(keccak_256, masterSeed, new FileStateStore(filePath));
+        expect(second.nextIndex()).toBe(2);
+        expect(() => second.signWithIndex(1, messageFor(2))).toThrow();
+        expect(second.sign(messageFor(2)).index).toBe(2);
+        expect(fs.readdirSync(path.dirname(filePath))).toEqual(['state.json']);
+    });
+
+    it('should reject a corrupted state file', () => {
+        const filePath = path.join(makeTmpDir(), 'state.json');
+        fs.writeFileSync(filePath, JSON.stringify({ version: 1, nextIndex: -4 }));
+        expect(() => new FileStateStore(filePath).load()).toThrow(/invalid key state/);
+        fs.writeFileSync(filePath, '{"version": 1, "nextIn');
+        expect(() => new FileStateStore(filePath).load()).toThrow(InvalidEncodingError);
+        fs.writeFileSync(filePath, 'null');
+        expect(() => new FileStateStore(filePath).load()).toThrow(InvalidEncodingError);
+    });
+
+    it('should not touch the temporary file of another writer', () => {
+        const filePath = path.join(makeTmpDir(), 'state.json');
+        const otherTmp = `${filePath}.tmp`;
+        fs.writeFileSync(otherTmp, 'in progress');
+
+        new FileStateStore(filePath).save(3);
+        expect(new FileStateStore(filePath).load()).toBe(3);
+        expect(fs.readFileSync(otherTmp, 'utf8')).toBe('in progress');
+        expect(fs.readdirSync(path.dirname(filePath)).sort()).toEqual(['state.json', 'state.json.tmp']);
+    });
+});
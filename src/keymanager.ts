@@ -0,0 +1,153 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { HashFunction, WOTSPlus } from './wotsplus';
+import { WOTSPrivateKey } from './privatekey';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError, KeyReuseError } from './errors';
+
+// KeyStateStore persists the signing state of a WOTSKeyManager: the index of
+// the next unused one-time key. Every index below it has been consumed.
+//
+// Implementations MUST make `save` durable before returning. The manager saves
+// the advanced index before it computes a signature, so a crash at any point
+// can only lose indices, never hand the same index out twice.
+export interface KeyStateStore {
+    load(): number;
+    save(nextIndex: number): void;
+}
+
+// MemoryStateStore keeps the state in memory. Useful for tests and for keys
+// that never outlive the process.
+export class MemoryStateStore implements KeyStateStore {
+    private nextIndex: number;
+
+    constructor(nextIndex: number = 0) {
+        this.nextIndex = nextIndex;
+    }
+
+    public load(): number {
+        return this.nextIndex;
+    }
+
+    public save(nextIndex: number): void {
+        this.nextIndex = nextIndex;
+    }
+}
+
+// WOTSKeyManager derives one WOTS+ key pair per index from a master seed and
+// tracks which indices have been used, so a one-time key can never sign twice.
+export class WOTSKeyManager {
+    private readonly hashFn: HashFunction;
+    private readonly masterSeed: Uint8Array;
+    private readonly store: KeyStateStore;
+
+    public readonly wotsPlus: WOTSPlus;
+
+    // MaxIndex: indices are encoded as 4 bytes in the key derivation.
+    public static readonly MaxIndex = 0xFFFFFFFF;
+
+    constructor(
+        hashFunction: HashFunction,
+        masterSeed: Uint8Array,
+        store: KeyStateStore = new MemoryStateStore(),
+        hashLen?: number,
+        chainLen: number = 16
+    ) {
+        this.hashFn = hashFunction;
+        this.wotsPlus = new WOTSPlus(hashFunction, hashLen, chainLen);
+        if (masterSeed.length < this.wotsPlus.hashLen) {
+            throw new InvalidLengthError(
+                `master seed must be at least ${this.wotsPlus.hashLen} bytes`,
+                'masterSeed', this.wotsPlus.hashLen, masterSeed.length
+            );
+        }
+        this.masterSeed = masterSeed.slice();
+        this.store = store;
+    }
+
+    // deriveSeeds: The private and public seed for the key at `index`.
+    // Each seed is hash(0x04 || masterSeed || index || type), with type 0
+    // for the private seed and 1 for the public seed.
+    public deriveSeeds(index: number): { privateSeed: Uint8Array, publicSeed: Uint8Array } {
+        this.checkIndex(index);
+        const derive = (type: number) => this.hashFn(BufferUtil.concat(
+            new Uint8Array([0x04]),
+            this.masterSeed,
+            BufferUtil.toBytes(index, 4),
+            new Uint8Array([type])
+        )).slice(0, this.wotsPlus.hashLen);
+        return { privateSeed: derive(0), publicSeed: derive(1) };
+    }
+
+    // getPublicKey: The public key at `index`, whether or not it has been used.
+    public getPublicKey(index: number): Uint8Array {
+        const { privateSeed, publicSeed } = this.deriveSeeds(index);
+        return this.wotsPlus.generateKeyPair(privateSeed, publicSeed).publicKey;
+    }
+
+    // nextIndex: The index the next call to `sign` will use.
+    public nextIndex(): number {
+        return this.store.load();
+    }
+
+    // isSpent: Whether the key at `index` may already have signed something.
+    public isSpent(index: number): boolean {
+        return index < this.store.load();
+    }
+
+    // sign: Sign a message with the next unused key.
+    public sign(message: Uint8Array): {
+        index: number,
+        publicKey: Uint8Array,
+        signature: Uint8Array[]
+    } {
+        return this.signWithIndex(this.store.load(), message);
+    }
+
+    // signWithIndex: Sign a message with the key at `index`.
+    // Every index below `index` is considered spent afterwards.
+    // The state is advanced and saved before the signature is computed.
+    public signWithIndex(index: number, message: Uint8Array): {
+        index: number,
+        publicKey: Uint8Array,
+        signature: Uint8Array[]
+    } {
+        this.checkIndex(index);
+        if (message.length !== this.wotsPlus.messageLen) {
+            throw new InvalidLengthError(
+                `message length must be ${this.wotsPlus.messageLen} bytes`,
+                'message', this.wotsPlus.messageLen, message.length
+            );
+        }
+        if (this.isSpent(index)) {
+            throw new KeyReuseError(`key index ${index} has already been used`, index);
+        }
+
+        this.store.save(index + 1);
+
+        // The one-time key is wiped as soon as it has signed
+        const { privateSeed, publicSeed } = this.deriveSeeds(index);
+        const key = WOTSPrivateKey.generate(this.wotsPlus, privateSeed, publicSeed);
+        privateSeed.fill(0);
+        const { signature } = key.sign(message);
+        return { index, publicKey: key.publicKey, signature };
+    }
+
+    private checkIndex(index: number): void {
+        if (!Number.isInteger(index) || index < 0 || index > WOTSKeyManager.MaxIndex) {
+            throw new InvalidParameterError(`key index must be an integer between 0 and ${WOTSKeyManager.MaxIndex}`);
+        }
+    }
+}
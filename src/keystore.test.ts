@@ -0,0 +1,221 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { keccak_256 } from '@noble/hashes/sha3';
+import {
+    Argon2idParams,
+    exportKeystore,
+    importKeystore,
+    checkKeystore,
+    KeystoreJSON,
+    KeystoreOptions,
+    MAX_ARGON2ID_PARAMS,
+    MAX_SCRYPT_PARAMS
+} from './keystore';
+import { WOTSKeyManager } from './keymanager';
+import { KeystoreStateStore } from './node';
+import {
+    DecryptionError,
+    InvalidEncodingError,
+    InvalidLengthError,
+    InvalidParameterError,
+    KeyReuseError
+} from './errors';
+import keystoreVectors from '../test/test_vectors/keystore_v1.json';
+
+describe('Keystore', () => {
+    const password = keystoreVectors.password;
+    const contents = {
+        privateSeed: new Uint8Array(Buffer.from(keystoreVectors.privateSeed, 'hex')),
+        publicSeed: new Uint8Array(Buffer.from(keystoreVectors.publicSeed, 'hex')),
+        parameterSet: 'WOTSP-KECCAK256-W16',
+        nextIndex: keystoreVectors.nextIndex,
+    };
+    // Cheap KDF costs keep the tests fast; the defaults take around a second.
+    const fast: KeystoreOptions = { scrypt: { n: 1024, r: 8, p: 1 } };
+    const vectors = keystoreVectors.keystores as KeystoreJSON[];
+
+    const tmpDirs: string[] = [];
+    const makeTmpDir = (): string => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hashsigs-'));
+        tmpDirs.push(dir);
+        return dir;
+    };
+
+    afterEach(() => {
+        while (tmpDirs.length > 0) {
+            fs.rmSync(tmpDirs.pop()!, { recursive: true, force: true });
+        }
+    });
+
+    it('should decrypt the fixed vectors', () => {
+        for (const keystore of vectors) {
+            const decrypted = importKeystore(keystore, password);
+            expect(decrypted).toEqual(contents);
+            expect(importKeystore(JSON.stringify(keystore), password)).toEqual(contents);
+        }
+    });
+
+    it('should reproduce the fixed vectors from the same salt and nonce', () => {
+        for (const keystore of vectors) {
+            const { kdf, kdfparams } = keystore.crypto;
+            const salt = new Uint8Array(Buffer.from(kdfparams.salt, 'hex'));
+            const nonce = new Uint8Array(Buffer.from(keystore.crypto.cipherparams.nonce, 'hex'));
+            const options: KeystoreOptions = kdf === 'scrypt'
+                ? { kdf, scrypt: kdfparams as { n: number, r: number, p: number }, salt, nonce }
+                : { kdf, argon2id: kdfparams as { t: number, m: number, p: number }, salt, nonce };
+            const exported = exportKeystore(contents, password, options);
+            expect(exported.crypto.ciphertext).toBe(keystore.crypto.ciphertext);
+        }
+    });
+
+    it('should round trip with random salt and nonce', () => {
+        const first = exportKeystore(contents, password, fast);
+        const second = exportKeystore(contents, password, fast);
+        expect(first.crypto.ciphertext).not.toBe(second.crypto.ciphertext);
+        expect(importKeystore(first, password)).toEqual(contents);
+        expect(importKeystore(second, password)).toEqual(contents);
+
+        const large = { ...contents, nextIndex: Number.MAX_SAFE_INTEGER };
+        expect(importKeystore(exportKeystore(large, password, fast), password).nextIndex)
+            .toBe(Number.MAX_SAFE_INTEGER);
+    });
+
+    it('should accept byte passwords and normalize string passwords', () => {
+        const bytes = new TextEncoder().encode(password);
+        expect(importKeystore(vectors[0], bytes)).toEqual(contents);
+
+        // "é" composed and decomposed
+        const keystore = exportKeystore(contents, 'é', fast);
+        expect(checkKeystore(keystore, 'é')).toBe(true);
+    });
+
+    it('should wipe the encoded password after deriving the key', () => {
+        const length = Buffer.byteLength(password.normalize('NFKD'));
+        const encode = vi.spyOn(TextEncoder.prototype, 'encode');
+        try {
+            importKeystore(vectors[0], password);
+            const encoded = encode.mock.results.map(result => result.value as Uint8Array)
+                .filter(bytes => bytes.length === length);
+            expect(encoded.length).toBeGreaterThan(0);
+            expect(encoded.every(bytes => bytes.every(b => b === 0))).toBe(true);
+        } finally {
+            encode.mockRestore();
+        }
+
+        // byte passwords belong to the caller and are left alone
+        const bytes = new TextEncoder().encode(password);
+        importKeystore(vectors[0], bytes);
+        expect(Buffer.from(bytes).toString('utf8')).toBe(password);
+    });
+
+    it('should reject a wrong password', () => {
+        expect(() => importKeystore(vectors[0], 'wrong password')).toThrow(DecryptionError);
+        expect(checkKeystore(vectors[0], 'wrong password')).toBe(false);
+        expect(checkKeystore(vectors[0], password)).toBe(true);
+    });
+
+    it('should detect tampering with any authenticated field', () => {
+        const tamper = (edit: (keystore: KeystoreJSON) => void): KeystoreJSON => {
+            const copy = JSON.parse(JSON.stringify(vectors[0])) as KeystoreJSON;
+            edit(copy);
+            return copy;
+        };
+        const flipHex = (hex: string): string => (hex[0] === '0' ? '1' : '0') + hex.slice(1);
+
+        const tampered = [
+            tamper(k => { k.crypto.ciphertext = flipHex(k.crypto.ciphertext); }),
+            tamper(k => { k.crypto.cipherparams.nonce = flipHex(k.crypto.cipherparams.nonce); }),
+            tamper(k => { k.parameterSet = 'WOTSP-SHA256-W16'; }),
+        ];
+        for (const keystore of tampered) {
+            expect(checkKeystore(keystore, password)).toBe(false);
+        }
+    });
+
+    it('should reject malformed keystores', () => {
+        const edit = (change: (keystore: KeystoreJSON) => void): KeystoreJSON => {
+            const copy = JSON.parse(JSON.stringify(vectors[0])) as KeystoreJSON;
+            change(copy);
+            return copy;
+        };
+
+        expect(() => importKeystore('not json', password)).toThrow(InvalidEncodingError);
+        expect(() => importKeystore(edit(k => { k.version = 2; }), password)).toThrow(InvalidEncodingError);
+        expect(() => importKeystore(edit(k => { k.crypto.cipher = 'aes-128-ctr'; }), password))
+            .toThrow(InvalidEncodingError);
+        expect(() => importKeystore(edit(k => { (k.crypto.kdfparams as { n: number }).n = 1000; }), password))
+            .toThrow(InvalidEncodingError);
+        expect(() => importKeystore(edit(k => { k.crypto.ciphertext = 'zz'; }), password))
+            .toThrow(InvalidEncodingError);
+        // KDF costs above the caps are refused before any work is done
+        const argon2 = vectors.find(k => k.crypto.kdf === 'argon2id')!;
+        for (const [name, value] of Object.entries(MAX_SCRYPT_PARAMS)) {
+            const keystore = edit(k => { (k.crypto.kdfparams as unknown as Record<string, number>)[name] = value * 2; });
+            expect(() => importKeystore(keystore, password)).toThrow(`keystore scrypt ${name} is above the maximum`);
+        }
+        for (const [name, value] of Object.entries(MAX_ARGON2ID_PARAMS)) {
+            const keystore = JSON.parse(JSON.stringify(argon2)) as KeystoreJSON;
+            (keystore.crypto.kdfparams as unknown as Record<string, number>)[name] = value + 1;
+            expect(() => importKeystore(keystore, password)).toThrow(InvalidEncodingError);
+            expect(() => importKeystore(keystore, password)).toThrow(`keystore argon2id ${name} is above the maximum`);
+        }
+        expect(() => exportKeystore(contents, password, { scrypt: { n: 1 << 21, r: 8, p: 1 } }))
+            .toThrow(InvalidParameterError);
+        // costs the KDF itself refuses surface as typed errors too
+        const tooLittleMemory = JSON.parse(JSON.stringify(argon2)) as KeystoreJSON;
+        (tooLittleMemory.crypto.kdfparams as Argon2idParams).m = 4;
+        expect(() => importKeystore(tooLittleMemory, password)).toThrow(InvalidParameterError);
+        const shortSalt = JSON.parse(JSON.stringify(argon2)) as KeystoreJSON;
+        shortSalt.crypto.kdfparams.salt = '00';
+        expect(() => importKeystore(shortSalt, password)).toThrow(/argon2id parameters are unusable/);
+        expect(() => exportKeystore(contents, password, { kdf: 'argon2id', argon2id: { t: 1, m: 8, p: 2 } }))
+            .toThrow(InvalidParameterError);
+        // malformed input throws rather than reading as a wrong password
+        expect(() => checkKeystore(edit(k => { k.crypto.kdfparams.dklen = 16; }), password))
+            .toThrow(InvalidEncodingError);
+    });
+
+    it('should validate the contents on export', () => {
+        expect(() => exportKeystore({ ...contents, privateSeed: new Uint8Array(31) }, password, fast))
+            .toThrow(InvalidLengthError);
+        expect(() => exportKeystore({ ...contents, nextIndex: -1 }, password, fast)).toThrow();
+        expect(() => exportKeystore(contents, password, { ...fast, nonce: new Uint8Array(12) }))
+            .toThrow(InvalidLengthError);
+    });
+
+    it('should keep the key manager state in the keystore file', () => {
+        const filePath = path.join(makeTmpDir(), 'keystore.json');
+        fs.writeFileSync(filePath, JSON.stringify(exportKeystore({ ...contents, nextIndex: 0 }, password, fast)));
+
+        const store = new KeystoreStateStore(filePath, password);
+        expect(store.load()).toBe(0);
+        const manager = new WOTSKeyManager(keccak_256, contents.privateSeed, store);
+        const message = keccak_256(new TextEncoder().encode('keystore message'));
+        manager.sign(message);
+        manager.sign(message);
+        store.close();
+
+        const reopened = new KeystoreStateStore(filePath, password);
+        expect(reopened.load()).toBe(2);
+        expect(reopened.contents().privateSeed).toEqual(contents.privateSeed);
+        expect(importKeystore(fs.readFileSync(filePath, 'utf8'), password).nextIndex).toBe(2);
+
+        const resumed = new WOTSKeyManager(keccak_256, contents.privateSeed, reopened);
+        expect(() => resumed.signWithIndex(1, message)).toThrow(KeyReuseError);
+    });
+});
@@ -0,0 +1,354 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { scrypt } from '@noble/hashes/scrypt';
+import { argon2id } from '@noble/hashes/argon2';
+import { hexToBytes, randomBytes } from '@noble/hashes/utils';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { getParameterSet } from './params';
+import { BufferUtil } from './utils';
+import {
+    DecryptionError,
+    InvalidEncodingError,
+    InvalidLengthError,
+    InvalidParameterError
+} from './errors';
+
+// Encrypted keystore for WOTS+ seeds, modelled on the Ethereum keystore v3
+// format: a password based KDF (scrypt or argon2id) derives a 32 byte key
+// that encrypts the secrets with XChaCha20-Poly1305.
+//
+// The plaintext is privateSeed || publicSeed || nextIndex (8 bytes, big-endian).
+// Every other field of the file (version, parameter set, KDF and cipher
+// parameters) is bound to the ciphertext as associated data, so changing any
+// of them is detected like a change to the ciphertext itself.
+
+export const KEYSTORE_VERSION = 1;
+
+const KEY_SIZE = 32;
+const SALT_SIZE = 32;
+const NONCE_SIZE = 24;
+const INDEX_SIZE = 8;
+const CIPHER = 'xchacha20-poly1305';
+
+export type KeystoreKdf = 'scrypt' | 'argon2id';
+
+export interface ScryptParams {
+    n: number;
+    r: number;
+    p: number;
+}
+
+export interface Argon2idParams {
+    t: number;
+    m: number;  // memory in KiB
+    p: number;
+}
+
+// DEFAULT_SCRYPT_PARAMS: The "standard" cost of Ethereum keystores, 2^18.
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = Object.freeze({ n: 1 << 18, r: 8, p: 1 });
+
+// DEFAULT_ARGON2ID_PARAMS: The OWASP recommendation of 19 MiB and 2 passes.
+export const DEFAULT_ARGON2ID_PARAMS: Argon2idParams = Object.freeze({ t: 2, m: 19456, p: 1 });
+
+// MAX_SCRYPT_PARAMS and MAX_ARGON2ID_PARAMS cap the KDF cost a keystore may
+// ask for, so a crafted file cannot make importing it take gigabytes of
+// memory or hours of work. Either KDF needs at most 256 MiB at the caps,
+// scrypt 128 * r * (n + p) bytes and argon2id `m` KiB.
+export const MAX_SCRYPT_PARAMS: ScryptParams = Object.freeze({ n: 1 << 18, r: 8, p: 4 });
+export const MAX_ARGON2ID_PARAMS: Argon2idParams = Object.freeze({ t: 8, m: 1 << 18, p: 4 });
+
+// The memory limits handed to the KDFs, matching the caps above.
+const SCRYPT_MAXMEM = 128 * MAX_SCRYPT_PARAMS.r * (MAX_SCRYPT_PARAMS.n + MAX_SCRYPT_PARAMS.p);
+const ARGON2ID_MAXMEM = MAX_ARGON2ID_PARAMS.m * 256;  // in 32 bit words, 256 per 1 KiB block
+
+// KeystoreJSON is the encrypted file. Byte strings are hex without 0x.
+export interface KeystoreJSON {
+    version: number;
+    parameterSet: string;
+    crypto: {
+        cipher: string;
+        cipherparams: { nonce: string };
+        ciphertext: string;
+        kdf: KeystoreKdf;
+        kdfparams: (ScryptParams | Argon2idParams) & { dklen: number, salt: string };
+    };
+}
+
+// KeystoreContents is what the keystore protects.
+export interface KeystoreContents {
+    privateSeed: Uint8Array;
+    publicSeed: Uint8Array;
+    parameterSet: string;   // parameter set name
+    nextIndex: number;      // every index below it has been used
+}
+
+// KeystoreOptions choose the KDF and its cost. `salt` and `nonce` are random
+// unless given, which is only useful for test vectors.
+export interface KeystoreOptions {
+    kdf?: KeystoreKdf;
+    scrypt?: ScryptParams;
+    argon2id?: Argon2idParams;
+    salt?: Uint8Array;
+    nonce?: Uint8Array;
+}
+
+// exportKeystore: Encrypt `contents` under `password`.
+export function exportKeystore(
+    contents: KeystoreContents,
+    password: string | Uint8Array,
+    options: KeystoreOptions = {}
+): KeystoreJSON {
+    const kdf = options.kdf ?? 'scrypt';
+    const salt = options.salt ?? randomBytes(SALT_SIZE);
+    let kdfparams: KeystoreJSON['crypto']['kdfparams'];
+    if (kdf === 'scrypt') {
+        const { n, r, p } = options.scrypt ?? DEFAULT_SCRYPT_PARAMS;
+        kdfparams = { n, r, p, dklen: KEY_SIZE, salt: BufferUtil.toHex(salt) };
+    } else if (kdf === 'argon2id') {
+        const { t, m, p } = options.argon2id ?? DEFAULT_ARGON2ID_PARAMS;
+        kdfparams = { t, m, p, dklen: KEY_SIZE, salt: BufferUtil.toHex(salt) };
+    } else {
+        throw new InvalidParameterError(`unknown keystore kdf ${kdf}`);
+    }
+    const aboveCap = costAboveCap(kdf, kdfparams);
+    if (aboveCap !== undefined) {
+        throw new InvalidParameterError(`${kdf} ${aboveCap} is above the keystore maximum`);
+    }
+
+    const keystore: KeystoreJSON = {
+        version: KEYSTORE_VERSION,
+        parameterSet: getParameterSet(contents.parameterSet).name,
+        crypto: {
+            cipher: CIPHER,
+            cipherparams: { nonce: '' },
+            ciphertext: '',
+            kdf,
+            kdfparams,
+        },
+    };
+    const key = deriveKey(keystore, password);
+    try {
+        return encryptContents(keystore, key, contents, options.nonce);
+    } finally {
+        key.fill(0);
+    }
+}
+
+// importKeystore: Decrypt a keystore. Throws a DecryptionError for a wrong
+// password or a keystore that has been tampered with.
+export function importKeystore(keystore: KeystoreJSON | string, password: string | Uint8Array): KeystoreContents {
+    const parsed = parseKeystore(keystore);
+    const key = deriveKey(parsed, password);
+    try {
+        return decryptContents(parsed, key);
+    } finally {
+        key.fill(0);
+    }
+}
+
+// checkKeystore: Whether `password` opens the keystore and it is intact.
+// Malformed keystores still throw.
+export function checkKeystore(keystore: KeystoreJSON | string, password: string | Uint8Array): boolean {
+    try {
+        const { privateSeed } = importKeystore(keystore, password);
+        privateSeed.fill(0);
+        return true;
+    } catch (err) {
+        if (err instanceof DecryptionError) {
+            return false;
+        }
+        throw err;
+    }
+}
+
+// The helpers below are exported for KeystoreStateStore in node.ts, which
+// keeps the keystore on disk. They are not part of the package API.
+
+// deriveKey: The encryption key of a keystore, from its KDF parameters.
+export function deriveKey(keystore: KeystoreJSON, password: string | Uint8Array): Uint8Array {
+    const { kdf, kdfparams } = keystore.crypto;
+    const salt = parseHex(kdfparams.salt, 'salt');
+    const passwordBytes = typeof password === 'string'
+        ? new TextEncoder().encode(password.normalize('NFKD'))
+        : password;
+    try {
+        if (kdf === 'scrypt') {
+            const { n, r, p } = kdfparams as ScryptParams;
+            return scrypt(passwordBytes, salt, { N: n, r, p, dkLen: KEY_SIZE, maxmem: SCRYPT_MAXMEM });
+        }
+        const { t, m, p } = kdfparams as Argon2idParams;
+        return argon2id(passwordBytes, salt, { t, m, p, dkLen: KEY_SIZE, maxmem: ARGON2ID_MAXMEM });
+    } catch (err) {
+        throw new InvalidParameterError(`keystore ${kdf} parameters are unusable: ${(err as Error).message}`);
+    } finally {
+        // Byte passwords belong to the caller, only our encoding is wiped
+        if (passwordBytes !== password) {
+            passwordBytes.fill(0);
+        }
+    }
+}
+
+// costAboveCap: The name of the first KDF cost parameter above its cap.
+function costAboveCap(kdf: KeystoreKdf, params: ScryptParams | Argon2idParams): string | undefined {
+    if (kdf === 'scrypt') {
+        const { n, r, p } = params as ScryptParams;
+        if (n > MAX_SCRYPT_PARAMS.n) return 'n';
+        if (r > MAX_SCRYPT_PARAMS.r) return 'r';
+        if (p > MAX_SCRYPT_PARAMS.p) return 'p';
+        return undefined;
+    }
+    const { t, m, p } = params as Argon2idParams;
+    if (t > MAX_ARGON2ID_PARAMS.t) return 't';
+    if (m > MAX_ARGON2ID_PARAMS.m) return 'm';
+    if (p > MAX_ARGON2ID_PARAMS.p) return 'p';
+    return undefined;
+}
+
+// associatedData: Every field except the nonce and ciphertext, in a fixed order.
+function associatedData(keystore: KeystoreJSON): Uint8Array {
+    const { cipher, kdf, kdfparams } = keystore.crypto;
+    const params = kdf === 'scrypt'
+        ? [(kdfparams as ScryptParams).n, (kdfparams as ScryptParams).r, kdfparams.p]
+        : [(kdfparams as Argon2idParams).t, (kdfparams as Argon2idParams).m, kdfparams.p];
+    return new TextEncoder().encode(JSON.stringify([
+        keystore.version, keystore.parameterSet, cipher, kdf, ...params, kdfparams.dklen, kdfparams.salt,
+    ]));
+}
+
+// encryptContents: `keystore` with `contents` encrypted under `key`.
+export function encryptContents(
+    keystore: KeystoreJSON,
+    key: Uint8Array,
+    contents: KeystoreContents,
+    nonce: Uint8Array = randomBytes(NONCE_SIZE)
+): KeystoreJSON {
+    const hashLen = getParameterSet(keystore.parameterSet).hashLen;
+    if (contents.privateSeed.length !== hashLen) {
+        throw new InvalidLengthError(
+            `private seed length must be ${hashLen} bytes`,
+            'privateSeed', hashLen, contents.privateSeed.length
+        );
+    }
+    if (contents.publicSeed.length !== hashLen) {
+        throw new InvalidLengthError(
+            `public seed length must be ${hashLen} bytes`,
+            'publicSeed', hashLen, contents.publicSeed.length
+        );
+    }
+    if (!Number.isSafeInteger(contents.nextIndex) || contents.nextIndex < 0) {
+        throw new InvalidParameterError("next index must be a non-negative safe integer");
+    }
+    if (nonce.length !== NONCE_SIZE) {
+        throw new InvalidLengthError(`nonce length must be ${NONCE_SIZE} bytes`, 'nonce', NONCE_SIZE, nonce.length);
+    }
+
+    const plaintext = BufferUtil.concat(
+        contents.privateSeed,
+        contents.publicSeed,
+        BufferUtil.toBytes(Math.floor(contents.nextIndex / 2 ** 32), 4),
+        BufferUtil.toBytes(contents.nextIndex % 2 ** 32, 4)
+    );
+    const ciphertext = xchacha20poly1305(key, nonce, associatedData(keystore)).encrypt(plaintext);
+    plaintext.fill(0);
+
+    return {
+        ...keystore,
+        crypto: {
+            ...keystore.crypto,
+            cipherparams: { nonce: BufferUtil.toHex(nonce) },
+            ciphertext: BufferUtil.toHex(ciphertext),
+        },
+    };
+}
+
+// decryptContents: The contents of `keystore`, decrypted with `key`.
+export function decryptContents(keystore: KeystoreJSON, key: Uint8Array): KeystoreContents {
+    const hashLen = getParameterSet(keystore.parameterSet).hashLen;
+    const nonce = parseHex(keystore.crypto.cipherparams.nonce, 'nonce');
+    const ciphertext = parseHex(keystore.crypto.ciphertext, 'ciphertext');
+    if (nonce.length !== NONCE_SIZE) {
+        throw new InvalidEncodingError(`keystore nonce must be ${NONCE_SIZE} bytes`);
+    }
+
+    let plaintext: Uint8Array;
+    try {
+        plaintext = xchacha20poly1305(key, nonce, associatedData(keystore)).decrypt(ciphertext);
+    } catch {
+        throw new DecryptionError("wrong password or the keystore has been tampered with");
+    }
+    if (plaintext.length !== 2 * hashLen + INDEX_SIZE) {
+        plaintext.fill(0);
+        throw new InvalidEncodingError("keystore plaintext has the wrong length");
+    }
+
+    const view = new DataView(plaintext.buffer, plaintext.byteOffset + 2 * hashLen, INDEX_SIZE);
+    const contents: KeystoreContents = {
+        privateSeed: plaintext.slice(0, hashLen),
+        publicSeed: plaintext.slice(hashLen, 2 * hashLen),
+        parameterSet: keystore.parameterSet,
+        nextIndex: view.getUint32(0) * 2 ** 32 + view.getUint32(4),
+    };
+    plaintext.fill(0);
+    return contents;
+}
+
+// parseKeystore: Check the shape of a keystore before touching its crypto.
+export function parseKeystore(keystore: KeystoreJSON | string): KeystoreJSON {
+    let parsed: KeystoreJSON;
+    try {
+        parsed = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+    } catch {
+        throw new InvalidEncodingError("keystore is not valid JSON");
+    }
+    if (parsed?.version !== KEYSTORE_VERSION) {
+        throw new InvalidEncodingError(`unsupported keystore version ${parsed?.version}`);
+    }
+    const crypto = parsed.crypto;
+    if (typeof parsed.parameterSet !== 'string' || crypto === undefined || crypto.cipher !== CIPHER
+        || typeof crypto.ciphertext !== 'string' || typeof crypto.cipherparams?.nonce !== 'string') {
+        throw new InvalidEncodingError("malformed keystore");
+    }
+
+    const params = crypto.kdfparams;
+    const isCount = (value: unknown) => Number.isSafeInteger(value) && (value as number) > 0;
+    if (params === undefined || typeof params.salt !== 'string' || params.dklen !== KEY_SIZE || !isCount(params.p)) {
+        throw new InvalidEncodingError("malformed keystore kdf parameters");
+    }
+    if (crypto.kdf === 'scrypt') {
+        const { n, r } = params as ScryptParams;
+        if (!isCount(n) || (n & (n - 1)) !== 0 || n < 2 || !isCount(r)) {
+            throw new InvalidEncodingError("malformed keystore scrypt parameters");
+        }
+    } else if (crypto.kdf === 'argon2id') {
+        const { t, m } = params as Argon2idParams;
+        if (!isCount(t) || !isCount(m)) {
+            throw new InvalidEncodingError("malformed keystore argon2id parameters");
+        }
+    } else {
+        throw new InvalidEncodingError(`unknown keystore kdf ${crypto.kdf}`);
+    }
+    const aboveCap = costAboveCap(crypto.kdf, params);
+    if (aboveCap !== undefined) {
+        throw new InvalidEncodingError(`keystore ${crypto.kdf} ${aboveCap} is above the maximum`);
+    }
+    return parsed;
+}
+
+function parseHex(value: string, name: string): Uint8Array {
+    if (value.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(value)) {
+        throw new InvalidEncodingError(`keystore ${name} is not valid hex`);
+    }
+    return hexToBytes(value);
+}
@@ -0,0 +1,106 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { Lamport } from './lamport';
+import { SignatureScheme } from './scheme';
+import { WOTSPlus } from './wotsplus';
+import { encodePrivateKey } from './serialization';
+import { InvalidLengthError } from './errors';
+
+const privateSeed = keccak_256(new TextEncoder().encode('scheme private seed'));
+const publicSeed = keccak_256(new TextEncoder().encode('scheme public seed'));
+const message = keccak_256(new TextEncoder().encode('scheme message'));
+
+describe('SignatureScheme', () => {
+    const schemes: SignatureScheme[] = [
+        WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16'),
+        new WOTSPlus(sha256, 32, 4, 'rfc8391'),
+        new Lamport(keccak_256),
+        new Lamport(sha256, 16),
+    ];
+
+    for (const scheme of schemes) {
+        describe(scheme.parameterId, () => {
+            const seed = privateSeed.slice(0, scheme.messageLen);
+            const pub = publicSeed.slice(0, scheme.messageLen);
+            const msg = message.slice(0, scheme.messageLen);
+
+            it('should sign and verify flat keys and signatures', () => {
+                const { publicKey, privateKey } = scheme.keygen(seed, pub);
+                expect(publicKey.length).toBe(scheme.publicKeySize);
+                expect(privateKey.length).toBe(scheme.privateKeySize);
+
+                const signature = scheme.signBytes(privateKey, msg);
+                expect(signature.length).toBe(scheme.signatureSize);
+                expect(scheme.verifyBytes(publicKey, msg, signature)).toBe(true);
+
+                const tampered = signature.slice();
+                tampered[tampered.length - 1] ^= 1;
+                expect(scheme.verifyBytes(publicKey, msg, tampered)).toBe(false);
+                const otherMessage = msg.slice();
+                otherMessage[0] ^= 0x80;
+                expect(scheme.verifyBytes(publicKey, otherMessage, signature)).toBe(false);
+            });
+
+            it('should reject inputs of the wrong size', () => {
+                const { publicKey, privateKey } = scheme.keygen(seed, pub);
+                const signature = scheme.signBytes(privateKey, msg);
+                expect(() => scheme.signBytes(privateKey.subarray(1), msg)).toThrow(InvalidLengthError);
+                expect(() => scheme.verifyBytes(publicKey.subarray(1), msg, signature)).toThrow(InvalidLengthError);
+                expect(() => scheme.verifyBytes(publicKey, msg, signature.subarray(1))).toThrow(InvalidLengthError);
+            });
+        });
+    }
+});
+
+describe('WOTSPlus as a SignatureScheme', () => {
+    it('should match the native API and flat encodings', () => {
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16');
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        const flat = wotsPlus.keygen(privateSeed, publicSeed);
+        expect(flat.publicKey).toEqual(publicKey);
+        expect(flat.privateKey).toEqual(encodePrivateKey(wotsPlus, privateKey, publicSeed));
+        expect(wotsPlus.signBytes(flat.privateKey, message))
+            .toEqual(new Uint8Array(wotsPlus.sign(privateKey, publicSeed, message).flatMap(chunk => [...chunk])));
+    });
+
+    it('should name custom instances by their parameters', () => {
+        expect(WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16').parameterId).toBe('WOTSP-KECCAK256-W16');
+        expect(new WOTSPlus(keccak_256, 24, 4).parameterId).toBe('WOTSP-N24-W4');
+        expect(new WOTSPlus(sha256, 32, 16, 'rfc8391').parameterId).toBe('WOTSP-N32-W16-RFC8391');
+    });
+});
+
+describe('Lamport', () => {
+    it('should have the sizes of a compressed public key scheme', () => {
+        const lamport = new Lamport(keccak_256);
+        expect(lamport.parameterId).toBe('LAMPORT-N32');
+        expect(lamport.numBits).toBe(256);
+        expect(lamport.signatureSize).toBe(2 * 256 * 32);
+        expect(lamport.publicKeySize).toBe(64);
+    });
+
+    it('should reveal one secret per bit', () => {
+        const lamport = new Lamport(keccak_256);
+        const { privateKey } = lamport.keygen(privateSeed, publicSeed);
+        const zeros = lamport.signBytes(privateKey, new Uint8Array(32));
+        const ones = lamport.signBytes(privateKey, new Uint8Array(32).fill(0xFF));
+        // The secret for bit 0 = 0 hashes to the public value shipped with the
+        // signature for bit 0 = 1, and the other way around
+        expect(keccak_256(new Uint8Array([...publicSeed, ...zeros.subarray(0, 32)]))).toEqual(ones.subarray(32, 64));
+        expect(keccak_256(new Uint8Array([...publicSeed, ...ones.subarray(0, 32)]))).toEqual(zeros.subarray(32, 64));
+    });
+});
@@ -0,0 +1,161 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { HashFunction } from './wotsplus';
+import { SignatureScheme } from './scheme';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// Lamport: The Lamport one-time signature scheme, with the hash functions and
+// key derivation conventions of WOTSPlus.
+//
+// Every message bit i has two secret values, prf(privateKey, 2i) for a 0 and
+// prf(privateKey, 2i + 1) for a 1, and their public values
+// hash(publicSeed || secret). The public key is compressed to
+// publicSeed || hash(all public values), so a signature holds, for every bit,
+// the secret value of the signed bit and the public value of the other one.
+//
+// Lamport signatures are much larger than WOTS+ ones but verify with one
+// hash per bit.
+export class Lamport implements SignatureScheme {
+    private readonly hashFn: HashFunction;
+
+    public readonly hashLen: number;
+
+    // MessageLen: Messages are HashLen bytes, one key pair per message bit.
+    public readonly messageLen: number;
+    public readonly numBits: number;
+
+    // SignatureSize: For every bit, the revealed secret value and the public
+    // value of the other bit.
+    public readonly signatureSize: number;
+
+    // PublicKeySize: publicSeed || hash(public values)
+    public readonly publicKeySize: number;
+
+    // PrivateKeySize: privateKey || publicSeed
+    public readonly privateKeySize: number;
+
+    constructor(hashFunction: HashFunction, hashLen: number = 32) {
+        if (!Number.isInteger(hashLen) || hashLen <= 0) {
+            throw new InvalidParameterError("HashLen must be positive");
+        }
+        this.hashFn = hashFunction;
+        this.hashLen = hashLen;
+        this.messageLen = hashLen;
+        this.numBits = 8 * hashLen;
+        if (2 * this.numBits > 0xFFFF) {
+            throw new InvalidParameterError("HashLen is too large for the prf index");
+        }
+        this.signatureSize = 2 * this.numBits * hashLen;
+        this.publicKeySize = 2 * hashLen;
+        this.privateKeySize = 2 * hashLen;
+    }
+
+    // parameterId: LAMPORT-N<hashLen>.
+    public get parameterId(): string {
+        return `LAMPORT-N${this.hashLen}`;
+    }
+
+    private hash(data: Uint8Array): Uint8Array {
+        const digest = this.hashFn(data);
+        if (digest.length < this.hashLen) {
+            throw new InvalidParameterError(`hash function output must be at least ${this.hashLen} bytes`);
+        }
+        return digest.length === this.hashLen ? digest : digest.slice(0, this.hashLen);
+    }
+
+    private checkLength(value: Uint8Array, field: string, expected: number): void {
+        if (value.length !== expected) {
+            throw new InvalidLengthError(`${field} length must be ${expected} bytes`, field, expected, value.length);
+        }
+    }
+
+    // secretValue: prf(privateKey, 2 * bit + value) = hash(0x03 || privateKey || index), the WOTSPlus prf.
+    private secretValue(privateKey: Uint8Array, bit: number, value: number): Uint8Array {
+        const input = BufferUtil.concat(new Uint8Array([0x03]), privateKey, BufferUtil.toBytes(2 * bit + value, 2));
+        const secret = this.hash(input);
+        input.fill(0);
+        return secret;
+    }
+
+    private publicValue(publicSeed: Uint8Array, secret: Uint8Array): Uint8Array {
+        return this.hash(BufferUtil.concat(publicSeed, secret));
+    }
+
+    private bit(message: Uint8Array, i: number): number {
+        return (message[i >>> 3] >>> (7 - (i & 7))) & 1;
+    }
+
+    // keygen: The private key is hash(privateSeed || publicSeed), as in WOTSPlus.
+    public keygen(privateSeed: Uint8Array, publicSeed: Uint8Array): { publicKey: Uint8Array, privateKey: Uint8Array } {
+        this.checkLength(publicSeed, 'publicSeed', this.hashLen);
+        const combinedSeed = BufferUtil.concat(privateSeed, publicSeed);
+        const privateKey = this.hash(combinedSeed);
+        combinedSeed.fill(0);
+
+        const publicValues: Uint8Array[] = [];
+        for (let i = 0; i < this.numBits; i++) {
+            for (let value = 0; value < 2; value++) {
+                const secret = this.secretValue(privateKey, i, value);
+                publicValues.push(this.publicValue(publicSeed, secret));
+                secret.fill(0);
+            }
+        }
+        const material = BufferUtil.concat(privateKey, publicSeed);
+        privateKey.fill(0);
+        return {
+            publicKey: BufferUtil.concat(publicSeed, this.hash(BufferUtil.concat(...publicValues))),
+            privateKey: material
+        };
+    }
+
+    public signBytes(privateKey: Uint8Array, message: Uint8Array): Uint8Array {
+        this.checkLength(privateKey, 'privateKey', this.privateKeySize);
+        this.checkLength(message, 'message', this.messageLen);
+        const key = privateKey.subarray(0, this.hashLen);
+        const publicSeed = privateKey.subarray(this.hashLen);
+
+        const parts: Uint8Array[] = [];
+        for (let i = 0; i < this.numBits; i++) {
+            const bit = this.bit(message, i);
+            const other = this.secretValue(key, i, 1 - bit);
+            parts.push(this.secretValue(key, i, bit), this.publicValue(publicSeed, other));
+            other.fill(0);
+        }
+        return BufferUtil.concat(...parts);
+    }
+
+    // verifyBytes: Hash every revealed secret value, put it next to the public
+    // value of the other bit and compare the hash of all of them with the public key.
+    public verifyBytes(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+        this.checkLength(publicKey, 'publicKey', this.publicKeySize);
+        this.checkLength(message, 'message', this.messageLen);
+        this.checkLength(signature, 'signature', this.signatureSize);
+        const publicSeed = publicKey.subarray(0, this.hashLen);
+
+        const publicValues: Uint8Array[] = [];
+        for (let i = 0; i < this.numBits; i++) {
+            const revealed = signature.subarray(2 * i * this.hashLen, (2 * i + 1) * this.hashLen);
+            const other = signature.subarray((2 * i + 1) * this.hashLen, (2 * i + 2) * this.hashLen);
+            const signed = this.publicValue(publicSeed, revealed);
+            if (this.bit(message, i) === 0) {
+                publicValues.push(signed, other);
+            } else {
+                publicValues.push(other, signed);
+            }
+        }
+        return BufferUtil.equals(this.hash(BufferUtil.concat(...publicValues)), publicKey.subarray(this.hashLen));
+    }
+}
@@ -0,0 +1,279 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { hexToBytes } from '@noble/hashes/utils';
+import { HSS, LMOTS, LMOTSType, LMS, LMSType, verifyHSS, verifyLMS } from './lms';
+import { BufferUtil } from './utils';
+import { InvalidEncodingError, InvalidParameterError, KeyReuseError } from './errors';
+import rfc8554TestCase2 from '../test/test_vectors/lms_rfc8554_test_case_2.json';
+
+describe('LMS', () => {
+    const I = hexToBytes('202122232425262728292a2b2c2d2e2f');
+    const seed = hexToBytes('000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f');
+    const message = new TextEncoder().encode('hello lms');
+
+    it('should use the sizes of RFC 8554', () => {
+        expect([1, 2, 3, 4].map(type => new LMOTS(type).signatureSize)).toEqual([8516, 4292, 2180, 1124]);
+        const lms = new LMS(LMSType.SHA256_M32_H10, LMOTSType.SHA256_N32_W4);
+        expect(lms.publicKeySize).toBe(56);
+        expect(lms.signatureSize).toBe(4 + 2180 + 4 + 10 * 32);
+    });
+
+    it('should match the top level public key of RFC 8554 test case 2', () => {
+        // Appendix F, test case 2: LMS_SHA256_M32_H10 / LMOTS_SHA256_N32_W4 with
+        // the one-time keys derived from SEED as in Appendix A.
+        const hss = new HSS([
+            { lmsType: LMSType.SHA256_M32_H10, otsType: LMOTSType.SHA256_N32_W4 },
+            { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W8 }
+        ]);
+        const { publicKey } = hss.generateKeyPair(
+            hexToBytes('558b8966c48ae9cb898b423c83443aae014a72f1b1ab5cc85cf1d892903b5439'),
+            hexToBytes('d08fabd4a2091ff0a8cb4ed834e74534')
+        );
+        expect(BufferUtil.toHex(publicKey)).toBe(
+            '00000002' + '00000006' + '00000003' + 'd08fabd4a2091ff0a8cb4ed834e74534' +
+            '32a58885cd9ba0431235466bff9651c6c92124404d45fa53cf161c28f1ad5a8e'
+        );
+    }, 30000);
+
+    it('should sign and verify with every LM-OTS type', () => {
+        for (const otsType of [LMOTSType.SHA256_N32_W1, LMOTSType.SHA256_N32_W2, LMOTSType.SHA256_N32_W4, LMOTSType.SHA256_N32_W8]) {
+            const lms = new LMS(LMSType.SHA256_M32_H5, otsType);
+            const { publicKey, privateKey } = lms.generateKeyPair(I, seed);
+            const signature = lms.sign(privateKey, message);
+            expect(signature.length).toBe(lms.signatureSize);
+            expect(lms.verify(publicKey, message, signature)).toBe(true);
+            expect(verifyLMS(publicKey, message, signature)).toBe(true);
+            expect(lms.verify(publicKey, new TextEncoder().encode('other'), signature)).toBe(false);
+        }
+    }, 30000);
+
+    it('should reject tampered signatures and mismatched types', () => {
+        const lms = new LMS(LMSType.SHA256_M32_H5, LMOTSType.SHA256_N32_W4);
+        const { publicKey, privateKey } = lms.generateKeyPair(I, seed);
+        privateKey.q = 7;
+        const signature = lms.sign(privateKey, message);
+
+        // C, a chain value and an authentication path node
+        for (const offset of [8, 4 + 4 + 32 * 10, lms.signatureSize - 1]) {
+            const tampered = signature.slice();
+            tampered[offset] ^= 1;
+            expect(lms.verify(publicKey, message, tampered)).toBe(false);
+        }
+        const otherLeaf = signature.slice();
+        otherLeaf[3] = 8;
+        expect(lms.verify(publicKey, message, otherLeaf)).toBe(false);
+
+        const otherType = new LMS(LMSType.SHA256_M32_H5, LMOTSType.SHA256_N32_W8);
+        expect(otherType.verify(publicKey, message, signature)).toBe(false);
+        expect(lms.verify(publicKey, message, signature.subarray(1))).toBe(false);
+        expect(() => lms.verify(publicKey.subarray(1), message, signature)).toThrow(InvalidEncodingError);
+    });
+
+    it('should sign with a BDS traversal like without one', () => {
+        const lms = new LMS(LMSType.SHA256_M32_H5, LMOTSType.SHA256_N32_W2);
+        const { publicKey, privateKey } = lms.generateKeyPair(I, seed);
+        const withoutTraversal = { ...privateKey };
+        const traversal = lms.createTraversal(privateKey);
+        for (let q = 0; q < lms.numLeaves; q++) {
+            const signature = lms.sign(privateKey, message, traversal);
+            expect(signature).toEqual(lms.sign(withoutTraversal, message));
+            expect(lms.verify(publicKey, message, signature)).toBe(true);
+        }
+
+        // a traversal at another leaf is refused before the leaf is used
+        const resumed = { ...privateKey, q: 7 };
+        const other = lms.createTraversal({ ...privateKey, q: 3 });
+        expect(() => lms.sign(resumed, message, other)).toThrow(InvalidParameterError);
+        expect(resumed.q).toBe(7);
+        expect(lms.createTraversal(resumed).leafIndex).toBe(7);
+    }, 30000);
+
+    it('should sign deterministically and refuse to reuse leaves', () => {
+        const lms = new LMS(LMSType.SHA256_M32_H5, LMOTSType.SHA256_N32_W8);
+        const { privateKey } = lms.generateKeyPair(I, seed);
+        const first = lms.sign(privateKey, message);
+        expect(privateKey.q).toBe(1);
+        expect(BufferUtil.toHex(first.subarray(0, 4))).toBe('00000000');
+        expect(lms.sign({ ...privateKey, q: 0 }, message)).toEqual(first);
+
+        privateKey.q = lms.numLeaves;
+        expect(() => lms.sign(privateKey, message)).toThrow(KeyReuseError);
+        expect(privateKey.q).toBe(lms.numLeaves);
+    }, 30000);
+});
+
+describe('HSS', () => {
+    const hss = new HSS([
+        { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W4 },
+        { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W2 }
+    ]);
+    const seed = hexToBytes('a1c4696e2608035a886100d05cd99945eb3370731884a8235e2fb3d4d71f2547');
+    const I = hexToBytes('d2f14ff6346af964569f7d6cb880a1b6');
+    const message = new TextEncoder().encode('hello hss');
+
+    it('should sign and verify across bottom level trees', () => {
+        const { publicKey, privateKey } = hss.generateKeyPair(seed, I);
+        expect(publicKey.length).toBe(hss.publicKeySize);
+        expect(hss.numSignatures).toBe(1024);
+
+        privateKey.index = 31;
+        const last = hss.sign(privateKey, message);
+        const next = hss.sign(privateKey, message);
+        expect(privateKey.index).toBe(33);
+        expect(last.length).toBe(hss.signatureSize);
+        expect(hss.verify(publicKey, message, last)).toBe(true);
+        expect(verifyHSS(publicKey, message, next)).toBe(true);
+
+        // Nspk, then the signed bottom level public keys differ between the trees
+        expect(BufferUtil.toHex(last.subarray(0, 4))).toBe('00000001');
+        const signedKeySize = hss.lms[0].signatureSize + hss.lms[1].publicKeySize;
+        expect(BufferUtil.equals(last.subarray(4, 4 + signedKeySize), next.subarray(4, 4 + signedKeySize))).toBe(false);
+
+        expect(hss.verify(publicKey, new TextEncoder().encode('other'), last)).toBe(false);
+        const tampered = last.slice();
+        tampered[4 + signedKeySize - 1] ^= 1;
+        expect(hss.verify(publicKey, message, tampered)).toBe(false);
+        const wrongLevels = last.slice();
+        wrongLevels[3] = 0;
+        expect(hss.verify(publicKey, message, wrongLevels)).toBe(false);
+    }, 30000);
+
+    it('should keep keys that share an identifier apart', () => {
+        const shared = new HSS([
+            { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W2 },
+            { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W2 }
+        ]);
+        const a = shared.generateKeyPair(seed, I);
+        const b = shared.generateKeyPair(seed.map(byte => byte ^ 0xff), I);
+        for (let i = 0; i < 2; i++) {
+            const signatureA = shared.sign(a.privateKey, message);
+            const signatureB = shared.sign(b.privateKey, message);
+            expect(verifyHSS(a.publicKey, message, signatureA)).toBe(true);
+            expect(verifyHSS(b.publicKey, message, signatureB)).toBe(true);
+            expect(verifyHSS(a.publicKey, message, signatureB)).toBe(false);
+        }
+    }, 30000);
+
+    it('should treat malformed signatures as invalid', () => {
+        const { publicKey, privateKey } = hss.generateKeyPair(seed, I);
+        const signature = hss.sign(privateKey, message);
+        const signedKeyEnd = 4 + hss.lms[0].signatureSize + hss.lms[1].publicKeySize;
+        for (const length of [0, 3, 4, 11, 100, signedKeyEnd - 1, signedKeyEnd, signature.length - 1]) {
+            expect(verifyHSS(publicKey, message, signature.subarray(0, length)), `length ${length}`).toBe(false);
+        }
+        expect(verifyHSS(publicKey, message, BufferUtil.concat(signature, new Uint8Array(1)))).toBe(false);
+        const unknownType = signature.slice();
+        unknownType[11] = 0x7f;
+        expect(verifyHSS(publicKey, message, unknownType)).toBe(false);
+        const unknownChildType = signature.slice();
+        unknownChildType[4 + hss.lms[0].signatureSize + 3] = 0x7f;
+        expect(verifyHSS(publicKey, message, unknownChildType)).toBe(false);
+
+        // malformed public keys still throw, as in verifyLMS
+        expect(() => verifyHSS(publicKey.subarray(0, 10), message, signature)).toThrow(InvalidEncodingError);
+    }, 30000);
+
+    it('should verify the signature of RFC 8554 test case 2', () => {
+        const vector = rfc8554TestCase2;
+        const [top, bottom] = vector.levels;
+        const publicKey = hexToBytes(vector.publicKey);
+        const message = new TextEncoder().encode(vector.message);
+        const signature = hexToBytes(vector.signature);
+        expect(verifyHSS(publicKey, message, signature)).toBe(true);
+        expect(verifyHSS(publicKey, new TextEncoder().encode(vector.message.trim()), signature)).toBe(false);
+
+        // The published second level private key is the one derived from leaf 3
+        // of the top level, and the signature carries its public key.
+        const child = HSS.deriveChild(hexToBytes(top.I), hexToBytes(top.seed), top.q);
+        expect(BufferUtil.toHex(child.I)).toBe(bottom.I);
+        expect(BufferUtil.toHex(child.seed)).toBe(bottom.seed);
+        const lms = new LMS(LMSType.SHA256_M32_H5, LMOTSType.SHA256_N32_W8);
+        const childPublicKey = lms.generateKeyPair(child.I, child.seed).publicKey;
+        const topSignatureSize = new LMS(LMSType.SHA256_M32_H10, LMOTSType.SHA256_N32_W4).signatureSize;
+        expect(signature.subarray(4 + topSignatureSize, 4 + topSignatureSize + lms.publicKeySize)).toEqual(childPublicKey);
+        expect(BufferUtil.toHex(signature.subarray(0, 8))).toBe('00000001' + top.q.toString(16).padStart(8, '0'));
+
+        const tampered = signature.slice();
+        tampered[tampered.length - 1] ^= 1;
+        expect(verifyHSS(publicKey, message, tampered)).toBe(false);
+    }, 30000);
+
+    it('should refuse to sign once every signature is used', () => {
+        const { publicKey, privateKey } = hss.generateKeyPair(seed, I);
+        privateKey.index = hss.numSignatures - 1;
+        expect(hss.verify(publicKey, message, hss.sign(privateKey, message))).toBe(true);
+        expect(() => hss.sign(privateKey, message)).toThrow(KeyReuseError);
+    }, 30000);
+
+    it('should sign and verify with the parameters of RFC 8554 test cases 1 and 2', () => {
+        // Appendix F: test case 1 uses LMS_SHA256_M32_H5 / LMOTS_SHA256_N32_W8 on
+        // both levels, test case 2 the top level key pinned above and a
+        // LMS_SHA256_M32_H5 / LMOTS_SHA256_N32_W8 bottom level.
+        const testCases = [
+            {
+                hss: new HSS([
+                    { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W8 },
+                    { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W8 }
+                ]),
+                seed,
+                I,
+                message: 'The powers not delegated to the United States by the Constitution, nor prohibited by it ' +
+                    'to the States, are reserved to the States respectively, or to the people.\n',
+                signatureSize: 2644,
+            },
+            {
+                hss: new HSS([
+                    { lmsType: LMSType.SHA256_M32_H10, otsType: LMOTSType.SHA256_N32_W4 },
+                    { lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W8 }
+                ]),
+                seed: hexToBytes('558b8966c48ae9cb898b423c83443aae014a72f1b1ab5cc85cf1d892903b5439'),
+                I: hexToBytes('d08fabd4a2091ff0a8cb4ed834e74534'),
+                message: 'The enumeration in the Constitution, of certain rights, shall not be construed to deny ' +
+                    'or disparage others retained by the people.\n',
+                signatureSize: 3860,
+            },
+        ];
+
+        for (const testCase of testCases) {
+            const { publicKey, privateKey } = testCase.hss.generateKeyPair(testCase.seed, testCase.I);
+            const signed = new TextEncoder().encode(testCase.message);
+            privateKey.index = 4;
+            const signature = testCase.hss.sign(privateKey, signed);
+            expect(signature.length).toBe(testCase.signatureSize);
+            expect(verifyHSS(publicKey, signed, signature)).toBe(true);
+            expect(verifyHSS(publicKey, message, signature)).toBe(false);
+
+            // one byte of C, of the signed bottom level root and of the last
+            // authentication path node
+            const topSignatureSize = testCase.hss.lms[0].signatureSize;
+            for (const offset of [4 + 8 + 1, 4 + topSignatureSize + 55, signature.length - 1]) {
+                const tampered = signature.slice();
+                tampered[offset] ^= 1;
+                expect(verifyHSS(publicKey, signed, tampered)).toBe(false);
+            }
+        }
+    }, 60000);
+
+    it('should round trip private keys', () => {
+        const { privateKey } = hss.generateKeyPair(seed, I);
+        privateKey.index = 2 ** 33 + 5;
+        const encoded = hss.encodePrivateKey(privateKey);
+        expect(encoded.length).toBe(4 + 2 * 8 + 8 + 16 + 32);
+        expect(hss.decodePrivateKey(encoded)).toEqual(privateKey);
+
+        const other = new HSS([{ lmsType: LMSType.SHA256_M32_H5, otsType: LMOTSType.SHA256_N32_W8 }]);
+        expect(() => other.decodePrivateKey(encoded)).toThrow(InvalidEncodingError);
+    });
+});
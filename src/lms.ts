@@ -0,0 +1,713 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { sha256 } from '@noble/hashes/sha2';
+import { BDSTraversal, MerkleTreeHasher, TreeHashBuilder } from './bds';
+import { BufferUtil } from './utils';
+import { InvalidEncodingError, InvalidLengthError, InvalidParameterError, KeyReuseError } from './errors';
+
+// Leighton-Micali hash-based signatures, RFC 8554 (and NIST SP 800-208):
+// the LM-OTS one-time scheme, LMS Merkle trees of LM-OTS keys and the
+// multi-level HSS scheme, with SHA-256 and n = m = 32.
+//
+// Public keys and signatures use the byte formats of the RFC, so they
+// interoperate with other implementations and HSMs. Private keys are a seed
+// and an identifier from which every one-time key is derived as in RFC 8554
+// Appendix A; lower HSS levels are derived from the level above.
+
+const N = 32;
+const I_SIZE = 16;
+
+// Domain separation constants of RFC 8554 section 3.
+const D_PBLC = 0x8080;
+const D_MESG = 0x8181;
+const D_LEAF = 0x8282;
+const D_INTR = 0x8383;
+
+// Derivation indexes for values other than the one-time key chains, as in the
+// reference implementation (github.com/cisco/hash-sigs). They are above every
+// chain index so they never collide with x_q[i].
+const D_CHILD_SEED = 0xFFFE;
+const D_CHILD_I = 0xFFFF;
+const D_RANDOMIZER = 0xFFFD;
+
+// LMOTSType: The LM-OTS typecodes of RFC 8554 section 4.1.
+export enum LMOTSType {
+    SHA256_N32_W1 = 1,
+    SHA256_N32_W2 = 2,
+    SHA256_N32_W4 = 3,
+    SHA256_N32_W8 = 4,
+}
+
+// LMSType: The LMS typecodes of RFC 8554 section 5.1.
+export enum LMSType {
+    SHA256_M32_H5 = 5,
+    SHA256_M32_H10 = 6,
+    SHA256_M32_H15 = 7,
+    SHA256_M32_H20 = 8,
+    SHA256_M32_H25 = 9,
+}
+
+// LM-OTS parameters of RFC 8554 Table 1: w, p and ls.
+const LMOTS_PARAMETERS: Record<LMOTSType, { w: number, p: number, ls: number }> = {
+    [LMOTSType.SHA256_N32_W1]: { w: 1, p: 265, ls: 7 },
+    [LMOTSType.SHA256_N32_W2]: { w: 2, p: 133, ls: 6 },
+    [LMOTSType.SHA256_N32_W4]: { w: 4, p: 67, ls: 4 },
+    [LMOTSType.SHA256_N32_W8]: { w: 8, p: 34, ls: 0 },
+};
+
+const LMS_HEIGHTS: Record<LMSType, number> = {
+    [LMSType.SHA256_M32_H5]: 5,
+    [LMSType.SHA256_M32_H10]: 10,
+    [LMSType.SHA256_M32_H15]: 15,
+    [LMSType.SHA256_M32_H20]: 20,
+    [LMSType.SHA256_M32_H25]: 25,
+};
+
+function u32str(value: number): Uint8Array {
+    return BufferUtil.toBytes(value, 4);
+}
+
+function u16str(value: number): Uint8Array {
+    return BufferUtil.toBytes(value, 2);
+}
+
+function readU32(data: Uint8Array, offset: number): number {
+    if (offset + 4 > data.length) {
+        throw new InvalidEncodingError("LMS data is too short");
+    }
+    return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+function checkIdentifier(I: Uint8Array): void {
+    if (I.length !== I_SIZE) {
+        throw new InvalidLengthError(`identifier length must be ${I_SIZE} bytes`, 'I', I_SIZE, I.length);
+    }
+}
+
+function checkSeed(seed: Uint8Array): void {
+    if (seed.length !== N) {
+        throw new InvalidLengthError(`seed length must be ${N} bytes`, 'seed', N, seed.length);
+    }
+}
+
+// derive: H(I || u32str(q) || u16str(j) || u8str(0xff) || SEED), the
+// pseudorandom key generation of RFC 8554 Appendix A.
+function derive(I: Uint8Array, seed: Uint8Array, q: number, j: number): Uint8Array {
+    const input = BufferUtil.concat(I, u32str(q), u16str(j), new Uint8Array([0xFF]), seed);
+    const output = sha256(input);
+    input.fill(0);
+    return output;
+}
+
+// LMOTS: The LM-OTS one-time signature scheme of RFC 8554 section 4.
+// Keys are identified by the LMS identifier `I` and leaf number `q`.
+export class LMOTS {
+    public readonly type: LMOTSType;
+
+    // W: The Winternitz parameter, the number of bits per chain.
+    public readonly w: number;
+
+    // P: The number of chains.
+    public readonly p: number;
+
+    // Ls: The left shift of the checksum.
+    public readonly ls: number;
+
+    // SignatureSize: u32str(type) || C || y[0] || ... || y[p-1]
+    public readonly signatureSize: number;
+
+    constructor(type: LMOTSType) {
+        const parameters = LMOTS_PARAMETERS[type];
+        if (parameters === undefined) {
+            throw new InvalidParameterError(`unknown LM-OTS type ${type}`);
+        }
+        this.type = type;
+        this.w = parameters.w;
+        this.p = parameters.p;
+        this.ls = parameters.ls;
+        this.signatureSize = 4 + N * (this.p + 1);
+    }
+
+    // coef: The i-th w bit digit of S, RFC 8554 section 3.1.3.
+    private coef(S: Uint8Array, i: number): number {
+        const digitsPerByte = 8 / this.w;
+        const byte = S[Math.floor((i * this.w) / 8)];
+        return ((2 ** this.w) - 1) & (byte >> (8 - (this.w * (i % digitsPerByte) + this.w)));
+    }
+
+    // digits: The p chain positions for a message hash Q, its digits
+    // followed by the digits of its checksum (section 4.4).
+    private digits(Q: Uint8Array): number[] {
+        const max = 2 ** this.w - 1;
+        let sum = 0;
+        for (let i = 0; i < (N * 8) / this.w; i++) {
+            sum += max - this.coef(Q, i);
+        }
+        const withChecksum = BufferUtil.concat(Q, u16str((sum << this.ls) & 0xFFFF));
+        const digits: number[] = new Array(this.p);
+        for (let i = 0; i < this.p; i++) {
+            digits[i] = this.coef(withChecksum, i);
+        }
+        return digits;
+    }
+
+    // chain: Iterate the chain function from step `start` to `end`, exclusive.
+    // The result is never `value` itself, so callers can zero their input.
+    private chain(I: Uint8Array, q: number, i: number, value: Uint8Array, start: number, end: number): Uint8Array {
+        const buffer = new Uint8Array(I_SIZE + 4 + 2 + 1 + N);
+        buffer.set(I, 0);
+        buffer.set(u32str(q), I_SIZE);
+        buffer.set(u16str(i), I_SIZE + 4);
+        let tmp: Uint8Array = value.slice();
+        for (let j = start; j < end; j++) {
+            buffer[I_SIZE + 6] = j;
+            buffer.set(tmp, I_SIZE + 7);
+            tmp = sha256(buffer);
+        }
+        buffer.fill(0);
+        return tmp;
+    }
+
+    // messageHash: Q = H(I || u32str(q) || u16str(D_MESG) || C || message).
+    private messageHash(I: Uint8Array, q: number, C: Uint8Array, message: Uint8Array): Uint8Array {
+        return sha256(BufferUtil.concat(I, u32str(q), u16str(D_MESG), C, message));
+    }
+
+    // publicKeyHash: K = H(I || u32str(q) || u16str(D_PBLC) || y[0] || ... || y[p-1]).
+    private publicKeyHash(I: Uint8Array, q: number, ends: Uint8Array[]): Uint8Array {
+        return sha256(BufferUtil.concat(I, u32str(q), u16str(D_PBLC), ...ends));
+    }
+
+    // generatePublicKeyHash: K, the public key of the one-time key `q`
+    // derived from `seed` (Algorithm 1, with the x_q[i] of Appendix A).
+    public generatePublicKeyHash(I: Uint8Array, seed: Uint8Array, q: number): Uint8Array {
+        checkIdentifier(I);
+        checkSeed(seed);
+        const ends: Uint8Array[] = new Array(this.p);
+        for (let i = 0; i < this.p; i++) {
+            const x = derive(I, seed, q, i);
+            ends[i] = this.chain(I, q, i, x, 0, 2 ** this.w - 1);
+            x.fill(0);
+        }
+        return this.publicKeyHash(I, q, ends);
+    }
+
+    // sign: Sign a message with the one-time key `q` (Algorithm 3). The
+    // randomizer C is derived from the seed, so signatures are deterministic.
+    public sign(I: Uint8Array, seed: Uint8Array, q: number, message: Uint8Array): Uint8Array {
+        checkIdentifier(I);
+        checkSeed(seed);
+        const C = derive(I, seed, q, D_RANDOMIZER);
+        const digits = this.digits(this.messageHash(I, q, C, message));
+        const parts: Uint8Array[] = [u32str(this.type), C];
+        for (let i = 0; i < this.p; i++) {
+            const x = derive(I, seed, q, i);
+            parts.push(this.chain(I, q, i, x, 0, digits[i]));
+            x.fill(0);
+        }
+        return BufferUtil.concat(...parts);
+    }
+
+    // recoverPublicKeyHash: The candidate public key Kc of a signature
+    // (Algorithm 4b). It only equals K if the signature is valid.
+    public recoverPublicKeyHash(I: Uint8Array, q: number, message: Uint8Array, signature: Uint8Array): Uint8Array {
+        checkIdentifier(I);
+        if (signature.length !== this.signatureSize) {
+            throw new InvalidEncodingError(`LM-OTS signature length must be ${this.signatureSize} bytes`);
+        }
+        if (readU32(signature, 0) !== this.type) {
+            throw new InvalidEncodingError(`LM-OTS signature type must be ${this.type}`);
+        }
+        const C = signature.subarray(4, 4 + N);
+        const digits = this.digits(this.messageHash(I, q, C, message));
+        const ends: Uint8Array[] = new Array(this.p);
+        for (let i = 0; i < this.p; i++) {
+            const y = signature.subarray(4 + N * (i + 1), 4 + N * (i + 2));
+            ends[i] = this.chain(I, q, i, y, digits[i], 2 ** this.w - 1);
+        }
+        return this.publicKeyHash(I, q, ends);
+    }
+}
+
+// LMSPrivateKey: The seed and identifier every one-time key of a tree is
+// derived from, and the next unused leaf `q`. `sign` advances `q`, so
+// callers MUST persist the key after every signature.
+export interface LMSPrivateKey {
+    lmsType: LMSType;
+    otsType: LMOTSType;
+    I: Uint8Array;
+    seed: Uint8Array;
+    q: number;
+}
+
+// LMS: The LMS Merkle tree scheme of RFC 8554 section 5.
+export class LMS {
+    public readonly type: LMSType;
+    public readonly lmots: LMOTS;
+
+    // Height: The `h` parameter, the tree has 2^h one-time keys.
+    public readonly height: number;
+    public readonly numLeaves: number;
+
+    // PublicKeySize: u32str(type) || u32str(otstype) || I || T[1]
+    public readonly publicKeySize: number;
+
+    // SignatureSize: u32str(q) || LM-OTS signature || u32str(type) || path[0] || ... || path[h-1]
+    public readonly signatureSize: number;
+
+    constructor(type: LMSType, otsType: LMOTSType) {
+        const height = LMS_HEIGHTS[type];
+        if (height === undefined) {
+            throw new InvalidParameterError(`unknown LMS type ${type}`);
+        }
+        this.type = type;
+        this.lmots = new LMOTS(otsType);
+        this.height = height;
+        this.numLeaves = 2 ** height;
+        this.publicKeySize = 8 + I_SIZE + N;
+        this.signatureSize = 8 + this.lmots.signatureSize + height * N;
+    }
+
+    // leaf: T[2^h + q] = H(I || u32str(2^h + q) || u16str(D_LEAF) || K_q).
+    private leafHash(I: Uint8Array, q: number, K: Uint8Array): Uint8Array {
+        return sha256(BufferUtil.concat(I, u32str(this.numLeaves + q), u16str(D_LEAF), K));
+    }
+
+    // interiorHash: T[r] = H(I || u32str(r) || u16str(D_INTR) || T[2r] || T[2r+1]).
+    private interiorHash(I: Uint8Array, r: number, left: Uint8Array, right: Uint8Array): Uint8Array {
+        return sha256(BufferUtil.concat(I, u32str(r), u16str(D_INTR), left, right));
+    }
+
+    // hasher: The leaves and node hash of the tree of `I` and `seed`, with
+    // nodes counted from the left within their level as in BDSTraversal.
+    private hasher(I: Uint8Array, seed: Uint8Array): MerkleTreeHasher {
+        return {
+            leaf: (q) => this.leafHash(I, q, this.lmots.generatePublicKeyHash(I, seed, q)),
+            hashNodes: (left, right, height, index) =>
+                this.interiorHash(I, 2 ** (this.height - height - 1) + index, left, right)
+        };
+    }
+
+    // node: The node at `height` and `index` counted from the left, which is
+    // T[2^(h - height) + index], built with treehash.
+    private node(I: Uint8Array, seed: Uint8Array, height: number, index: number): Uint8Array {
+        const hasher = this.hasher(I, seed);
+        if (height === 0) {
+            return hasher.leaf(index);
+        }
+        const builder = new TreeHashBuilder(hasher.hashNodes, height, index * 2 ** height);
+        builder.pushFrom(hasher);
+        return builder.root();
+    }
+
+    // generateKeyPair: Compute the tree root T[1] (Algorithm 5 and 6).
+    public generateKeyPair(I: Uint8Array, seed: Uint8Array): { publicKey: Uint8Array, privateKey: LMSPrivateKey } {
+        checkIdentifier(I);
+        checkSeed(seed);
+        const root = this.node(I, seed, this.height, 0);
+        return {
+            publicKey: BufferUtil.concat(u32str(this.type), u32str(this.lmots.type), I, root),
+            privateKey: { lmsType: this.type, otsType: this.lmots.type, I: I.slice(), seed: seed.slice(), q: 0 }
+        };
+    }
+
+    // createTraversal: A BDS traversal state for the private key, positioned
+    // at its next unused leaf, as `XMSS.createTraversal`. Creating it builds
+    // the whole tree once, after which each signature computes about
+    // (h - k) / 2 leaves. `k` defaults to 2, or 1 for odd heights.
+    public createTraversal(privateKey: LMSPrivateKey, k: number = this.height % 2 === 0 ? 2 : 1): BDSTraversal {
+        const hasher = this.hasher(privateKey.I, privateKey.seed);
+        const { traversal } = BDSTraversal.initialize(hasher, this.height, k);
+        const target = Math.min(privateKey.q, this.numLeaves - 1);
+        while (traversal.leafIndex < target) {
+            traversal.next(hasher);
+        }
+        return traversal;
+    }
+
+    // sign: Sign a message with the next unused leaf (Algorithm 5 of section 5.4.1).
+    // As in XMSS, `q` is advanced before the signature is computed.
+    // Without a `traversal` the authentication path is rebuilt from every
+    // one-time key of the tree, which is only practical for small heights
+    // (seconds at h = 10, hours at h = 20); sign with a traversal from `createTraversal`
+    // for anything larger. The traversal moves on to the next leaf and must
+    // be saved along with the private key.
+    public sign(privateKey: LMSPrivateKey, message: Uint8Array, traversal?: BDSTraversal): Uint8Array {
+        if (privateKey.lmsType !== this.type || privateKey.otsType !== this.lmots.type) {
+            throw new InvalidParameterError("private key types do not match this LMS instance");
+        }
+        const q = privateKey.q;
+        if (!Number.isInteger(q) || q < 0 || q >= this.numLeaves) {
+            throw new KeyReuseError("LMS private key has no unused leaves left", q);
+        }
+        if (traversal !== undefined && (traversal.height !== this.height || traversal.leafIndex !== q)) {
+            throw new InvalidParameterError(
+                `traversal is at leaf ${traversal.leafIndex} of a height ${traversal.height} tree, ` +
+                `expected leaf ${q} of a height ${this.height} tree`
+            );
+        }
+        privateKey.q = q + 1;
+
+        const { I, seed } = privateKey;
+        const parts: Uint8Array[] = [u32str(q), this.lmots.sign(I, seed, q, message), u32str(this.type)];
+        if (traversal !== undefined) {
+            parts.push(...traversal.authPath());
+            if (q < this.numLeaves - 1) {
+                traversal.next(this.hasher(I, seed));
+            }
+        } else {
+            for (let i = 0; i < this.height; i++) {
+                parts.push(this.node(I, seed, i, (q >>> i) ^ 1));
+            }
+        }
+        return BufferUtil.concat(...parts);
+    }
+
+    // verify: Verify an LMS signature (Algorithm 6a). The public key must be
+    // of this instance's types; use `verifyLMS` to verify any LMS key.
+    public verify(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+        const { lmsType, otsType } = parseLMSPublicKey(publicKey);
+        if (lmsType !== this.type || otsType !== this.lmots.type) {
+            return false;
+        }
+        return verifyLMS(publicKey, message, signature);
+    }
+
+    // rootFromSignature: The candidate root Tc of Algorithm 6a.
+    public rootFromSignature(I: Uint8Array, message: Uint8Array, signature: Uint8Array): Uint8Array {
+        if (signature.length !== this.signatureSize) {
+            throw new InvalidEncodingError(`LMS signature length must be ${this.signatureSize} bytes`);
+        }
+        const q = readU32(signature, 0);
+        if (q >= this.numLeaves) {
+            throw new InvalidEncodingError(`LMS leaf ${q} is out of range`);
+        }
+        const otsSignature = signature.subarray(4, 4 + this.lmots.signatureSize);
+        if (readU32(signature, 4 + this.lmots.signatureSize) !== this.type) {
+            throw new InvalidEncodingError(`LMS signature type must be ${this.type}`);
+        }
+
+        const Kc = this.lmots.recoverPublicKeyHash(I, q, message, otsSignature);
+        let nodeNumber = this.numLeaves + q;
+        let tmp = this.leafHash(I, q, Kc);
+        const pathStart = 8 + this.lmots.signatureSize;
+        for (let i = 0; nodeNumber > 1; i++) {
+            const sibling = signature.subarray(pathStart + i * N, pathStart + (i + 1) * N);
+            const parent = nodeNumber >>> 1;
+            tmp = (nodeNumber & 1) === 1
+                ? this.interiorHash(I, parent, sibling, tmp)
+                : this.interiorHash(I, parent, tmp, sibling);
+            nodeNumber = parent;
+        }
+        return tmp;
+    }
+}
+
+// parseLMSPublicKey: Split an LMS public key into its fields.
+export function parseLMSPublicKey(publicKey: Uint8Array): {
+    lmsType: LMSType,
+    otsType: LMOTSType,
+    I: Uint8Array,
+    root: Uint8Array
+} {
+    const lmsType = readU32(publicKey, 0);
+    const otsType = readU32(publicKey, 4);
+    if (LMS_HEIGHTS[lmsType as LMSType] === undefined || LMOTS_PARAMETERS[otsType as LMOTSType] === undefined) {
+        throw new InvalidEncodingError(`unsupported LMS public key types ${lmsType}/${otsType}`);
+    }
+    if (publicKey.length !== 8 + I_SIZE + N) {
+        throw new InvalidEncodingError(`LMS public key length must be ${8 + I_SIZE + N} bytes`);
+    }
+    return {
+        lmsType,
+        otsType,
+        I: publicKey.slice(8, 8 + I_SIZE),
+        root: publicKey.slice(8 + I_SIZE)
+    };
+}
+
+// lmsSignatureLength: The length of the LMS signature at `offset`, read from
+// its typecodes, so HSS signatures can be split into their parts. Undefined
+// if the data is too short or the typecodes are unknown.
+function lmsSignatureLength(data: Uint8Array, offset: number): number | undefined {
+    if (offset + 8 > data.length) {
+        return undefined;
+    }
+    const ots = LMOTS_PARAMETERS[readU32(data, offset + 4) as LMOTSType];
+    if (ots === undefined) {
+        return undefined;
+    }
+    const otsLength = 4 + N * (ots.p + 1);
+    if (offset + otsLength + 8 > data.length) {
+        return undefined;
+    }
+    const height = LMS_HEIGHTS[readU32(data, offset + 4 + otsLength) as LMSType];
+    if (height === undefined) {
+        return undefined;
+    }
+    return 8 + otsLength + height * N;
+}
+
+// isLMSPublicKey: Whether `data` is an LMS public key of supported types.
+function isLMSPublicKey(data: Uint8Array): boolean {
+    return data.length === 8 + I_SIZE + N
+        && LMS_HEIGHTS[readU32(data, 0) as LMSType] !== undefined
+        && LMOTS_PARAMETERS[readU32(data, 4) as LMOTSType] !== undefined;
+}
+
+// verifyLMS: Verify an LMS signature with the typecodes of the public key
+// (Algorithm 6). Signatures of other types than the key are invalid.
+export function verifyLMS(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+    const { lmsType, otsType, I, root } = parseLMSPublicKey(publicKey);
+    if (signature.length < 8 || readU32(signature, 4) !== otsType) {
+        return false;
+    }
+    const lms = new LMS(lmsType, otsType);
+    if (signature.length !== lms.signatureSize
+        || readU32(signature, 4 + lms.lmots.signatureSize) !== lmsType
+        || readU32(signature, 0) >= lms.numLeaves) {
+        return false;
+    }
+    return BufferUtil.equals(lms.rootFromSignature(I, message, signature), root);
+}
+
+// treeKey: Identifies the LMS tree of `I` and `seed` in the HSS caches. Two
+// keys may share `I`, so the seed is part of it, hashed so that the cache
+// holds no secret.
+function treeKey(I: Uint8Array, seed: Uint8Array): string {
+    const input = BufferUtil.concat(I, seed);
+    const key = BufferUtil.toHex(sha256(input));
+    input.fill(0);
+    return key;
+}
+
+// HSSLevel: The LMS and LM-OTS types of one HSS level, top level first.
+export interface HSSLevel {
+    lmsType: LMSType;
+    otsType: LMOTSType;
+}
+
+// HSSPrivateKey: The top level seed and identifier and the index of the next
+// unused signature. The trees below the top are derived from their parent
+// tree's seed and leaf, so the index is the whole signing state. `sign`
+// advances it, so callers MUST persist the key after every signature.
+export interface HSSPrivateKey {
+    levels: HSSLevel[];
+    I: Uint8Array;
+    seed: Uint8Array;
+    index: number;
+}
+
+// HSS: The Hierarchical Signature System of RFC 8554 section 6. Each level
+// signs the public key of the tree below it, and the bottom level signs
+// messages, so a key can make 2^(h_0 + ... + h_{L-1}) signatures while only
+// the tree currently in use at each level has to be computed.
+export class HSS {
+    public readonly levels: HSSLevel[];
+    public readonly lms: LMS[];
+
+    // NumSignatures: The total number of signatures of a key pair.
+    public readonly numSignatures: number;
+
+    // PublicKeySize: u32str(L) || top level LMS public key
+    public readonly publicKeySize: number;
+
+    // SignatureSize: u32str(L - 1) || (LMS signature || LMS public key) per level above the bottom || LMS signature
+    public readonly signatureSize: number;
+
+    // The signed public key of the current tree at each level below the top,
+    // by the identifier of that tree, so consecutive signatures reuse them.
+    // Child identifiers are derived from the parent's seed, so keys that
+    // share a top level identifier never share an entry.
+    private readonly signedPublicKeys = new Map<number, { key: string, value: Uint8Array }>();
+
+    // The BDS traversal of the current tree at each level, by treeKey, so
+    // consecutive leaves of a tree do not rebuild its authentication paths.
+    private readonly traversals = new Map<number, { key: string, traversal: BDSTraversal }>();
+
+    constructor(levels: HSSLevel[]) {
+        if (levels.length < 1 || levels.length > 8) {
+            throw new InvalidParameterError("HSS must have between 1 and 8 levels");
+        }
+        this.levels = levels.map(level => ({ ...level }));
+        this.lms = levels.map(level => new LMS(level.lmsType, level.otsType));
+        const totalHeight = this.lms.reduce((sum, lms) => sum + lms.height, 0);
+        if (totalHeight > 53) {
+            throw new InvalidParameterError("HSS signature count must fit in a safe integer");
+        }
+        this.numSignatures = 2 ** totalHeight;
+        this.publicKeySize = 4 + this.lms[0].publicKeySize;
+        this.signatureSize = 4 + this.lms.reduce((sum, lms, i) =>
+            sum + lms.signatureSize + (i > 0 ? lms.publicKeySize : 0), 0);
+    }
+
+    // generateKeyPair: Compute the top level tree. `seed` is SEED and `I`
+    // the identifier of the top level LMS key.
+    public generateKeyPair(seed: Uint8Array, I: Uint8Array): { publicKey: Uint8Array, privateKey: HSSPrivateKey } {
+        const { publicKey } = this.lms[0].generateKeyPair(I, seed);
+        return {
+            publicKey: BufferUtil.concat(u32str(this.levels.length), publicKey),
+            privateKey: { levels: this.levels.map(level => ({ ...level })), I: I.slice(), seed: seed.slice(), index: 0 }
+        };
+    }
+
+    // deriveChild: The identifier and seed of the tree signed by leaf `q` of a
+    // tree, derived as in the reference implementation.
+    public static deriveChild(I: Uint8Array, seed: Uint8Array, q: number): { I: Uint8Array, seed: Uint8Array } {
+        return {
+            I: derive(I, seed, q, D_CHILD_I).slice(0, I_SIZE),
+            seed: derive(I, seed, q, D_CHILD_SEED)
+        };
+    }
+
+    // sign: Sign a message with the next unused bottom level leaf.
+    // The index is advanced before the signature is computed.
+    public sign(privateKey: HSSPrivateKey, message: Uint8Array): Uint8Array {
+        if (privateKey.levels.length !== this.levels.length || privateKey.levels.some((level, i) =>
+            level.lmsType !== this.levels[i].lmsType || level.otsType !== this.levels[i].otsType)) {
+            throw new InvalidParameterError("private key levels do not match this HSS instance");
+        }
+        const index = privateKey.index;
+        if (!Number.isInteger(index) || index < 0 || index >= this.numSignatures) {
+            throw new KeyReuseError("HSS private key has no unused signatures left", index);
+        }
+        privateKey.index = index + 1;
+
+        // Split the index into one leaf per level, the bottom level in the low bits
+        const leaves: number[] = new Array(this.levels.length);
+        let rest = index;
+        for (let level = this.levels.length - 1; level >= 0; level--) {
+            leaves[level] = rest % this.lms[level].numLeaves;
+            rest = Math.floor(rest / this.lms[level].numLeaves);
+        }
+
+        const parts: Uint8Array[] = [u32str(this.levels.length - 1)];
+        let I = privateKey.I;
+        let seed = privateKey.seed;
+        for (let level = 0; level < this.levels.length - 1; level++) {
+            const child = HSS.deriveChild(I, seed, leaves[level]);
+            parts.push(this.signedPublicKey(level, I, seed, leaves[level], child));
+            I = child.I;
+            seed = child.seed;
+        }
+        parts.push(this.signLeaf(this.levels.length - 1, I, seed, leaves[this.levels.length - 1], message));
+        return BufferUtil.concat(...parts);
+    }
+
+    // signLeaf: Sign with leaf `q` of the tree of `I` and `seed` at `level`,
+    // keeping a BDS traversal of the tree for the leaves that follow.
+    private signLeaf(level: number, I: Uint8Array, seed: Uint8Array, q: number, message: Uint8Array): Uint8Array {
+        const lms = this.lms[level];
+        const privateKey = { ...this.levels[level], I, seed, q };
+        const key = treeKey(I, seed);
+        let cached = this.traversals.get(level);
+        if (cached === undefined || cached.key !== key || cached.traversal.leafIndex !== q) {
+            cached = { key, traversal: lms.createTraversal(privateKey) };
+            this.traversals.set(level, cached);
+        }
+        return lms.sign(privateKey, message, cached.traversal);
+    }
+
+    // signedPublicKey: signed_pub_key of section 6.2, the signature by leaf `q`
+    // at `level` of the child's public key, followed by that public key.
+    private signedPublicKey(
+        level: number,
+        I: Uint8Array,
+        seed: Uint8Array,
+        q: number,
+        child: { I: Uint8Array, seed: Uint8Array }
+    ): Uint8Array {
+        const key = BufferUtil.toHex(child.I);
+        const cached = this.signedPublicKeys.get(level);
+        if (cached !== undefined && cached.key === key) {
+            return cached.value;
+        }
+        const childPublicKey = this.lms[level + 1].generateKeyPair(child.I, child.seed).publicKey;
+        const signature = this.signLeaf(level, I, seed, q, childPublicKey);
+        const value = BufferUtil.concat(signature, childPublicKey);
+        this.signedPublicKeys.set(level, { key, value });
+        return value;
+    }
+
+    // verify: Verify an HSS signature (section 6.3). The number of levels and
+    // every type are read from the public key and signature.
+    public verify(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+        return verifyHSS(publicKey, message, signature);
+    }
+
+    // encodePrivateKey: u32str(L) || (u32str(lmsType) || u32str(otsType)) per level
+    // || u64str(index) || I || SEED. RFC 8554 does not define a private key format.
+    public encodePrivateKey(privateKey: HSSPrivateKey): Uint8Array {
+        checkIdentifier(privateKey.I);
+        checkSeed(privateKey.seed);
+        return BufferUtil.concat(
+            u32str(privateKey.levels.length),
+            ...privateKey.levels.flatMap(level => [u32str(level.lmsType), u32str(level.otsType)]),
+            BufferUtil.toBytes(privateKey.index, 8),
+            privateKey.I,
+            privateKey.seed
+        );
+    }
+
+    // decodePrivateKey: The inverse of `encodePrivateKey`.
+    public decodePrivateKey(data: Uint8Array): HSSPrivateKey {
+        const expected = 4 + 8 * this.levels.length + 8 + I_SIZE + N;
+        if (data.length !== expected || readU32(data, 0) !== this.levels.length) {
+            throw new InvalidEncodingError(`HSS private key must be ${expected} bytes for ${this.levels.length} levels`);
+        }
+        const levels = this.levels.map((level, i) => {
+            if (readU32(data, 4 + 8 * i) !== level.lmsType || readU32(data, 8 + 8 * i) !== level.otsType) {
+                throw new InvalidEncodingError("HSS private key types do not match this HSS instance");
+            }
+            return { ...level };
+        });
+        const offset = 4 + 8 * this.levels.length;
+        const index = readU32(data, offset) * 2 ** 32 + readU32(data, offset + 4);
+        return {
+            levels,
+            I: data.slice(offset + 8, offset + 8 + I_SIZE),
+            seed: data.slice(offset + 8 + I_SIZE),
+            index
+        };
+    }
+}
+
+// verifyHSS: Verify an HSS signature against an HSS public key. As with
+// `verifyLMS`, a malformed public key throws an InvalidEncodingError while a
+// malformed or truncated signature is just invalid.
+export function verifyHSS(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+    const levels = readU32(publicKey, 0);
+    let key = publicKey.subarray(4);
+    parseLMSPublicKey(key);
+    if (signature.length < 4 || readU32(signature, 0) + 1 !== levels) {
+        return false;
+    }
+
+    let offset = 4;
+    for (let i = 0; i < levels - 1; i++) {
+        const signatureLength = lmsSignatureLength(signature, offset);
+        if (signatureLength === undefined) {
+            return false;
+        }
+        const lmsSignature = signature.subarray(offset, offset + signatureLength);
+        const childKey = signature.subarray(offset + signatureLength, offset + signatureLength + 8 + I_SIZE + N);
+        if (!isLMSPublicKey(childKey) || !verifyLMS(key, childKey, lmsSignature)) {
+            return false;
+        }
+        key = childKey;
+        offset += signatureLength + childKey.length;
+    }
+    return verifyLMS(key, message, signature.subarray(offset));
+}
@@ -0,0 +1,156 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { KeyStateStore } from './keymanager';
+import {
+    KeystoreContents,
+    KeystoreJSON,
+    decryptContents,
+    deriveKey,
+    encryptContents,
+    parseKeystore
+} from './keystore';
+import { InvalidEncodingError } from './errors';
+
+// Node only entry point, `hashsigs/node`.
+//
+// The state stores here keep signing state in files, so they need the Node
+// `fs` and `path` modules. The main entry has no Node dependencies and can
+// be bundled for browsers.
+
+// FileStateStore keeps the state in a small JSON file.
+// Writes go to a temporary file which is fsynced and then renamed over the
+// old one, so the file always holds either the old or the new state.
+export class FileStateStore implements KeyStateStore {
+    public readonly filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    public load(): number {
+        let contents: string;
+        try {
+            contents = fs.readFileSync(this.filePath, 'utf8');
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return 0;
+            }
+            throw err;
+        }
+
+        let state;
+        try {
+            state = JSON.parse(contents);
+        } catch {
+            throw new InvalidEncodingError(`invalid key state file ${this.filePath}`);
+        }
+        if (state === null || typeof state !== 'object' || state.version !== 1 || !Number.isSafeInteger(state.nextIndex) || state.nextIndex < 0) {
+            throw new InvalidEncodingError(`invalid key state file ${this.filePath}`);
+        }
+        return state.nextIndex;
+    }
+
+    public save(nextIndex: number): void {
+        writeFileAtomic(this.filePath, JSON.stringify({ version: 1, nextIndex }));
+    }
+}
+
+// writeFileAtomic: Replace `filePath` with `data` so that a crash leaves
+// either the old or the new contents. The data is written to a temporary
+// file which is fsynced and then renamed over the old one. The temporary
+// name is unique, so concurrent writers never share a temporary file.
+// `mode` sets the permissions of the new file, 0o600 for secrets.
+export function writeFileAtomic(filePath: string, data: string, mode = 0o666): void {
+    const tmpPath = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    try {
+        const fd = fs.openSync(tmpPath, 'wx', mode);
+        try {
+            fs.writeSync(fd, data);
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(tmpPath, filePath);
+    } catch (err) {
+        fs.rmSync(tmpPath, { force: true });
+        throw err;
+    }
+
+    // Persist the rename itself. Not every platform can open a directory.
+    try {
+        const dirFd = fs.openSync(path.dirname(filePath), 'r');
+        try {
+            fs.fsyncSync(dirFd);
+        } finally {
+            fs.closeSync(dirFd);
+        }
+    } catch {
+        // best effort
+    }
+}
+
+// KeystoreStateStore keeps the used-index counter of a WOTSKeyManager inside
+// an encrypted keystore file, next to the seeds. The key is derived once, on
+// first use, and every save re-encrypts the file with a fresh nonce.
+export class KeystoreStateStore implements KeyStateStore {
+    public readonly filePath: string;
+    private readonly password: string | Uint8Array;
+    private key?: Uint8Array;
+
+    constructor(filePath: string, password: string | Uint8Array) {
+        this.filePath = filePath;
+        this.password = typeof password === 'string' ? password : password.slice();
+    }
+
+    // contents: Decrypt the keystore file.
+    public contents(): KeystoreContents {
+        const keystore = parseKeystore(fs.readFileSync(this.filePath, 'utf8'));
+        return decryptContents(keystore, this.deriveKey(keystore));
+    }
+
+    public load(): number {
+        const contents = this.contents();
+        contents.privateSeed.fill(0);
+        return contents.nextIndex;
+    }
+
+    public save(nextIndex: number): void {
+        const keystore = parseKeystore(fs.readFileSync(this.filePath, 'utf8'));
+        const key = this.deriveKey(keystore);
+        const contents = decryptContents(keystore, key);
+        try {
+            const updated = encryptContents(keystore, key, { ...contents, nextIndex });
+            writeFileAtomic(this.filePath, JSON.stringify(updated, null, 2), 0o600);
+        } finally {
+            contents.privateSeed.fill(0);
+        }
+    }
+
+    // close: Forget the derived key.
+    public close(): void {
+        this.key?.fill(0);
+        this.key = undefined;
+    }
+
+    private deriveKey(keystore: KeystoreJSON): Uint8Array {
+        if (this.key === undefined) {
+            this.key = deriveKey(keystore, this.password);
+        }
+        return this.key;
+    }
+}
@@ -0,0 +1,119 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { WOTSPlus } from './wotsplus';
+import {
+    getParameterSet,
+    listParameterSets,
+    registerParameterSet,
+    findParameterSet,
+    encodeWithOid,
+    decodeWithOid,
+} from './params';
+import { HashId, encodeEnvelope, readEnvelopeHeader, EnvelopeKind } from './serialization';
+import { InvalidParameterError } from './errors';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import testVectors from '../test/test_vectors/wotsplus_keccak256.json';
+
+describe('parameter sets', () => {
+    const hexToUint8Array = (hex: string): Uint8Array =>
+        new Uint8Array(Buffer.from(hex.startsWith('0x') ? hex.slice(2) : hex, 'hex'));
+
+    it('should have unique names and OIDs', () => {
+        const sets = listParameterSets();
+        expect(new Set(sets.map(set => set.name)).size).toBe(sets.length);
+        expect(new Set(sets.map(set => set.oid)).size).toBe(sets.length);
+        for (const name of ['WOTSP-KECCAK256-W16', 'WOTSP-SHA256-W16', 'WOTSP-SHAKE256-W16', 'WOTSP-SHA256-N24-W16']) {
+            expect(getParameterSet(name).name).toBe(name);
+        }
+    });
+
+    it('should round-trip signatures with every built-in set', () => {
+        for (const set of listParameterSets()) {
+            const wotsPlus = WOTSPlus.fromParameterSet(set.name);
+            expect(wotsPlus.parameterSet).toBe(set);
+            expect(wotsPlus.hashLen).toBe(set.hashLen);
+            expect(wotsPlus.chainLen).toBe(set.chainLen);
+            expect(set.hashFunction(new Uint8Array(1)).length).toBeGreaterThanOrEqual(set.hashLen);
+
+            const privateSeed = new Uint8Array(set.hashLen).fill(1);
+            const publicSeed = new Uint8Array(set.hashLen).fill(2);
+            const message = new Uint8Array(set.hashLen).fill(3);
+            const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+            const signature = wotsPlus.sign(privateKey, publicSeed, message);
+            expect(wotsPlus.verify(publicKey, message, signature), set.name).toBe(true);
+        }
+    });
+
+    it('should match the existing keccak256 test vectors', () => {
+        const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-KECCAK256-W16');
+        const vector = testVectors.vector0;
+        expect(wotsPlus.verify(
+            hexToUint8Array(vector.publicKey),
+            hexToUint8Array(vector.message),
+            vector.signature.map(hexToUint8Array)
+        )).toBe(true);
+    });
+
+    it('should look up sets by OID and envelope header', () => {
+        const set = getParameterSet('WOTSP-SHAKE256-W16');
+        expect(getParameterSet(set.oid)).toBe(set);
+        expect(WOTSPlus.fromParameterSet(set.oid).parameterSet).toBe(set);
+
+        const wotsPlus = WOTSPlus.fromParameterSet(set.name);
+        const envelope = encodeEnvelope(wotsPlus, set.hashId, EnvelopeKind.PublicKey, new Uint8Array(64));
+        expect(findParameterSet(readEnvelopeHeader(envelope))).toBe(set);
+        expect(findParameterSet({ hashId: HashId.SHA256, hashLen: 16, chainLen: 16 })).toBeUndefined();
+    });
+
+    it('should prefix serialized data with the OID', () => {
+        const set = getParameterSet('WOTSP-SHA256-N24-W16');
+        const encoded = encodeWithOid(set, new Uint8Array([0xaa, 0xbb]));
+        expect(encoded).toEqual(new Uint8Array([0x00, 0x00, 0x00, 0x13, 0xaa, 0xbb]));
+
+        const { parameterSet, payload } = decodeWithOid(encoded);
+        expect(parameterSet).toBe(set);
+        expect(payload).toEqual(new Uint8Array([0xaa, 0xbb]));
+
+        expect(() => decodeWithOid(new Uint8Array([0, 0, 0]))).toThrow();
+        expect(() => decodeWithOid(new Uint8Array([0xff, 0xff, 0xff, 0xff]))).toThrow(/unknown/);
+    });
+
+    it('should register custom sets and reject duplicates', () => {
+        registerParameterSet({
+            name: 'TEST-KECCAK256-W256',
+            oid: 0x7fff0001,
+            hashId: HashId.Keccak256,
+            hashFunction: keccak_256,
+            hashLen: 32,
+            chainLen: 256,
+        });
+        expect(WOTSPlus.fromParameterSet('TEST-KECCAK256-W256').numSignatureChunks).toBe(34);
+
+        const duplicate = { ...getParameterSet('WOTSP-KECCAK256-W16') };
+        expect(() => registerParameterSet(duplicate)).toThrow(/already registered/);
+        expect(() => registerParameterSet({ ...duplicate, name: 'OTHER' })).toThrow(/OID/);
+        expect(() => WOTSPlus.fromParameterSet('NOPE')).toThrow(/unknown parameter set/);
+    });
+
+    it('should reject a parameter set that does not match the configuration', () => {
+        const set = getParameterSet('WOTSP-KECCAK256-W16');
+        expect(new WOTSPlus(keccak_256, 32, 16, 'quip', set).parameterId).toBe(set.name);
+        expect(() => new WOTSPlus(keccak_256, 32, 16, 'rfc8391', set)).toThrow(InvalidParameterError);
+        expect(() => new WOTSPlus(keccak_256, 32, 4, 'quip', set)).toThrow(/does not match/);
+        expect(() => new WOTSPlus(keccak_256, 24, 16, 'quip', set)).toThrow(/does not match/);
+        expect(() => new WOTSPlus(sha256, 32, 16, 'quip', set)).toThrow(/does not match/);
+    });
+});
@@ -0,0 +1,134 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { keccak_256, shake256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { HashFunction } from './wotsplus';
+import { HashId } from './serialization';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// ParameterSet: a named, numbered combination of hash function, `n` and `w`.
+// Both sides of a protocol agree on a name (or OID) instead of on a raw
+// HashFunction and positional constructor arguments.
+export interface ParameterSet {
+    // Name: e.g. "WOTSP-KECCAK256-W16"
+    name: string;
+    // OID: numeric identifier written in front of serialized data
+    oid: number;
+    hashId: HashId;
+    hashFunction: HashFunction;
+    // HashLen: the WOTS+ `n` parameter in bytes
+    hashLen: number;
+    // ChainLen: the WOTS+ `w` parameter
+    chainLen: number;
+}
+
+// OID_SIZE: OIDs are serialized as 4 big-endian bytes, as in XMSS RFC 8391.
+export const OID_SIZE = 4;
+
+// SHAKE256 squeezed to `dkLen` bytes, keeping the incremental interface.
+const shake256WithLength = (dkLen: number): HashFunction => Object.assign(
+    (data: Uint8Array) => shake256(data, { dkLen }),
+    { create: () => shake256.create({ dkLen }) }
+);
+
+const shake256_32 = shake256WithLength(32);
+const shake256_24 = shake256WithLength(24);
+
+// Built-in parameter sets. The n=24 SHA-256 and keccak256 sets truncate the
+// hash output, SHAKE256 is squeezed to the right length directly.
+const BUILTIN_PARAMETER_SETS: ParameterSet[] = [
+    { name: 'WOTSP-KECCAK256-W16', oid: 0x00000001, hashId: HashId.Keccak256, hashFunction: keccak_256, hashLen: 32, chainLen: 16 },
+    { name: 'WOTSP-KECCAK256-W4', oid: 0x00000002, hashId: HashId.Keccak256, hashFunction: keccak_256, hashLen: 32, chainLen: 4 },
+    { name: 'WOTSP-KECCAK256-N24-W16', oid: 0x00000003, hashId: HashId.Keccak256, hashFunction: keccak_256, hashLen: 24, chainLen: 16 },
+    { name: 'WOTSP-SHA256-W16', oid: 0x00000011, hashId: HashId.SHA256, hashFunction: sha256, hashLen: 32, chainLen: 16 },
+    { name: 'WOTSP-SHA256-W4', oid: 0x00000012, hashId: HashId.SHA256, hashFunction: sha256, hashLen: 32, chainLen: 4 },
+    { name: 'WOTSP-SHA256-N24-W16', oid: 0x00000013, hashId: HashId.SHA256, hashFunction: sha256, hashLen: 24, chainLen: 16 },
+    { name: 'WOTSP-SHAKE256-W16', oid: 0x00000021, hashId: HashId.SHAKE256, hashFunction: shake256_32, hashLen: 32, chainLen: 16 },
+    { name: 'WOTSP-SHAKE256-W4', oid: 0x00000022, hashId: HashId.SHAKE256, hashFunction: shake256_32, hashLen: 32, chainLen: 4 },
+    { name: 'WOTSP-SHAKE256-N24-W16', oid: 0x00000023, hashId: HashId.SHAKE256, hashFunction: shake256_24, hashLen: 24, chainLen: 16 },
+];
+
+const parameterSetsByName = new Map<string, ParameterSet>();
+const parameterSetsByOid = new Map<number, ParameterSet>();
+
+// registerParameterSet: Add a parameter set to the registry.
+// Names and OIDs must be unique.
+export function registerParameterSet(parameterSet: ParameterSet): void {
+    if (parameterSetsByName.has(parameterSet.name)) {
+        throw new InvalidParameterError(`parameter set ${parameterSet.name} is already registered`);
+    }
+    if (!Number.isInteger(parameterSet.oid) || parameterSet.oid < 0 || parameterSet.oid > 0xFFFFFFFF) {
+        throw new InvalidParameterError("parameter set OID must fit in 4 bytes");
+    }
+    if (parameterSetsByOid.has(parameterSet.oid)) {
+        throw new InvalidParameterError(`parameter set OID ${parameterSet.oid} is already registered`);
+    }
+    const frozen = Object.freeze({ ...parameterSet });
+    parameterSetsByName.set(frozen.name, frozen);
+    parameterSetsByOid.set(frozen.oid, frozen);
+}
+
+BUILTIN_PARAMETER_SETS.forEach(registerParameterSet);
+
+// getParameterSet: Look up a parameter set by name or OID.
+export function getParameterSet(nameOrOid: string | number): ParameterSet {
+    const parameterSet = typeof nameOrOid === 'string'
+        ? parameterSetsByName.get(nameOrOid)
+        : parameterSetsByOid.get(nameOrOid);
+    if (parameterSet === undefined) {
+        throw new InvalidParameterError(`unknown parameter set ${nameOrOid}`);
+    }
+    return parameterSet;
+}
+
+// listParameterSets: Every registered parameter set, in registration order.
+export function listParameterSets(): ParameterSet[] {
+    return Array.from(parameterSetsByName.values());
+}
+
+// findParameterSet: The parameter set matching a hash id, `n` and `w`,
+// e.g. from an envelope header, or undefined if none is registered.
+export function findParameterSet(params: {
+    hashId: number,
+    hashLen: number,
+    chainLen: number
+}): ParameterSet | undefined {
+    return listParameterSets().find(set =>
+        set.hashId === params.hashId &&
+        set.hashLen === params.hashLen &&
+        set.chainLen === params.chainLen
+    );
+}
+
+// encodeWithOid: Prefix serialized data with the 4 byte OID of its parameter set.
+export function encodeWithOid(parameterSet: ParameterSet, data: Uint8Array): Uint8Array {
+    return BufferUtil.concat(BufferUtil.toBytes(parameterSet.oid, OID_SIZE), data);
+}
+
+// decodeWithOid: Split OID-prefixed data into its parameter set and payload.
+export function decodeWithOid(data: Uint8Array): {
+    parameterSet: ParameterSet,
+    payload: Uint8Array
+} {
+    if (data.length < OID_SIZE) {
+        throw new InvalidLengthError(`data must be at least ${OID_SIZE} bytes`, 'data', OID_SIZE, data.length);
+    }
+    const oid = ((data[0] << 24) | (data[1] << 16) | (data[2] << 8) | data[3]) >>> 0;
+    return {
+        parameterSet: getParameterSet(oid),
+        payload: data.slice(OID_SIZE)
+    };
+}
@@ -0,0 +1,45 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expectTypeOf } from 'vitest';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { WOTSPlus } from './wotsplus';
+import { DestroyedWOTSPrivateKey, WOTSPrivateKey, WOTSSignResult } from './privatekey';
+
+// Type tests, checked by `tsc` and `vitest --typecheck`: a key that destroys
+// itself cannot be asked for a second signature.
+describe('WOTSPrivateKey types', () => {
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const seed = new Uint8Array(32);
+    const message = new Uint8Array(32);
+
+    it('should only let a self-destroying key sign once', () => {
+        const key = WOTSPrivateKey.generate(wotsPlus, seed, seed);
+        const result = key.sign(message);
+        expectTypeOf(result).toEqualTypeOf<WOTSSignResult>();
+        expectTypeOf(result.key).toEqualTypeOf<DestroyedWOTSPrivateKey>();
+
+        // @ts-expect-error: sign is not callable on the returned handle
+        result.key.sign(message);
+    });
+
+    it('should return the bare signature without autoDestroy', () => {
+        const key = WOTSPrivateKey.generate(wotsPlus, seed, seed, { autoDestroy: false });
+        expectTypeOf(key.sign(message)).toEqualTypeOf<Uint8Array[]>();
+
+        const destroyed: WOTSPrivateKey<false> = key;
+        destroyed.destroy();
+        // @ts-expect-error: sign is not callable after destroy()
+        destroyed.sign(message);
+    });
+});
@@ -0,0 +1,95 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import * as util from 'util';
+import { WOTSPrivateKey } from './privatekey';
+import { WOTSPlus } from './wotsplus';
+import { Address } from './address';
+import { KeyReuseError } from './errors';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+
+describe('WOTSPrivateKey', () => {
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const privateSeed = new Uint8Array(32).fill(1);
+    const publicSeed = new Uint8Array(32).fill(2);
+    const message = keccak_256(new TextEncoder().encode('Hello World'));
+    const otherMessage = keccak_256(new TextEncoder().encode('Goodbye World'));
+
+    it('should sign like WOTSPlus and destroy itself by default', () => {
+        const key = WOTSPrivateKey.generate(wotsPlus, privateSeed, publicSeed);
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        expect(key.publicKey).toEqual(publicKey);
+        expect(key.autoDestroy).toBe(true);
+
+        const { signature, key: used } = key.sign(message);
+        expect(signature).toEqual(wotsPlus.sign(privateKey, publicSeed, message));
+        expect(wotsPlus.verify(key.publicKey, message, signature)).toBe(true);
+
+        expect(used).toBe(key);
+        expect(key.destroyed).toBe(true);
+        expect(() => key.sign(message)).toThrow(KeyReuseError);
+        expect(() => key.sign(message)).toThrow(/destroyed/);
+    });
+
+    it('should only ever sign one message', () => {
+        const key: WOTSPrivateKey<false> = WOTSPrivateKey.generate(wotsPlus, privateSeed, publicSeed, { autoDestroy: false });
+        const signature = key.sign(message);
+        expect(key.destroyed).toBe(false);
+        expect(key.sign(message)).toEqual(signature);
+        expect(() => key.sign(otherMessage)).toThrow(KeyReuseError);
+
+        key.destroy();
+        expect(key.destroyed).toBe(true);
+        // @ts-expect-error: sign is not callable on a destroyed handle
+        expect(() => key.sign(message)).toThrow(KeyReuseError);
+    });
+
+    it('should keep the secret out of logs and JSON', () => {
+        const { privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        const key = WOTSPrivateKey.fromBytes(wotsPlus, privateKey, publicSeed);
+        const secretHex = Buffer.from(privateKey).toString('hex');
+
+        expect(JSON.stringify(key)).not.toContain(secretHex);
+        expect(util.inspect(key, { depth: 5 })).not.toContain(secretHex.slice(0, 16));
+        expect(Object.values(key).some(value =>
+            value instanceof Uint8Array && Buffer.from(value).toString('hex') === secretHex)).toBe(false);
+    });
+
+    it('should wipe the caller-visible buffers and scratch space', () => {
+        const { privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        const key: WOTSPrivateKey = WOTSPrivateKey.fromBytes(wotsPlus, privateKey, publicSeed, { autoDestroy: false });
+        key.sign(message);
+
+        // Every scratch buffer of the signer is zero after signing, apart
+        // from the constant padding of the RFC 8391 buffers.
+        const scratch = wotsPlus as unknown as Record<string, Uint8Array>;
+        for (const name of ['prfBuffer', 'xorBuffer', 'segmentBuffer']) {
+            expect(scratch[name].every(b => b === 0), name).toBe(true);
+        }
+
+        // the copy inside the handle is wiped on destroy, the caller's is untouched
+        key.destroy();
+        expect(privateKey.some(b => b !== 0)).toBe(true);
+    });
+
+    it('should support RFC 8391 keys', () => {
+        const rfc = new WOTSPlus(sha256, 32, 16, 'rfc8391');
+        const address = new Address().setOTSAddress(7);
+        const key = WOTSPrivateKey.generate(rfc, privateSeed, publicSeed, { address });
+        const digest = sha256(message);
+        expect(rfc.verify(key.publicKey, digest, key.sign(digest).signature, address)).toBe(true);
+        expect(() => WOTSPrivateKey.fromBytes(rfc, new Uint8Array(31), publicSeed)).toThrow(/private key length/);
+    });
+});
@@ -0,0 +1,170 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { WOTSPlus } from './wotsplus';
+import { Address } from './address';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, KeyReuseError } from './errors';
+
+// WOTSPrivateKeyOptions configure a WOTSPrivateKey.
+// - autoDestroy: wipe the key as soon as it has signed (default true).
+// - address: the OTS address of the key in RFC 8391 mode.
+export interface WOTSPrivateKeyOptions<AutoDestroy extends boolean = boolean> {
+    autoDestroy?: AutoDestroy;
+    address?: Address;
+}
+
+// DestroyedWOTSPrivateKey is the type of a handle after `destroy()`: the
+// compiler rejects any further call to `sign`.
+export type DestroyedWOTSPrivateKey = WOTSPrivateKey & {
+    readonly destroyed: true;
+    sign: never;
+};
+
+// WOTSSignResult is what `sign` returns for keys with `autoDestroy`: the
+// signature and the same handle, typed as destroyed, so the type of the
+// result says that the key cannot sign again.
+export interface WOTSSignResult {
+    signature: Uint8Array[];
+    key: DestroyedWOTSPrivateKey;
+}
+
+// WOTSPrivateKey is an opaque handle to a WOTS+ private key that can only sign.
+//
+// A one-time key signs at most one message: signing a different message
+// throws a KeyReuseError. With `autoDestroy` (the default) the key is wiped
+// right after its signature, so nothing is left to leak or reuse, and `sign`
+// returns a WOTSSignResult whose `key` cannot call `sign` again. Keys created
+// with `autoDestroy: false` keep the type WOTSPrivateKey<false>, get the bare
+// signature and can re-sign the same message until `destroy()` is called.
+//
+// `destroy()` is an assertion: once it has been called on a variable declared
+// with an explicit type, e.g. `const key: WOTSPrivateKey = ...`, calling
+// `key.sign` is a type error.
+export class WOTSPrivateKey<AutoDestroy extends boolean = boolean> {
+    public readonly wotsPlus: WOTSPlus;
+    public readonly publicKey: Uint8Array;
+    public readonly autoDestroy: AutoDestroy;
+
+    // The secret lives in ES private fields so it never shows up when the
+    // handle is logged, serialized to JSON or inspected.
+    #privateKey: Uint8Array;
+    #publicSeed: Uint8Array;
+    #address?: Address;
+    #signedMessage?: Uint8Array;
+    #destroyed = false;
+
+    private constructor(
+        wotsPlus: WOTSPlus,
+        privateKey: Uint8Array,
+        publicSeed: Uint8Array,
+        publicKey: Uint8Array,
+        autoDestroy: AutoDestroy,
+        address?: Address
+    ) {
+        this.wotsPlus = wotsPlus;
+        this.#privateKey = privateKey;
+        this.#publicSeed = publicSeed;
+        this.publicKey = publicKey;
+        this.autoDestroy = autoDestroy;
+        this.#address = address?.clone();
+    }
+
+    // generate: Generate a key pair and wrap its private key. The caller
+    // should wipe `privateSeed` once it is no longer needed.
+    public static generate<AutoDestroy extends boolean = true>(
+        wotsPlus: WOTSPlus,
+        privateSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        options: WOTSPrivateKeyOptions<AutoDestroy> = {}
+    ): WOTSPrivateKey<AutoDestroy> {
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed, options.address);
+        return new WOTSPrivateKey(
+            wotsPlus,
+            privateKey,
+            publicSeed.slice(),
+            publicKey,
+            (options.autoDestroy ?? true) as AutoDestroy,
+            options.address
+        );
+    }
+
+    // fromBytes: Wrap an existing private key. The bytes are copied, so the
+    // caller should wipe `privateKey` afterwards.
+    public static fromBytes<AutoDestroy extends boolean = true>(
+        wotsPlus: WOTSPlus,
+        privateKey: Uint8Array,
+        publicSeed: Uint8Array,
+        options: WOTSPrivateKeyOptions<AutoDestroy> = {}
+    ): WOTSPrivateKey<AutoDestroy> {
+        if (privateKey.length !== wotsPlus.hashLen) {
+            throw new InvalidLengthError(
+                `private key length must be ${wotsPlus.hashLen} bytes`,
+                'privateKey', wotsPlus.hashLen, privateKey.length
+            );
+        }
+        const publicKey = wotsPlus.derivePublicKey(privateKey, publicSeed, options.address);
+        return new WOTSPrivateKey(
+            wotsPlus,
+            privateKey.slice(),
+            publicSeed.slice(),
+            publicKey,
+            (options.autoDestroy ?? true) as AutoDestroy,
+            options.address
+        );
+    }
+
+    // destroyed: Whether the key has been wiped.
+    public get destroyed(): boolean {
+        return this.#destroyed;
+    }
+
+    public get publicSeed(): Uint8Array {
+        return this.#publicSeed.slice();
+    }
+
+    // sign: Sign `message`. Throws a KeyReuseError if the key was destroyed or
+    // has already signed a different message.
+    public sign(this: WOTSPrivateKey<true>, message: Uint8Array): WOTSSignResult;
+    public sign(this: WOTSPrivateKey<false>, message: Uint8Array): Uint8Array[];
+    public sign(message: Uint8Array): WOTSSignResult | Uint8Array[];
+    public sign(message: Uint8Array): WOTSSignResult | Uint8Array[] {
+        if (this.#destroyed) {
+            throw new KeyReuseError("private key has been destroyed");
+        }
+        if (this.#signedMessage !== undefined && !BufferUtil.equals(this.#signedMessage, message)) {
+            throw new KeyReuseError("one-time private key has already signed a different message");
+        }
+
+        const signature = this.wotsPlus.sign(this.#privateKey, this.#publicSeed, message, this.#address);
+        this.#signedMessage = message.slice();
+        if (!this.autoDestroy) {
+            return signature;
+        }
+        this.destroy();
+        return { signature, key: this };
+    }
+
+    // destroy: Wipe the private key and the signer's scratch buffers.
+    // The public key stays readable. Calling it again does nothing.
+    public destroy(): asserts this is DestroyedWOTSPrivateKey {
+        this.#privateKey.fill(0);
+        this.wotsPlus.zeroize();
+        this.#destroyed = true;
+    }
+
+    public toJSON(): object {
+        return { publicKey: BufferUtil.toHex(this.publicKey), destroyed: this.#destroyed };
+    }
+}
@@ -0,0 +1,41 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+// SignatureScheme: The scheme-agnostic surface shared by every signature
+// scheme, so callers can swap schemes without changing call sites.
+//
+// Keys and signatures are flat byte strings. The private key is everything
+// `signBytes` needs; for WOTS+ that is privateKey || publicSeed, the layout of
+// `encodePrivateKey`. Messages are MessageLen bytes, usually a digest.
+export interface SignatureScheme {
+    // ParameterId: A name for the scheme and its parameters, e.g.
+    // "WOTSP-KECCAK256-W16". Instances with the same id produce compatible
+    // keys and signatures only if they also use the same hash function.
+    readonly parameterId: string;
+
+    readonly messageLen: number;
+    readonly publicKeySize: number;
+    readonly privateKeySize: number;
+    readonly signatureSize: number;
+
+    // keygen: Derive a key pair from a secret and a public seed.
+    keygen(privateSeed: Uint8Array, publicSeed: Uint8Array): { publicKey: Uint8Array, privateKey: Uint8Array };
+
+    // signBytes: Sign a MessageLen byte message.
+    signBytes(privateKey: Uint8Array, message: Uint8Array): Uint8Array;
+
+    // verifyBytes: Verify a signature. Inputs of the wrong size throw an
+    // InvalidLengthError; wrong signatures return false.
+    verifyBytes(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean;
+}
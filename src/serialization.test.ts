@@ -0,0 +1,154 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { WOTSPlus } from './wotsplus';
+import {
+    encodeSignature,
+    decodeSignature,
+    encodePublicKey,
+    decodePublicKey,
+    encodePrivateKey,
+    decodePrivateKey,
+    encodeMessageSignature,
+    decodeMessageSignature,
+    encodeEnvelope,
+    decodeEnvelope,
+    readEnvelopeHeader,
+    HashId,
+    EnvelopeKind,
+    ENVELOPE_HEADER_SIZE,
+} from './serialization';
+import { keccak_256 } from '@noble/hashes/sha3';
+import testVectors from '../test/test_vectors/wotsplus_keccak256.json';
+
+describe('serialization', () => {
+    const hexToUint8Array = (hex: string): Uint8Array => {
+        hex = hex.startsWith('0x') ? hex.slice(2) : hex;
+        const arr = new Uint8Array(hex.length / 2);
+        for (let i = 0; i < arr.length; i++) {
+            arr[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+        }
+        return arr;
+    };
+
+    const vector = testVectors.vector0;
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const signature = vector.signature.map(hexToUint8Array);
+    const publicKey = hexToUint8Array(vector.publicKey);
+    const message = hexToUint8Array(vector.message);
+
+    it('should encode signatures in the Solidity bytes32[] layout', () => {
+        const encoded = encodeSignature(wotsPlus, signature);
+        expect(encoded.length).toBe(wotsPlus.signatureSize);
+        expect(encoded).toEqual(hexToUint8Array(vector.signature.map(s => s.slice(2)).join('')));
+
+        const decoded = decodeSignature(wotsPlus, encoded);
+        expect(decoded).toEqual(signature);
+        expect(wotsPlus.verify(publicKey, message, decoded)).toBe(true);
+    });
+
+    it('should round-trip public and private keys', () => {
+        const { publicSeed, publicKeyHash } = decodePublicKey(wotsPlus, publicKey);
+        expect(publicSeed).toEqual(hexToUint8Array(vector.publicSeed));
+        expect(encodePublicKey(wotsPlus, publicSeed, publicKeyHash)).toEqual(publicKey);
+
+        const privateKey = hexToUint8Array(vector.privateKey);
+        const encoded = encodePrivateKey(wotsPlus, privateKey, publicSeed);
+        const decoded = decodePrivateKey(wotsPlus, encoded);
+        expect(decoded.privateKey).toEqual(privateKey);
+        expect(decoded.publicSeed).toEqual(publicSeed);
+
+        const resigned = wotsPlus.sign(decoded.privateKey, decoded.publicSeed, message);
+        expect(resigned).toEqual(signature);
+    });
+
+    it('should reject wrong lengths', () => {
+        expect(() => encodeSignature(wotsPlus, signature.slice(1))).toThrow();
+        expect(() => encodeSignature(wotsPlus, [...signature.slice(1), new Uint8Array(31)])).toThrow();
+        expect(() => decodeSignature(wotsPlus, new Uint8Array(wotsPlus.signatureSize + 1))).toThrow();
+        expect(() => decodePublicKey(wotsPlus, publicKey.slice(1))).toThrow();
+        expect(() => encodePublicKey(wotsPlus, new Uint8Array(31), new Uint8Array(32))).toThrow();
+        expect(() => decodePrivateKey(wotsPlus, new Uint8Array(63))).toThrow();
+        expect(() => encodePrivateKey(wotsPlus, new Uint8Array(32), new Uint8Array(33))).toThrow();
+    });
+
+    it('should round-trip envelopes', () => {
+        const payload = encodeSignature(wotsPlus, signature);
+        const envelope = encodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.Signature, payload);
+        expect(envelope.length).toBe(ENVELOPE_HEADER_SIZE + wotsPlus.signatureSize);
+        expect(envelope.slice(0, ENVELOPE_HEADER_SIZE)).toEqual(
+            new Uint8Array([0x02, 0x01, 0x00, 0x01, 0x00, 0x20, 0x00, 0x10, 0x00])
+        );
+
+        expect(readEnvelopeHeader(envelope)).toEqual({
+            version: 2,
+            kind: EnvelopeKind.Signature,
+            hashId: HashId.Keccak256,
+            hashLen: 32,
+            chainLen: 16,
+            mode: 'quip',
+        });
+        expect(decodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.Signature, envelope)).toEqual(payload);
+    });
+
+    it('should reject mismatched envelopes', () => {
+        const envelope = encodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, publicKey);
+
+        expect(() => decodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.Signature, envelope)).toThrow(/kind/);
+        expect(() => decodeEnvelope(wotsPlus, HashId.SHA256, EnvelopeKind.PublicKey, envelope)).toThrow(/hash id/);
+        expect(() => decodeEnvelope(new WOTSPlus(keccak_256, 32, 4), HashId.Keccak256, EnvelopeKind.PublicKey, envelope))
+            .toThrow(/parameters/);
+        expect(() => decodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, envelope.slice(0, -1)))
+            .toThrow(/payload length/);
+
+        // same hash, n and w, but rfc8391 signatures do not verify in quip mode
+        const rfcWotsPlus = new WOTSPlus(keccak_256, 32, 16, 'rfc8391');
+        const rfcEnvelope = encodeEnvelope(rfcWotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, publicKey);
+        expect(readEnvelopeHeader(rfcEnvelope).mode).toBe('rfc8391');
+        expect(decodeEnvelope(rfcWotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, rfcEnvelope)).toEqual(publicKey);
+        expect(() => decodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, rfcEnvelope)).toThrow(/mode/);
+        expect(() => decodeEnvelope(rfcWotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, envelope)).toThrow(/mode/);
+
+        const badMode = envelope.slice();
+        badMode[8] = 0x02;
+        expect(() => readEnvelopeHeader(badMode)).toThrow(/mode/);
+
+        const badVersion = envelope.slice();
+        badVersion[0] = 0x01;
+        expect(() => readEnvelopeHeader(badVersion)).toThrow(/version/);
+        expect(() => readEnvelopeHeader(new Uint8Array(4))).toThrow();
+        expect(() => encodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.PublicKey, publicKey.slice(1))).toThrow();
+    });
+
+    it('should round-trip message signatures', () => {
+        const publicSeed = hexToUint8Array(vector.publicSeed);
+        const privateKey = hexToUint8Array(vector.privateKey);
+        const text = new TextEncoder().encode('Hello World');
+        const messageSignature = wotsPlus.signMessage(privateKey, publicKey, text);
+
+        const encoded = encodeMessageSignature(wotsPlus, messageSignature);
+        expect(encoded.length).toBe(wotsPlus.hashLen + wotsPlus.signatureSize);
+        expect(encoded.slice(0, wotsPlus.hashLen)).toEqual(messageSignature.randomizer);
+
+        const decoded = decodeMessageSignature(wotsPlus, encoded);
+        expect(wotsPlus.verifyMessage(publicKey, text, decoded)).toBe(true);
+        expect(publicSeed).toEqual(publicKey.slice(0, wotsPlus.hashLen));
+
+        const envelope = encodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.MessageSignature, encoded);
+        expect(decodeEnvelope(wotsPlus, HashId.Keccak256, EnvelopeKind.MessageSignature, envelope)).toEqual(encoded);
+
+        expect(() => decodeMessageSignature(wotsPlus, encoded.slice(1))).toThrow();
+        expect(() => encodeMessageSignature(wotsPlus, { ...messageSignature, randomizer: new Uint8Array(1) })).toThrow();
+    });
+});
@@ -0,0 +1,309 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { WOTSPlus, MessageSignature, WOTSPlusMode } from './wotsplus';
+import { BufferUtil } from './utils';
+import { InvalidEncodingError, InvalidLengthError, InvalidParameterError } from './errors';
+
+// Flat encodings
+//
+// These match the layout of the hashsigs Solidity verifier:
+// - a signature is NumSignatureChunks chunks of HashLen bytes back to back
+//   (a bytes32[] without the ABI length prefix when HashLen is 32),
+// - a public key is publicSeed || publicKeyHash,
+// - private key material is privateKey || publicSeed, everything `sign` needs.
+// - a `signMessage` signature is randomizer || signature.
+
+// encodeSignature: Concatenate the signature chunks into one buffer.
+export function encodeSignature(wotsPlus: WOTSPlus, signature: Uint8Array[]): Uint8Array {
+    if (signature.length !== wotsPlus.numSignatureChunks) {
+        throw new InvalidLengthError(
+            `signature length must be ${wotsPlus.numSignatureChunks}`,
+            'signature', wotsPlus.numSignatureChunks, signature.length
+        );
+    }
+    for (const chunk of signature) {
+        if (chunk.length !== wotsPlus.hashLen) {
+            throw new InvalidLengthError(
+                `signature chunks must be ${wotsPlus.hashLen} bytes`,
+                'signatureChunk', wotsPlus.hashLen, chunk.length
+            );
+        }
+    }
+    return BufferUtil.concat(...signature);
+}
+
+// decodeSignature: Split a flat signature back into the chunks `verify` takes.
+export function decodeSignature(wotsPlus: WOTSPlus, data: Uint8Array): Uint8Array[] {
+    if (data.length !== wotsPlus.signatureSize) {
+        throw new InvalidLengthError(
+            `encoded signature length must be ${wotsPlus.signatureSize} bytes`,
+            'encodedSignature', wotsPlus.signatureSize, data.length
+        );
+    }
+    const signature: Uint8Array[] = new Array(wotsPlus.numSignatureChunks);
+    for (let i = 0; i < wotsPlus.numSignatureChunks; i++) {
+        signature[i] = data.slice(i * wotsPlus.hashLen, (i + 1) * wotsPlus.hashLen);
+    }
+    return signature;
+}
+
+// encodePublicKey: Join the public seed and public key hash.
+export function encodePublicKey(
+    wotsPlus: WOTSPlus,
+    publicSeed: Uint8Array,
+    publicKeyHash: Uint8Array
+): Uint8Array {
+    if (publicSeed.length !== wotsPlus.hashLen) {
+        throw new InvalidLengthError(
+            `public seed length must be ${wotsPlus.hashLen} bytes`,
+            'publicSeed', wotsPlus.hashLen, publicSeed.length
+        );
+    }
+    if (publicKeyHash.length !== wotsPlus.hashLen) {
+        throw new InvalidLengthError(
+            `public key hash length must be ${wotsPlus.hashLen} bytes`,
+            'publicKeyHash', wotsPlus.hashLen, publicKeyHash.length
+        );
+    }
+    return BufferUtil.concat(publicSeed, publicKeyHash);
+}
+
+// decodePublicKey: Split a public key into its public seed and public key hash.
+export function decodePublicKey(wotsPlus: WOTSPlus, data: Uint8Array): {
+    publicSeed: Uint8Array,
+    publicKeyHash: Uint8Array
+} {
+    if (data.length !== wotsPlus.publicKeySize) {
+        throw new InvalidLengthError(
+            `encoded public key length must be ${wotsPlus.publicKeySize} bytes`,
+            'encodedPublicKey', wotsPlus.publicKeySize, data.length
+        );
+    }
+    return {
+        publicSeed: data.slice(0, wotsPlus.hashLen),
+        publicKeyHash: data.slice(wotsPlus.hashLen, wotsPlus.publicKeySize)
+    };
+}
+
+// encodePrivateKey: Join the private key and public seed.
+export function encodePrivateKey(
+    wotsPlus: WOTSPlus,
+    privateKey: Uint8Array,
+    publicSeed: Uint8Array
+): Uint8Array {
+    if (privateKey.length !== wotsPlus.hashLen) {
+        throw new InvalidLengthError(
+            `private key length must be ${wotsPlus.hashLen} bytes`,
+            'privateKey', wotsPlus.hashLen, privateKey.length
+        );
+    }
+    if (publicSeed.length !== wotsPlus.hashLen) {
+        throw new InvalidLengthError(
+            `public seed length must be ${wotsPlus.hashLen} bytes`,
+            'publicSeed', wotsPlus.hashLen, publicSeed.length
+        );
+    }
+    return BufferUtil.concat(privateKey, publicSeed);
+}
+
+// decodePrivateKey: Split private key material into the private key and public seed.
+export function decodePrivateKey(wotsPlus: WOTSPlus, data: Uint8Array): {
+    privateKey: Uint8Array,
+    publicSeed: Uint8Array
+} {
+    if (data.length !== 2 * wotsPlus.hashLen) {
+        throw new InvalidLengthError(
+            `encoded private key length must be ${2 * wotsPlus.hashLen} bytes`,
+            'encodedPrivateKey', 2 * wotsPlus.hashLen, data.length
+        );
+    }
+    return {
+        privateKey: data.slice(0, wotsPlus.hashLen),
+        publicSeed: data.slice(wotsPlus.hashLen)
+    };
+}
+
+// encodeMessageSignature: Join the randomizer and the flat signature.
+export function encodeMessageSignature(wotsPlus: WOTSPlus, messageSignature: MessageSignature): Uint8Array {
+    if (messageSignature.randomizer.length !== wotsPlus.hashLen) {
+        throw new InvalidLengthError(
+            `randomizer length must be ${wotsPlus.hashLen} bytes`,
+            'randomizer', wotsPlus.hashLen, messageSignature.randomizer.length
+        );
+    }
+    return BufferUtil.concat(
+        messageSignature.randomizer,
+        encodeSignature(wotsPlus, messageSignature.signature)
+    );
+}
+
+// decodeMessageSignature: Split a message signature into randomizer and chunks.
+export function decodeMessageSignature(wotsPlus: WOTSPlus, data: Uint8Array): MessageSignature {
+    if (data.length !== wotsPlus.hashLen + wotsPlus.signatureSize) {
+        throw new InvalidLengthError(
+            `encoded message signature length must be ${wotsPlus.hashLen + wotsPlus.signatureSize} bytes`,
+            'encodedMessageSignature', wotsPlus.hashLen + wotsPlus.signatureSize, data.length
+        );
+    }
+    return {
+        randomizer: data.slice(0, wotsPlus.hashLen),
+        signature: decodeSignature(wotsPlus, data.slice(wotsPlus.hashLen))
+    };
+}
+
+// Envelope
+//
+// An optional self-describing wrapper around the flat encodings above:
+//
+//   version (1) || kind (1) || hashId (2) || hashLen (2) || chainLen (2) || mode (1) || payload
+//
+// All integers are big-endian. Decoding checks every header field against
+// the scheme the caller expects and the payload length against its sizes.
+// Version 2 added the mode byte: 0 for quip and 1 for rfc8391 instances,
+// whose signatures do not verify under the other mode.
+
+export const ENVELOPE_VERSION = 0x02;
+export const ENVELOPE_HEADER_SIZE = 9;
+
+// The mode byte of each WOTSPlusMode.
+const ENVELOPE_MODES: readonly WOTSPlusMode[] = ['quip', 'rfc8391'];
+
+// HashId identifies the hash function a WOTSPlus instance was built with,
+// since the instance itself only holds an opaque HashFunction.
+export enum HashId {
+    Keccak256 = 0x0001,
+    SHA256 = 0x0002,
+    SHAKE256 = 0x0003,
+}
+
+// EnvelopeKind identifies what the payload holds.
+export enum EnvelopeKind {
+    Signature = 0x01,
+    PublicKey = 0x02,
+    PrivateKey = 0x03,
+    MessageSignature = 0x04,
+}
+
+export interface EnvelopeHeader {
+    version: number;
+    kind: EnvelopeKind;
+    hashId: number;
+    hashLen: number;
+    chainLen: number;
+    mode: WOTSPlusMode;
+}
+
+// payloadSize: The exact payload length for a kind of envelope.
+function payloadSize(wotsPlus: WOTSPlus, kind: EnvelopeKind): number {
+    switch (kind) {
+        case EnvelopeKind.Signature:
+            return wotsPlus.signatureSize;
+        case EnvelopeKind.PublicKey:
+            return wotsPlus.publicKeySize;
+        case EnvelopeKind.PrivateKey:
+            return 2 * wotsPlus.hashLen;
+        case EnvelopeKind.MessageSignature:
+            return wotsPlus.hashLen + wotsPlus.signatureSize;
+        default:
+            throw new InvalidParameterError(`unknown envelope kind ${kind}`);
+    }
+}
+
+// encodeEnvelope: Prefix a flat encoding with a header describing its scheme.
+export function encodeEnvelope(
+    wotsPlus: WOTSPlus,
+    hashId: number,
+    kind: EnvelopeKind,
+    payload: Uint8Array
+): Uint8Array {
+    if (payload.length !== payloadSize(wotsPlus, kind)) {
+        throw new InvalidLengthError(
+            `payload length must be ${payloadSize(wotsPlus, kind)} bytes`,
+            'payload', payloadSize(wotsPlus, kind), payload.length
+        );
+    }
+    if (!Number.isInteger(hashId) || hashId < 0 || hashId > 0xFFFF) {
+        throw new InvalidParameterError("hash id must fit in 2 bytes");
+    }
+    return BufferUtil.concat(
+        new Uint8Array([ENVELOPE_VERSION, kind]),
+        BufferUtil.toBytes(hashId, 2),
+        BufferUtil.toBytes(wotsPlus.hashLen, 2),
+        BufferUtil.toBytes(wotsPlus.chainLen, 2),
+        new Uint8Array([ENVELOPE_MODES.indexOf(wotsPlus.mode)]),
+        payload
+    );
+}
+
+// readEnvelopeHeader: Parse the header without checking it against a scheme,
+// so callers can pick the right WOTSPlus instance for `decodeEnvelope`.
+export function readEnvelopeHeader(data: Uint8Array): EnvelopeHeader {
+    if (data.length < ENVELOPE_HEADER_SIZE) {
+        throw new InvalidLengthError(
+            `envelope must be at least ${ENVELOPE_HEADER_SIZE} bytes`,
+            'envelope', ENVELOPE_HEADER_SIZE, data.length
+        );
+    }
+    if (data[0] !== ENVELOPE_VERSION) {
+        throw new InvalidEncodingError(`unsupported envelope version ${data[0]}`);
+    }
+    const mode = ENVELOPE_MODES[data[8]];
+    if (mode === undefined) {
+        throw new InvalidEncodingError(`unknown envelope mode ${data[8]}`);
+    }
+    return {
+        version: data[0],
+        kind: data[1],
+        hashId: (data[2] << 8) | data[3],
+        hashLen: (data[4] << 8) | data[5],
+        chainLen: (data[6] << 8) | data[7],
+        mode
+    };
+}
+
+// decodeEnvelope: Check an envelope against the expected scheme and kind
+// and return its payload.
+export function decodeEnvelope(
+    wotsPlus: WOTSPlus,
+    hashId: number,
+    kind: EnvelopeKind,
+    data: Uint8Array
+): Uint8Array {
+    const header = readEnvelopeHeader(data);
+    if (header.kind !== kind) {
+        throw new InvalidEncodingError(`envelope kind must be ${kind}, got ${header.kind}`);
+    }
+    if (header.hashId !== hashId) {
+        throw new InvalidEncodingError(`envelope hash id must be ${hashId}, got ${header.hashId}`);
+    }
+    if (header.hashLen !== wotsPlus.hashLen || header.chainLen !== wotsPlus.chainLen) {
+        throw new InvalidEncodingError(
+            `envelope parameters (hashLen ${header.hashLen}, chainLen ${header.chainLen}) ` +
+            `do not match (hashLen ${wotsPlus.hashLen}, chainLen ${wotsPlus.chainLen})`
+        );
+    }
+    if (header.mode !== wotsPlus.mode) {
+        throw new InvalidEncodingError(`envelope mode must be ${wotsPlus.mode}, got ${header.mode}`);
+    }
+
+    const payload = data.slice(ENVELOPE_HEADER_SIZE);
+    if (payload.length !== payloadSize(wotsPlus, kind)) {
+        throw new InvalidLengthError(
+            `payload length must be ${payloadSize(wotsPlus, kind)} bytes`,
+            'payload', payloadSize(wotsPlus, kind), payload.length
+        );
+    }
+    return payload;
+}
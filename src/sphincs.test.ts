@@ -0,0 +1,135 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { SPHINCSPlus, SPHINCSSignature, SPHINCS_PARAMETER_SETS } from './sphincs';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('SPHINCSPlus', () => {
+    // A tiny instance keeps the tests fast: 2 layers of height 3, 5 FORS trees of height 4.
+    const sphincs = new SPHINCSPlus({
+        hashFunction: keccak_256,
+        hashLen: 16,
+        height: 6,
+        layers: 2,
+        forsHeight: 4,
+        forsTrees: 5
+    });
+    const seed = (label: string): Uint8Array =>
+        keccak_256(new TextEncoder().encode(label)).slice(0, 16);
+    const { publicKey, privateKey } = sphincs.generateKeyPair(seed('secret'), seed('prf'), seed('public'));
+    const message = new TextEncoder().encode('stateless hello');
+
+    const copySignature = (signature: SPHINCSSignature): SPHINCSSignature =>
+        sphincs.decodeSignature(sphincs.encodeSignature(signature));
+
+    it('should match the FIPS 205 sizes for the built-in parameter sets', () => {
+        const sizes: Record<string, number> = {
+            '128S': 7856, '128F': 17088, '192S': 16224, '192F': 35664, '256S': 29792, '256F': 49856
+        };
+        for (const parameterSet of SPHINCS_PARAMETER_SETS) {
+            const instance = SPHINCSPlus.fromParameterSet(parameterSet.name);
+            expect(instance.parameterSet).toBe(parameterSet);
+            expect(instance.signatureSize).toBe(sizes[parameterSet.name.slice(-4)]);
+            expect(instance.publicKeySize).toBe(2 * parameterSet.hashLen);
+        }
+        expect(() => SPHINCSPlus.fromParameterSet('SPHINCS-MD5-128S')).toThrow(/unknown parameter set/);
+    });
+
+    it('should sign and verify', () => {
+        expect(publicKey.length).toBe(sphincs.publicKeySize);
+        expect(publicKey.slice(sphincs.hashLen)).toEqual(privateKey.root);
+
+        const signature = sphincs.sign(privateKey, message);
+        expect(sphincs.verify(publicKey, message, signature)).toBe(true);
+        expect(sphincs.encodeSignature(signature).length).toBe(sphincs.signatureSize);
+        expect(sphincs.verify(publicKey, message, copySignature(signature))).toBe(true);
+        expect(sphincs.verify(publicKey, new TextEncoder().encode('stateless hellO'), signature)).toBe(false);
+    });
+
+    it('should sign many messages with the same private key', () => {
+        for (let i = 0; i < 4; i++) {
+            const signed = new TextEncoder().encode(`message ${i}`);
+            expect(sphincs.verify(publicKey, signed, sphincs.sign(privateKey, signed))).toBe(true);
+        }
+    }, 30000);
+
+    it('should be deterministic unless randomized', () => {
+        const first = sphincs.sign(privateKey, message, { randomized: false });
+        const second = sphincs.sign(privateKey, message, { randomized: false });
+        expect(sphincs.encodeSignature(first)).toEqual(sphincs.encodeSignature(second));
+
+        const hedged = sphincs.sign(privateKey, message);
+        expect(hedged.randomizer).not.toEqual(first.randomizer);
+        expect(sphincs.verify(publicKey, message, hedged)).toBe(true);
+
+        const withOptRand = sphincs.sign(privateKey, message, { optRand: seed('opt rand') });
+        expect(sphincs.sign(privateKey, message, { optRand: seed('opt rand') }).randomizer)
+            .toEqual(withOptRand.randomizer);
+    }, 30000);
+
+    it('should pin the key pair and signature', () => {
+        // Regression values for this implementation, not SLH-DSA test vectors.
+        const signature = sphincs.encodeSignature(sphincs.sign(privateKey, message, { randomized: false }));
+        expect(Buffer.from(publicKey).toString('hex')).toBe('3c0c3a2537aaf75b853bbf2b595e872d22bd60232558239920c368659f12b86a');
+        expect(Buffer.from(keccak_256(signature)).toString('hex')).toBe('663ae999d8d6f2f9f2c70d44626cb68a99ea02b3b0b074344782c0ee404b2d3c');
+    });
+
+    it('should reject tampered signatures', () => {
+        const signature = sphincs.sign(privateKey, message);
+
+        const randomizer = copySignature(signature);
+        randomizer.randomizer[0] ^= 1;
+        expect(sphincs.verify(publicKey, message, randomizer)).toBe(false);
+
+        const fors = copySignature(signature);
+        fors.forsSignature[3].secretKey[5] ^= 1;
+        expect(sphincs.verify(publicKey, message, fors)).toBe(false);
+
+        const wots = copySignature(signature);
+        wots.layers[1].wotsSignature[10][0] ^= 1;
+        expect(sphincs.verify(publicKey, message, wots)).toBe(false);
+
+        const authPath = copySignature(signature);
+        authPath.layers[0].authPath[2][15] ^= 1;
+        expect(sphincs.verify(publicKey, message, authPath)).toBe(false);
+
+        const other = sphincs.generateKeyPair(seed('secret 2'), seed('prf'), seed('public')).publicKey;
+        expect(sphincs.verify(other, message, signature)).toBe(false);
+    });
+
+    it('should reject malformed input', () => {
+        const signature = sphincs.sign(privateKey, message);
+        expect(() => sphincs.verify(publicKey.slice(1), message, signature)).toThrow(/public key length/);
+        expect(() => sphincs.verify(publicKey, message, { ...signature, layers: signature.layers.slice(1) }))
+            .toThrow(/2 layers/);
+        expect(() => sphincs.decodeSignature(new Uint8Array(sphincs.signatureSize - 1))).toThrow(/encoded signature/);
+        expect(() => sphincs.generateKeyPair(seed('secret').slice(1), seed('prf'), seed('public'))).toThrow(/secretSeed/);
+        expect(() => sphincs.sign(privateKey, message, { optRand: new Uint8Array(3) })).toThrow(/optRand/);
+    });
+
+    it('should reject inconsistent parameters', () => {
+        const base = { hashFunction: keccak_256, hashLen: 16, forsHeight: 4, forsTrees: 5 };
+        expect(() => new SPHINCSPlus({ ...base, height: 7, layers: 2 })).toThrow(/multiple/);
+        expect(() => new SPHINCSPlus({ ...base, height: 42, layers: 2 })).toThrow(/between 1 and 20/);
+        expect(() => new SPHINCSPlus({ ...base, height: 84, layers: 6 })).toThrow(/64 bits/);
+    });
+
+    it('should sign and verify with a built-in fast parameter set', () => {
+        const fast = SPHINCSPlus.fromParameterSet('SPHINCS-KECCAK256-128F');
+        const keys = fast.generateKeyPair(seed('secret'), seed('prf'), seed('public'));
+        const signature = fast.sign(keys.privateKey, message);
+        expect(fast.encodeSignature(signature).length).toBe(17088);
+        expect(fast.verify(keys.publicKey, message, signature)).toBe(true);
+    }, 30000);
+});
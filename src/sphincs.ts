@@ -0,0 +1,514 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+import { randomBytes } from '@noble/hashes/utils';
+import { HashFunction, WOTSPlus } from './wotsplus';
+import { FORS, FORSSignature } from './fors';
+import { TweakableHash } from './tweakable';
+import { Address, AddressType } from './address';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// SPHINCS+ style stateless signatures (the structure of SLH-DSA, FIPS 205).
+//
+// A message digest picks a random FORS key pair at the bottom of a hypertree:
+// `layers` layers of XMSS trees of height `height / layers` each, whose leaves
+// are WOTS+ key pairs. The FORS key pair signs the digest, each XMSS tree
+// signs the root of the tree below it, and the top tree's root is the public
+// key. With 2^height FORS key pairs to pick from, signers never need to
+// remember which ones they used, so any number of replicas can share a key.
+//
+// WOTS+ uses WOTSPlus in RFC 8391 mode. FORS, the XMSS trees and the WOTS+
+// public key compression use the TweakableHash "simple" construction. The
+// hash functions differ from FIPS 205, so signatures are not interoperable
+// with SLH-DSA implementations, but sizes and security levels match.
+
+// SPHINCSParameters: The parameters of a SPHINCS+ instance.
+export interface SPHINCSParameters {
+    hashFunction: HashFunction;
+    // HashLen: the `n` parameter in bytes
+    hashLen: number;
+    // Height: the `h` parameter, the total height of the hypertree
+    height: number;
+    // Layers: the `d` parameter, the number of XMSS layers
+    layers: number;
+    // ForsHeight: the FORS `a` parameter
+    forsHeight: number;
+    // ForsTrees: the FORS `k` parameter
+    forsTrees: number;
+    // ChainLen: the WOTS+ `w` parameter, 16 unless given
+    chainLen?: number;
+}
+
+export interface SPHINCSParameterSet extends SPHINCSParameters {
+    // Name: e.g. "SPHINCS-KECCAK256-128S"
+    name: string;
+}
+
+// Built-in parameter sets, with the n, h, d, a and k of the FIPS 205 sets.
+// "S" sets have small signatures and slow signing, "F" sets sign fast but
+// have larger signatures.
+export const SPHINCS_PARAMETER_SETS: readonly SPHINCSParameterSet[] = Object.freeze([
+    { name: 'SPHINCS-KECCAK256-128S', hashFunction: keccak_256, hashLen: 16, height: 63, layers: 7, forsHeight: 12, forsTrees: 14 },
+    { name: 'SPHINCS-KECCAK256-128F', hashFunction: keccak_256, hashLen: 16, height: 66, layers: 22, forsHeight: 6, forsTrees: 33 },
+    { name: 'SPHINCS-KECCAK256-192S', hashFunction: keccak_256, hashLen: 24, height: 63, layers: 7, forsHeight: 14, forsTrees: 17 },
+    { name: 'SPHINCS-KECCAK256-192F', hashFunction: keccak_256, hashLen: 24, height: 66, layers: 22, forsHeight: 8, forsTrees: 33 },
+    { name: 'SPHINCS-KECCAK256-256S', hashFunction: keccak_256, hashLen: 32, height: 64, layers: 8, forsHeight: 14, forsTrees: 22 },
+    { name: 'SPHINCS-KECCAK256-256F', hashFunction: keccak_256, hashLen: 32, height: 68, layers: 17, forsHeight: 9, forsTrees: 35 },
+    { name: 'SPHINCS-SHA256-128S', hashFunction: sha256, hashLen: 16, height: 63, layers: 7, forsHeight: 12, forsTrees: 14 },
+    { name: 'SPHINCS-SHA256-128F', hashFunction: sha256, hashLen: 16, height: 66, layers: 22, forsHeight: 6, forsTrees: 33 },
+    { name: 'SPHINCS-SHA256-192S', hashFunction: sha256, hashLen: 24, height: 63, layers: 7, forsHeight: 14, forsTrees: 17 },
+    { name: 'SPHINCS-SHA256-192F', hashFunction: sha256, hashLen: 24, height: 66, layers: 22, forsHeight: 8, forsTrees: 33 },
+    { name: 'SPHINCS-SHA256-256S', hashFunction: sha256, hashLen: 32, height: 64, layers: 8, forsHeight: 14, forsTrees: 22 },
+    { name: 'SPHINCS-SHA256-256F', hashFunction: sha256, hashLen: 32, height: 68, layers: 17, forsHeight: 9, forsTrees: 35 },
+].map(parameterSet => Object.freeze(parameterSet)));
+
+// HypertreeLayerSignature: The XMSS signature of one layer, a WOTS+ signature
+// of the root below and the authentication path of the signing leaf.
+export interface HypertreeLayerSignature {
+    wotsSignature: Uint8Array[];
+    authPath: Uint8Array[];
+}
+
+// SPHINCSSignature: The randomizer R, the FORS signature of the message
+// digest and one XMSS signature per layer, bottom layer first.
+export interface SPHINCSSignature {
+    randomizer: Uint8Array;
+    forsSignature: FORSSignature;
+    layers: HypertreeLayerSignature[];
+}
+
+// SPHINCSPrivateKey: SK.seed, SK.prf and the public key. Nothing in it
+// changes when signing, so it can be copied to every signer.
+export interface SPHINCSPrivateKey {
+    secretSeed: Uint8Array;
+    prfSeed: Uint8Array;
+    publicSeed: Uint8Array;
+    root: Uint8Array;
+}
+
+export class SPHINCSPlus {
+    private readonly hashFn: HashFunction;
+    private readonly tweakable: TweakableHash;
+    private readonly digestLen: number;
+
+    // WOTSPlus: The one-time signature scheme of the XMSS leaves.
+    public readonly wotsPlus: WOTSPlus;
+
+    // FORS: The few-time signature scheme that signs message digests.
+    public readonly fors: FORS;
+
+    // HashLen: The `n` security parameter.
+    public readonly hashLen: number;
+
+    // Height: The total hypertree height `h`.
+    public readonly height: number;
+
+    // Layers: The number of XMSS layers `d`.
+    public readonly layers: number;
+
+    // TreeHeight: h / d, the height of each XMSS tree.
+    public readonly treeHeight: number;
+
+    // PublicKeySize: publicSeed || root
+    public readonly publicKeySize: number;
+
+    // SignatureSize: randomizer || FORS signature || one XMSS signature per layer
+    public readonly signatureSize: number;
+
+    // ParameterSet: The parameter set this instance was built from,
+    // if it was built with `fromParameterSet` or given one.
+    public readonly parameterSet?: SPHINCSParameterSet;
+
+    constructor(parameters: SPHINCSParameters, parameterSet?: SPHINCSParameterSet) {
+        const { hashFunction, hashLen, height, layers, forsHeight, forsTrees, chainLen = 16 } = parameters;
+        if (!Number.isInteger(layers) || layers < 1 || !Number.isInteger(height) || height % layers !== 0) {
+            throw new InvalidParameterError("Height must be a multiple of the number of layers");
+        }
+        // Every XMSS tree is rebuilt while signing, as in XMSS we allow heights up to 20.
+        if (height / layers < 1 || height / layers > 20) {
+            throw new InvalidParameterError("XMSS tree height must be between 1 and 20");
+        }
+        if (height - height / layers > 64) {
+            throw new InvalidParameterError("tree addresses must fit in 64 bits");
+        }
+
+        this.hashFn = hashFunction;
+        this.parameterSet = parameterSet;
+        this.tweakable = new TweakableHash(hashFunction, hashLen);
+        this.wotsPlus = new WOTSPlus(hashFunction, hashLen, chainLen, 'rfc8391');
+        this.fors = new FORS(hashFunction, hashLen, forsHeight, forsTrees);
+        this.hashLen = hashLen;
+        this.height = height;
+        this.layers = layers;
+        this.treeHeight = height / layers;
+        this.digestLen = this.fors.messageLen
+            + Math.ceil((height - this.treeHeight) / 8)
+            + Math.ceil(this.treeHeight / 8);
+
+        this.publicKeySize = 2 * hashLen;
+        this.signatureSize = hashLen + this.fors.signatureSize
+            + layers * (this.wotsPlus.signatureSize + this.treeHeight * hashLen);
+    }
+
+    // fromParameterSet: Build an instance from a built-in parameter set by name.
+    public static fromParameterSet(name: string): SPHINCSPlus {
+        const parameterSet = SPHINCS_PARAMETER_SETS.find(set => set.name === name);
+        if (parameterSet === undefined) {
+            throw new InvalidParameterError(`unknown parameter set ${name}`);
+        }
+        return new SPHINCSPlus(parameterSet, parameterSet);
+    }
+
+    // generateKeyPair: Compute the root of the top XMSS tree.
+    // The public key is publicSeed || root, as for WOTS+ and XMSS.
+    public generateKeyPair(secretSeed: Uint8Array, prfSeed: Uint8Array, publicSeed: Uint8Array): {
+        publicKey: Uint8Array,
+        privateKey: SPHINCSPrivateKey
+    } {
+        this.checkLength(secretSeed, 'secretSeed');
+        this.checkLength(prfSeed, 'prfSeed');
+        this.checkLength(publicSeed, 'publicSeed');
+
+        const address = new Address().setLayerAddress(this.layers - 1);
+        const root = this.xmssNode(secretSeed, publicSeed, 0, this.treeHeight, address);
+        return {
+            publicKey: BufferUtil.concat(publicSeed, root),
+            privateKey: {
+                secretSeed: secretSeed.slice(),
+                prfSeed: prfSeed.slice(),
+                publicSeed: publicSeed.slice(),
+                root
+            }
+        };
+    }
+
+    // sign: Sign a message of any length.
+    // By default the randomizer is keyed with fresh randomness (hedged
+    // signing). Pass `randomized: false` for deterministic signatures, or
+    // `optRand` to use specific randomness.
+    public sign(
+        privateKey: SPHINCSPrivateKey,
+        message: Uint8Array,
+        options: { optRand?: Uint8Array, randomized?: boolean } = {}
+    ): SPHINCSSignature {
+        const { secretSeed, prfSeed, publicSeed, root } = privateKey;
+        this.checkLength(secretSeed, 'secretSeed');
+        this.checkLength(prfSeed, 'prfSeed');
+        this.checkLength(publicSeed, 'publicSeed');
+        this.checkLength(root, 'root');
+
+        let optRand: Uint8Array;
+        if (options.optRand !== undefined) {
+            this.checkLength(options.optRand, 'optRand');
+            optRand = options.optRand;
+        } else if (options.randomized === false) {
+            optRand = publicSeed;
+        } else {
+            optRand = randomBytes(this.hashLen);
+        }
+
+        const randomizerInput = BufferUtil.concat(new Uint8Array([0x05]), prfSeed, optRand, message);
+        const randomizer = this.hash(randomizerInput);
+        randomizerInput.fill(0);
+
+        const { digest, tree, leaf } = this.hashMessage(randomizer, publicSeed, root, message);
+        const forsAddress = new Address()
+            .setTreeAddress(tree)
+            .setType(AddressType.ForsTree)
+            .setKeyPairAddress(leaf);
+        const forsSignature = this.fors.sign(secretSeed, publicSeed, digest, forsAddress);
+        const forsPublicKey = this.fors.computePublicKey(publicSeed, digest, forsSignature, forsAddress);
+
+        const layers: HypertreeLayerSignature[] = new Array(this.layers);
+        let node = forsPublicKey;
+        let treeIndex = tree;
+        let leafIndex = leaf;
+        for (let layer = 0; layer < this.layers; layer++) {
+            const address = new Address().setLayerAddress(layer).setTreeAddress(treeIndex);
+            layers[layer] = this.xmssSign(secretSeed, publicSeed, node, leafIndex, address);
+            if (layer < this.layers - 1) {
+                node = this.xmssRootFromSignature(publicSeed, node, layers[layer], leafIndex, address);
+                leafIndex = Number(treeIndex & this.treeMask());
+                treeIndex = treeIndex >> BigInt(this.treeHeight);
+            }
+        }
+        return { randomizer, forsSignature, layers };
+    }
+
+    // verify: Verify a signature against the public key.
+    // 1. Recompute the message digest and the FORS key pair it selects.
+    // 2. Rebuild the FORS public key from the FORS signature.
+    // 3. Hash it up every layer of the hypertree and compare with the root.
+    public verify(publicKey: Uint8Array, message: Uint8Array, signature: SPHINCSSignature): boolean {
+        if (publicKey.length !== this.publicKeySize) {
+            throw new InvalidLengthError(
+                `public key length must be ${this.publicKeySize} bytes`,
+                'publicKey', this.publicKeySize, publicKey.length
+            );
+        }
+        this.checkSignature(signature);
+
+        const publicSeed = publicKey.slice(0, this.hashLen);
+        const root = publicKey.slice(this.hashLen);
+        const { digest, tree, leaf } = this.hashMessage(signature.randomizer, publicSeed, root, message);
+        const forsAddress = new Address()
+            .setTreeAddress(tree)
+            .setType(AddressType.ForsTree)
+            .setKeyPairAddress(leaf);
+
+        let node = this.fors.computePublicKey(publicSeed, digest, signature.forsSignature, forsAddress);
+        let treeIndex = tree;
+        let leafIndex = leaf;
+        for (let layer = 0; layer < this.layers; layer++) {
+            const address = new Address().setLayerAddress(layer).setTreeAddress(treeIndex);
+            node = this.xmssRootFromSignature(publicSeed, node, signature.layers[layer], leafIndex, address);
+            leafIndex = Number(treeIndex & this.treeMask());
+            treeIndex = treeIndex >> BigInt(this.treeHeight);
+        }
+        return BufferUtil.equals(node, root);
+    }
+
+    // encodeSignature: The flat encoding of a signature, SignatureSize bytes:
+    // randomizer, then per FORS tree the secret leaf and authentication path,
+    // then per layer the WOTS+ signature chunks and authentication path.
+    public encodeSignature(signature: SPHINCSSignature): Uint8Array {
+        this.checkSignature(signature);
+        const parts: Uint8Array[] = [signature.randomizer];
+        for (const { secretKey, authPath } of signature.forsSignature) {
+            parts.push(secretKey, ...authPath);
+        }
+        for (const { wotsSignature, authPath } of signature.layers) {
+            parts.push(...wotsSignature, ...authPath);
+        }
+        return BufferUtil.concat(...parts);
+    }
+
+    // decodeSignature: The inverse of `encodeSignature`.
+    public decodeSignature(data: Uint8Array): SPHINCSSignature {
+        if (data.length !== this.signatureSize) {
+            throw new InvalidLengthError(
+                `encoded signature length must be ${this.signatureSize} bytes`,
+                'encodedSignature', this.signatureSize, data.length
+            );
+        }
+        let offset = 0;
+        const next = (count: number): Uint8Array[] => {
+            const nodes: Uint8Array[] = new Array(count);
+            for (let i = 0; i < count; i++) {
+                nodes[i] = data.slice(offset, offset + this.hashLen);
+                offset += this.hashLen;
+            }
+            return nodes;
+        };
+
+        const [randomizer] = next(1);
+        const forsSignature: FORSSignature = new Array(this.fors.numTrees);
+        for (let i = 0; i < this.fors.numTrees; i++) {
+            const [secretKey] = next(1);
+            forsSignature[i] = { secretKey, authPath: next(this.fors.height) };
+        }
+        const layers: HypertreeLayerSignature[] = new Array(this.layers);
+        for (let i = 0; i < this.layers; i++) {
+            const wotsSignature = next(this.wotsPlus.numSignatureChunks);
+            layers[i] = { wotsSignature, authPath: next(this.treeHeight) };
+        }
+        return { randomizer, forsSignature, layers };
+    }
+
+    private hash(data: Uint8Array): Uint8Array {
+        return this.hashFn(data).slice(0, this.hashLen);
+    }
+
+    private treeMask(): bigint {
+        return (1n << BigInt(this.treeHeight)) - 1n;
+    }
+
+    // hashMessage: H_msg, the digest that picks the FORS key pair and is signed by it.
+    // seed = hash(0x02 || R || PK.seed || PK.root || M) is expanded MGF1 style,
+    // hash(R || PK.seed || seed || counter), then split into the FORS message,
+    // the tree index (h - h/d bits) and the leaf index (h/d bits).
+    private hashMessage(
+        randomizer: Uint8Array,
+        publicSeed: Uint8Array,
+        root: Uint8Array,
+        message: Uint8Array
+    ): { digest: Uint8Array, tree: bigint, leaf: number } {
+        const seed = this.hashFn(BufferUtil.concat(
+            new Uint8Array([0x02]),  // prefix to domain separate
+            randomizer,
+            publicSeed,
+            root,
+            message
+        ));
+        const output = new Uint8Array(this.digestLen);
+        for (let counter = 0, offset = 0; offset < this.digestLen; counter++) {
+            const block = this.hashFn(BufferUtil.concat(randomizer, publicSeed, seed, BufferUtil.toBytes(counter, 4)));
+            output.set(block.subarray(0, Math.min(block.length, this.digestLen - offset)), offset);
+            offset += block.length;
+        }
+
+        const toBigInt = (bytes: Uint8Array): bigint =>
+            bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+        const treeBits = this.height - this.treeHeight;
+        const treeStart = this.fors.messageLen;
+        const leafStart = treeStart + Math.ceil(treeBits / 8);
+        return {
+            digest: output.slice(0, treeStart),
+            tree: toBigInt(output.subarray(treeStart, leafStart)) & ((1n << BigInt(treeBits)) - 1n),
+            leaf: Number(toBigInt(output.subarray(leafStart)) & this.treeMask())
+        };
+    }
+
+    // wotsLeaf: The leaf `index` of an XMSS tree, the compressed WOTS+ public key.
+    private wotsLeaf(secretSeed: Uint8Array, publicSeed: Uint8Array, index: number, address: Address): Uint8Array {
+        const otsAddress = address.clone().setType(AddressType.OTS).setKeyPairAddress(index);
+        const segments = this.wotsPlus.derivePublicKeySegments(secretSeed, publicSeed, otsAddress);
+        return this.compressWotsPublicKey(publicSeed, segments, index, address);
+    }
+
+    // compressWotsPublicKey: T_len of the public key segments, under the LTree
+    // address of the key pair.
+    private compressWotsPublicKey(
+        publicSeed: Uint8Array,
+        segments: Uint8Array[],
+        index: number,
+        address: Address
+    ): Uint8Array {
+        const adrs = address.clone().setType(AddressType.LTree).setKeyPairAddress(index);
+        return this.tweakable.thash(publicSeed, adrs, ...segments);
+    }
+
+    // xmssNode: The node at `height` and `index` of the XMSS tree at `address`
+    // (layer and tree set), computed recursively from its leaves.
+    private xmssNode(
+        secretSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        index: number,
+        height: number,
+        address: Address
+    ): Uint8Array {
+        if (height === 0) {
+            return this.wotsLeaf(secretSeed, publicSeed, index, address);
+        }
+        const left = this.xmssNode(secretSeed, publicSeed, 2 * index, height - 1, address);
+        const right = this.xmssNode(secretSeed, publicSeed, 2 * index + 1, height - 1, address);
+        const adrs = address.clone().setType(AddressType.HashTree).setTreeHeight(height).setTreeIndex(index);
+        return this.tweakable.thash(publicSeed, adrs, left, right);
+    }
+
+    // xmssSign: Sign an n byte node with leaf `index` of the XMSS tree at `address`.
+    private xmssSign(
+        secretSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        index: number,
+        address: Address
+    ): HypertreeLayerSignature {
+        const authPath: Uint8Array[] = new Array(this.treeHeight);
+        for (let j = 0; j < this.treeHeight; j++) {
+            authPath[j] = this.xmssNode(secretSeed, publicSeed, (index >> j) ^ 1, j, address);
+        }
+        const otsAddress = address.clone().setType(AddressType.OTS).setKeyPairAddress(index);
+        const wotsSignature = this.wotsPlus.sign(secretSeed, publicSeed, message, otsAddress);
+        return { wotsSignature, authPath };
+    }
+
+    // xmssRootFromSignature: The root of the XMSS tree at `address` implied by
+    // a signature of `message` with leaf `index`.
+    private xmssRootFromSignature(
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        signature: HypertreeLayerSignature,
+        index: number,
+        address: Address
+    ): Uint8Array {
+        const otsAddress = address.clone().setType(AddressType.OTS).setKeyPairAddress(index);
+        const segments = this.wotsPlus.recoverPublicKeySegments(publicSeed, message, signature.wotsSignature, otsAddress);
+        let node = this.compressWotsPublicKey(publicSeed, segments, index, address);
+
+        const adrs = address.clone().setType(AddressType.HashTree);
+        let nodeIndex = index;
+        for (let j = 0; j < this.treeHeight; j++) {
+            const isLeft = (nodeIndex & 1) === 0;
+            nodeIndex = nodeIndex >>> 1;
+            adrs.setTreeHeight(j + 1).setTreeIndex(nodeIndex);
+            node = isLeft
+                ? this.tweakable.thash(publicSeed, adrs, node, signature.authPath[j])
+                : this.tweakable.thash(publicSeed, adrs, signature.authPath[j], node);
+        }
+        return node;
+    }
+
+    private checkLength(value: Uint8Array, field: string): void {
+        if (value.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `${field} length must be ${this.hashLen} bytes`,
+                field, this.hashLen, value.length
+            );
+        }
+    }
+
+    // checkSignature: Check the shape of a signature before hashing any of it.
+    private checkSignature(signature: SPHINCSSignature): void {
+        this.checkLength(signature.randomizer, 'randomizer');
+        if (signature.layers.length !== this.layers) {
+            throw new InvalidLengthError(
+                `signature must have ${this.layers} layers`,
+                'layers', this.layers, signature.layers.length
+            );
+        }
+        for (const { wotsSignature, authPath } of signature.layers) {
+            if (wotsSignature.length !== this.wotsPlus.numSignatureChunks) {
+                throw new InvalidLengthError(
+                    `signature length must be ${this.wotsPlus.numSignatureChunks}`,
+                    'signature', this.wotsPlus.numSignatureChunks, wotsSignature.length
+                );
+            }
+            if (authPath.length !== this.treeHeight) {
+                throw new InvalidLengthError(
+                    `authentication path length must be ${this.treeHeight}`,
+                    'authenticationPath', this.treeHeight, authPath.length
+                );
+            }
+            for (const node of [...wotsSignature, ...authPath]) {
+                this.checkLength(node, 'signatureNode');
+            }
+        }
+        if (signature.forsSignature.length !== this.fors.numTrees) {
+            throw new InvalidLengthError(
+                `FORS signature must have ${this.fors.numTrees} trees`,
+                'forsSignature', this.fors.numTrees, signature.forsSignature.length
+            );
+        }
+        for (const { secretKey, authPath } of signature.forsSignature) {
+            if (authPath.length !== this.fors.height) {
+                throw new InvalidLengthError(
+                    `authentication path length must be ${this.fors.height}`,
+                    'authenticationPath', this.fors.height, authPath.length
+                );
+            }
+            for (const node of [secretKey, ...authPath]) {
+                this.checkLength(node, 'signatureNode');
+            }
+        }
+    }
+}
+
+// Example usage:
+// const sphincs = SPHINCSPlus.fromParameterSet('SPHINCS-KECCAK256-128F');
+// const { publicKey, privateKey } = sphincs.generateKeyPair(secretSeed, prfSeed, publicSeed);
+// const signature = sphincs.sign(privateKey, message); // no state to persist
@@ -0,0 +1,99 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { HashFunction } from './wotsplus';
+import { Address, ADRS_SIZE } from './address';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// TweakableHash: The address tweaked hash functions FORS and the SPHINCS+
+// hypertree are built from.
+//
+//   T(PK.seed, ADRS, M)            = hash(PK.seed || ADRS || M)
+//   PRF_keygen(SK.seed, PK.seed, ADRS) = hash(toByte(4, n) || SK.seed || PK.seed || ADRS)
+//
+// T is the "simple" construction of SPHINCS+ (and of SLH-DSA): every call is
+// separated by its address, so no bitmasks are needed. PRF_keygen is the one
+// WOTSPlus uses in RFC 8391 mode, so secret values of both layers are derived
+// the same way. Outputs are truncated to HashLen.
+export class TweakableHash {
+    private readonly hashFn: HashFunction;
+    private readonly keygenBuffer: Uint8Array;
+
+    public readonly hashLen: number;
+
+    constructor(hashFunction: HashFunction, hashLen: number = 32) {
+        if (!Number.isInteger(hashLen) || hashLen <= 0) {
+            throw new InvalidParameterError("HashLen must be positive");
+        }
+        this.hashFn = hashFunction;
+        this.hashLen = hashLen;
+        this.keygenBuffer = new Uint8Array(3 * hashLen + ADRS_SIZE);
+        this.zeroize();
+    }
+
+    // zeroize: Wipe the secret seed from the scratch buffer.
+    public zeroize(): void {
+        this.keygenBuffer.fill(0);
+        this.keygenBuffer.set(BufferUtil.toBytes(4, this.hashLen), 0);
+    }
+
+    private hash(data: Uint8Array): Uint8Array {
+        const digest = this.hashFn(data);
+        if (digest.length < this.hashLen) {
+            throw new InvalidParameterError(`hash function output must be at least ${this.hashLen} bytes`);
+        }
+        return digest.length === this.hashLen ? digest : digest.slice(0, this.hashLen);
+    }
+
+    // thash: T(PK.seed, ADRS, inputs[0] || inputs[1] || ...).
+    public thash(publicSeed: Uint8Array, address: Address, ...inputs: Uint8Array[]): Uint8Array {
+        this.checkSeed(publicSeed, 'publicSeed');
+        const buffer = new Uint8Array(this.hashLen + ADRS_SIZE + inputs.length * this.hashLen);
+        buffer.set(publicSeed, 0);
+        buffer.set(address.view(), this.hashLen);
+        let offset = this.hashLen + ADRS_SIZE;
+        for (const input of inputs) {
+            if (input.length !== this.hashLen) {
+                throw new InvalidLengthError(
+                    `hash inputs must be ${this.hashLen} bytes`,
+                    'hashInput', this.hashLen, input.length
+                );
+            }
+            buffer.set(input, offset);
+            offset += this.hashLen;
+        }
+        return this.hash(buffer);
+    }
+
+    // prfKeygen: A secret value for the position `address`.
+    public prfKeygen(secretSeed: Uint8Array, publicSeed: Uint8Array, address: Address): Uint8Array {
+        this.checkSeed(secretSeed, 'secretSeed');
+        this.checkSeed(publicSeed, 'publicSeed');
+        const buffer = this.keygenBuffer;
+        buffer.set(secretSeed, this.hashLen);
+        buffer.set(publicSeed, 2 * this.hashLen);
+        buffer.set(address.view(), 3 * this.hashLen);
+        return this.hash(buffer).slice();
+    }
+
+    private checkSeed(seed: Uint8Array, field: string): void {
+        if (seed.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `${field} length must be ${this.hashLen} bytes`,
+                field, this.hashLen, seed.length
+            );
+        }
+    }
+}
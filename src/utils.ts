@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+// Buffer utility for cross-platform compatibility
+export const BufferUtil = {
+    equals: (a: Uint8Array, b: Uint8Array): boolean => {
+        if (a.length !== b.length) return false;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] !== b[i]) return false;
+        }
+        return true;
+    },
+
+    from: (data: Uint8Array): Uint8Array => {
+        if (typeof Buffer !== 'undefined') {
+            return Buffer.from(data);
+        }
+        return new Uint8Array(data);
+    },
+
+    // concat: Join byte arrays into a single new array
+    concat: (...parts: Uint8Array[]): Uint8Array => {
+        let total = 0;
+        for (const part of parts) {
+            total += part.length;
+        }
+        const result = new Uint8Array(total);
+        let offset = 0;
+        for (const part of parts) {
+            result.set(part, offset);
+            offset += part.length;
+        }
+        return result;
+    },
+
+    // toHex: Lowercase hex encoding without a 0x prefix
+    toHex: (data: Uint8Array): string => {
+        let hex = '';
+        for (let i = 0; i < data.length; i++) {
+            hex += data[i].toString(16).padStart(2, '0');
+        }
+        return hex;
+    },
+
+    // toBytes: Big-endian encoding of a non-negative integer into `len` bytes.
+    // This is the `toByte(x, y)` function of RFC 8391 section 2.4.
+    toBytes: (value: number, len: number): Uint8Array => {
+        const result = new Uint8Array(len);
+        let v = value;
+        for (let i = len - 1; i >= 0; i--) {
+            result[i] = v % 256;
+            v = Math.floor(v / 256);
+        }
+        return result;
+    }
+};
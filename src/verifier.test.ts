@@ -0,0 +1,120 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { WOTSPlus } from './wotsplus';
+import { WOTSVerifier, WOTSVerifierCache } from './verifier';
+import { keccak_256 } from '@noble/hashes/sha3';
+import testVectors from '../test/test_vectors/wotsplus_keccak256.json';
+
+describe('WOTSVerifier', () => {
+    const hexToUint8Array = (hex: string): Uint8Array =>
+        new Uint8Array(Buffer.from(hex.startsWith('0x') ? hex.slice(2) : hex, 'hex'));
+
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const vectors = Object.values(testVectors).map(vector => ({
+        publicKey: hexToUint8Array(vector.publicKey),
+        publicSeed: hexToUint8Array(vector.publicSeed),
+        message: hexToUint8Array(vector.message),
+        signature: vector.signature.map(hexToUint8Array),
+    }));
+
+    it('should verify the test vectors', () => {
+        for (const vector of vectors) {
+            const verifier = new WOTSVerifier(wotsPlus, vector.publicKey);
+            expect(verifier.matches(vector.publicSeed)).toBe(true);
+            expect(verifier.verify(vector.message, vector.signature)).toBe(true);
+            // the scratch buffer is reused, so verify again
+            expect(verifier.verify(vector.message, vector.signature)).toBe(true);
+            const otherMessage = vector.message.slice();
+            otherMessage[0] ^= 0x01;
+            expect(verifier.verify(otherMessage, vector.signature)).toBe(false);
+        }
+    });
+
+    it('should not be affected by later changes to the public key buffer', () => {
+        const { publicKey, message, signature } = vectors[0];
+        const buffer = publicKey.slice();
+        const verifier = new WOTSVerifier(wotsPlus, buffer);
+        buffer.fill(0);
+        expect(verifier.verify(message, signature)).toBe(true);
+        expect(() => new WOTSVerifier(wotsPlus, publicKey.slice(1))).toThrow();
+    });
+});
+
+describe('WOTSVerifierCache', () => {
+    const hexToUint8Array = (hex: string): Uint8Array =>
+        new Uint8Array(Buffer.from(hex.startsWith('0x') ? hex.slice(2) : hex, 'hex'));
+
+    const wotsPlus = new WOTSPlus(keccak_256);
+    const vectors = Object.values(testVectors).map(vector => ({
+        publicKey: hexToUint8Array(vector.publicKey),
+        publicSeed: hexToUint8Array(vector.publicSeed),
+        message: hexToUint8Array(vector.message),
+        signature: vector.signature.map(hexToUint8Array),
+    }));
+
+    it('should verify many keys and match WOTSPlus.verify', () => {
+        const cache = new WOTSVerifierCache(wotsPlus);
+        for (let round = 0; round < 2; round++) {
+            for (const { publicKey, message, signature } of vectors) {
+                expect(cache.verify(publicKey, message, signature)).toBe(true);
+                expect(cache.verify(publicKey, new Uint8Array(32), signature))
+                    .toBe(wotsPlus.verify(publicKey, new Uint8Array(32), signature));
+            }
+        }
+        expect(cache.misses).toBe(vectors.length);
+        expect(cache.hits).toBe(vectors.length * 3);
+    });
+
+    it('should evict the least recently used seed', () => {
+        const cache = new WOTSVerifierCache(wotsPlus, 2);
+        const [a, b, c] = vectors.map(vector => vector.publicSeed);
+
+        cache.randomizationElements(a);
+        cache.randomizationElements(b);
+        cache.randomizationElements(a); // a is now most recently used
+        cache.randomizationElements(c); // evicts b
+        expect(cache.size).toBe(2);
+        expect(cache.misses).toBe(3);
+
+        cache.randomizationElements(a);
+        expect(cache.hits).toBe(2);
+        cache.randomizationElements(b);
+        expect(cache.misses).toBe(4);
+
+        expect(cache.randomizationElements(a)).toEqual(wotsPlus.generateRandomizationElements(a));
+        cache.clear();
+        expect(cache.size).toBe(0);
+    });
+
+    it('should not let callers modify the cached elements', () => {
+        const cache = new WOTSVerifierCache(wotsPlus);
+        const { publicKey, publicSeed, message, signature } = vectors[0];
+        const elements = cache.randomizationElements(publicSeed);
+        elements[0].fill(0);
+        elements.pop();
+        expect(cache.randomizationElements(publicSeed)).toEqual(wotsPlus.generateRandomizationElements(publicSeed));
+        expect(cache.verify(publicKey, message, signature)).toBe(true);
+    });
+
+    it('should reject malformed input', () => {
+        const cache = new WOTSVerifierCache(wotsPlus);
+        const { publicKey, message, signature } = vectors[0];
+        expect(() => cache.verify(publicKey.slice(1), message, signature)).toThrow();
+        expect(() => cache.verify(publicKey, message, signature.slice(1))).toThrow();
+        expect(() => cache.randomizationElements(new Uint8Array(31))).toThrow();
+        expect(() => new WOTSVerifierCache(wotsPlus, 0)).toThrow();
+        expect(() => wotsPlus.computePublicKeyHash(message, signature, [], new Uint8Array(1))).toThrow();
+    });
+});
@@ -0,0 +1,165 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { WOTSPlus } from './wotsplus';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError } from './errors';
+
+// PrecomputedState: everything about a public seed that verification can reuse.
+// The seed is kept for `WOTSVerifier.matches`.
+interface PrecomputedState {
+    publicSeed: Uint8Array;
+    randomizationElements: Uint8Array[];
+}
+
+function precompute(wotsPlus: WOTSPlus, publicSeed: Uint8Array): PrecomputedState {
+    const seed = publicSeed.slice();
+    return {
+        publicSeed: seed,
+        randomizationElements: wotsPlus.generateRandomizationElements(seed)
+    };
+}
+
+function splitPublicKey(wotsPlus: WOTSPlus, publicKey: Uint8Array): {
+    publicSeed: Uint8Array,
+    publicKeyHash: Uint8Array
+} {
+    if (publicKey.length !== wotsPlus.publicKeySize) {
+        throw new InvalidLengthError(
+            `public key length must be ${wotsPlus.publicKeySize} bytes`,
+            'publicKey', wotsPlus.publicKeySize, publicKey.length
+        );
+    }
+    return {
+        publicSeed: publicKey.subarray(0, wotsPlus.hashLen),
+        publicKeyHash: publicKey.slice(wotsPlus.hashLen, wotsPlus.publicKeySize)
+    };
+}
+
+// WOTSVerifier: verifies signatures for one public key, generating the
+// randomization elements once instead of on every `WOTSPlus.verify` call.
+export class WOTSVerifier {
+    public readonly wotsPlus: WOTSPlus;
+    public readonly publicKey: Uint8Array;
+
+    private readonly publicKeyHash: Uint8Array;
+    private readonly state: PrecomputedState;
+    private readonly scratch: Uint8Array;
+
+    constructor(wotsPlus: WOTSPlus, publicKey: Uint8Array) {
+        const { publicSeed, publicKeyHash } = splitPublicKey(wotsPlus, publicKey);
+        this.wotsPlus = wotsPlus;
+        this.publicKey = publicKey.slice();
+        this.publicKeyHash = publicKeyHash;
+        this.state = precompute(wotsPlus, publicSeed);
+        this.scratch = new Uint8Array(wotsPlus.numSignatureChunks * wotsPlus.hashLen);
+    }
+
+    // matches: Whether this verifier was built for `publicSeed`.
+    public matches(publicSeed: Uint8Array): boolean {
+        return BufferUtil.equals(this.state.publicSeed, publicSeed);
+    }
+
+    // verify: Same result as `WOTSPlus.verify(publicKey, message, signature)`.
+    public verify(message: Uint8Array, signature: Uint8Array[]): boolean {
+        const computedHash = this.wotsPlus.computePublicKeyHash(
+            message,
+            signature,
+            this.state.randomizationElements,
+            this.scratch
+        );
+        return BufferUtil.equals(computedHash, this.publicKeyHash);
+    }
+}
+
+// WOTSVerifierCache: verifies signatures for many public keys, keeping the
+// precomputed state of the most recently used public seeds. Once `maxEntries`
+// seeds are cached the least recently used one is evicted.
+export class WOTSVerifierCache {
+    public readonly wotsPlus: WOTSPlus;
+    public readonly maxEntries: number;
+
+    // Map iteration order is insertion order, so re-inserting on every hit
+    // keeps the least recently used entry first.
+    private readonly entries = new Map<string, PrecomputedState>();
+    private readonly scratch: Uint8Array;
+
+    // Hits and misses since the cache was created, for monitoring.
+    public hits = 0;
+    public misses = 0;
+
+    constructor(wotsPlus: WOTSPlus, maxEntries: number = 1024) {
+        if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+            throw new InvalidParameterError("maxEntries must be a positive integer");
+        }
+        this.wotsPlus = wotsPlus;
+        this.maxEntries = maxEntries;
+        this.scratch = new Uint8Array(wotsPlus.numSignatureChunks * wotsPlus.hashLen);
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+
+    // randomizationElements: A copy of the cached randomization elements for a
+    // public seed, generating and caching them on a miss.
+    public randomizationElements(publicSeed: Uint8Array): Uint8Array[] {
+        return this.lookup(publicSeed).randomizationElements.map(element => element.slice());
+    }
+
+    // lookup: The cached state for a public seed. Callers must not modify it.
+    private lookup(publicSeed: Uint8Array): PrecomputedState {
+        if (publicSeed.length !== this.wotsPlus.hashLen) {
+            throw new InvalidLengthError(
+                `public seed length must be ${this.wotsPlus.hashLen} bytes`,
+                'publicSeed', this.wotsPlus.hashLen, publicSeed.length
+            );
+        }
+
+        const key = BufferUtil.toHex(publicSeed);
+        let state = this.entries.get(key);
+        if (state !== undefined) {
+            this.hits++;
+            this.entries.delete(key);
+        } else {
+            this.misses++;
+            state = precompute(this.wotsPlus, publicSeed);
+        }
+
+        this.entries.set(key, state);
+        if (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest !== undefined) {
+                this.entries.delete(oldest);
+            }
+        }
+        return state;
+    }
+
+    // verify: Same result as `WOTSPlus.verify(publicKey, message, signature)`.
+    public verify(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array[]): boolean {
+        const { publicSeed, publicKeyHash } = splitPublicKey(this.wotsPlus, publicKey);
+        const computedHash = this.wotsPlus.computePublicKeyHash(
+            message,
+            signature,
+            this.lookup(publicSeed).randomizationElements,
+            this.scratch
+        );
+        return BufferUtil.equals(computedHash, publicKeyHash);
+    }
+}
@@ -0,0 +1,463 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { InvalidParameterError } from './errors';
+
+// WebAssembly keccak256 and SHA-256
+//
+// The module is generated here rather than shipped as a binary, so the
+// package needs no WebAssembly toolchain and the code that builds it can be
+// reviewed like any other source. It exports its memory and two functions
+// that hash `count` inputs of `blocks` padded blocks each, back to back at
+// `ptr`, and write the 32 byte digests back to back at `out`:
+//
+//   keccak(ptr, count, blocks, out)   blocks of 136 bytes, state in locals
+//   sha256(ptr, count, blocks, out)   blocks of 64 bytes as little-endian words
+//
+// Padding, and the byte order of SHA-256 words, is done in JavaScript.
+
+const OP = {
+    block: 0x02, loop: 0x03, end: 0x0b, br: 0x0c, brIf: 0x0d,
+    localGet: 0x20, localSet: 0x21, localTee: 0x22,
+    i32Load: 0x28, i64Load: 0x29, i32Store: 0x36, i64Store: 0x37,
+    i32Const: 0x41, i64Const: 0x42,
+    i32Ne: 0x47, i32GeU: 0x4f,
+    i32Add: 0x6a, i32Mul: 0x6c, i32And: 0x71, i32Or: 0x72, i32Xor: 0x73, i32ShrU: 0x76, i32Rotr: 0x78,
+    i64And: 0x83, i64Xor: 0x85, i64Rotl: 0x89,
+};
+const VOID = 0x40;
+const I32 = 0x7f;
+const I64 = 0x7e;
+
+function uleb(value: number): number[] {
+    const out: number[] = [];
+    do {
+        let byte = value & 0x7f;
+        value >>>= 7;
+        if (value !== 0) byte |= 0x80;
+        out.push(byte);
+    } while (value !== 0);
+    return out;
+}
+
+// sleb: Signed LEB128 of a 32 bit integer.
+function sleb(value: number): number[] {
+    const out: number[] = [];
+    let v = value | 0;
+    for (;;) {
+        const byte = v & 0x7f;
+        v >>= 7;
+        if ((v === 0 && (byte & 0x40) === 0) || (v === -1 && (byte & 0x40) !== 0)) {
+            out.push(byte);
+            return out;
+        }
+        out.push(byte | 0x80);
+    }
+}
+
+function vec(items: number[][]): number[] {
+    return [...uleb(items.length), ...items.flat()];
+}
+
+function section(id: number, content: number[]): number[] {
+    return [id, ...uleb(content.length), ...content];
+}
+
+// Code: An instruction sequence with a few helpers for the emitters below.
+class Code {
+    public readonly bytes: number[] = [];
+
+    public op(...bytes: number[]): this {
+        this.bytes.push(...bytes);
+        return this;
+    }
+    public get(local: number): this {
+        return this.op(OP.localGet, ...uleb(local));
+    }
+    public set(local: number): this {
+        return this.op(OP.localSet, ...uleb(local));
+    }
+    public tee(local: number): this {
+        return this.op(OP.localTee, ...uleb(local));
+    }
+    public i32(value: number): this {
+        return this.op(OP.i32Const, ...sleb(value));
+    }
+    public i64(value: number): this {
+        return this.op(OP.i64Const, ...sleb(value));
+    }
+    public load64(offset: number): this {
+        return this.op(OP.i64Load, 3, ...uleb(offset));
+    }
+    public store64(offset: number): this {
+        return this.op(OP.i64Store, 3, ...uleb(offset));
+    }
+    public load32(offset: number): this {
+        return this.op(OP.i32Load, 2, ...uleb(offset));
+    }
+    public store32(offset: number): this {
+        return this.op(OP.i32Store, 2, ...uleb(offset));
+    }
+}
+
+// Parameters and the shared locals of both functions.
+const PTR = 0, COUNT = 1, BLOCKS = 2, OUT = 3, N = 4, B = 5, SRC = 6;
+
+// batchLoop: for (n = 0; n < count; n++) { init; for (b = 0; b < blocks; b++)
+// { src = ptr + (n * blocks + b) * rate; compress } finish }
+function batchLoop(code: Code, rate: number, init: () => void, compress: () => void, finish: () => void): void {
+    code.i32(0).set(N);
+    code.op(OP.block, VOID, OP.loop, VOID);
+    code.get(N).get(COUNT).op(OP.i32GeU, OP.brIf, 1);
+    init();
+    code.i32(0).set(B);
+    code.op(OP.block, VOID, OP.loop, VOID);
+    code.get(B).get(BLOCKS).op(OP.i32GeU, OP.brIf, 1);
+    code.get(N).get(BLOCKS).op(OP.i32Mul).get(B).op(OP.i32Add).i32(rate).op(OP.i32Mul)
+        .get(PTR).op(OP.i32Add).set(SRC);
+    compress();
+    code.get(B).i32(1).op(OP.i32Add).set(B);
+    code.op(OP.br, 0, OP.end, OP.end);
+    // src = out + n * 32
+    code.get(OUT).get(N).i32(32).op(OP.i32Mul, OP.i32Add).set(SRC);
+    finish();
+    code.get(N).i32(1).op(OP.i32Add).set(N);
+    code.op(OP.br, 0, OP.end, OP.end);
+}
+
+// KECCAK_RC_ADDR: Where JavaScript stores the 24 round constants.
+export const KECCAK_RC_ADDR = 0;
+export const KECCAK_RATE = 136;
+
+export const KECCAK_ROUND_CONSTANTS: bigint[] = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offsets of the rho step, by lane index x + 5y.
+const KECCAK_ROTATIONS = [
+    0, 1, 62, 28, 27,
+    36, 44, 6, 55, 20,
+    3, 10, 43, 25, 39,
+    41, 45, 15, 21, 8,
+    18, 2, 61, 56, 14,
+];
+
+function keccakBody(): Code {
+    const R = 7;
+    const A = 8;        // 25 lanes
+    const T = A + 25;   // 25 lanes after rho and pi
+    const C = T + 25;   // 5 column parities
+    const D = C + 5;
+    const code = new Code();
+
+    batchLoop(code, KECCAK_RATE,
+        () => {
+            for (let i = 0; i < 25; i++) code.i64(0).set(A + i);
+        },
+        () => {
+            for (let i = 0; i < KECCAK_RATE / 8; i++) code.get(A + i).get(SRC).load64(8 * i).op(OP.i64Xor).set(A + i);
+            code.i32(0).set(R);
+            code.op(OP.loop, VOID);
+            // theta
+            for (let x = 0; x < 5; x++) {
+                code.get(A + x);
+                for (let y = 1; y < 5; y++) code.get(A + x + 5 * y).op(OP.i64Xor);
+                code.set(C + x);
+            }
+            for (let x = 0; x < 5; x++) {
+                code.get(C + (x + 4) % 5).get(C + (x + 1) % 5).i64(1).op(OP.i64Rotl, OP.i64Xor).set(D);
+                for (let y = 0; y < 5; y++) code.get(A + x + 5 * y).get(D).op(OP.i64Xor).set(A + x + 5 * y);
+            }
+            // rho and pi
+            for (let x = 0; x < 5; x++) {
+                for (let y = 0; y < 5; y++) {
+                    code.get(A + x + 5 * y);
+                    if (KECCAK_ROTATIONS[x + 5 * y] !== 0) code.i64(KECCAK_ROTATIONS[x + 5 * y]).op(OP.i64Rotl);
+                    code.set(T + y + 5 * ((2 * x + 3 * y) % 5));
+                }
+            }
+            // chi
+            for (let y = 0; y < 5; y++) {
+                for (let x = 0; x < 5; x++) {
+                    code.get(T + (x + 1) % 5 + 5 * y).i64(-1).op(OP.i64Xor)
+                        .get(T + (x + 2) % 5 + 5 * y).op(OP.i64And)
+                        .get(T + x + 5 * y).op(OP.i64Xor).set(A + x + 5 * y);
+                }
+            }
+            // iota
+            code.get(A).get(R).load64(KECCAK_RC_ADDR).op(OP.i64Xor).set(A);
+            code.get(R).i32(8).op(OP.i32Add).tee(R).i32(8 * 24).op(OP.i32Ne, OP.brIf, 0, OP.end);
+        },
+        () => {
+            for (let i = 0; i < 4; i++) code.get(SRC).get(A + i).store64(8 * i);
+        }
+    );
+    return code;
+}
+
+export const SHA256_RATE = 64;
+
+const SHA256_IV = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const SHA256_K = [
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function sha256Body(): Code {
+    const S = 7;          // 8 state words
+    const V = S + 8;      // 8 working variables
+    const W = V + 8;      // 16 schedule words
+    const T1 = W + 16;
+    const T2 = T1 + 1;
+    const code = new Code();
+
+    // rotations: x >>> r1 ^ x >>> r2 ^ (x >>> r3 or x >> r3 when shift)
+    const mix = (x: number, r1: number, r2: number, r3: number, shift: boolean) => {
+        code.get(x).i32(r1).op(OP.i32Rotr).get(x).i32(r2).op(OP.i32Rotr, OP.i32Xor)
+            .get(x).i32(r3).op(shift ? OP.i32ShrU : OP.i32Rotr, OP.i32Xor);
+    };
+
+    batchLoop(code, SHA256_RATE,
+        () => {
+            for (let i = 0; i < 8; i++) code.i32(SHA256_IV[i]).set(S + i);
+        },
+        () => {
+            for (let i = 0; i < 16; i++) code.get(SRC).load32(4 * i).set(W + i);
+            for (let i = 0; i < 8; i++) code.get(S + i).set(V + i);
+            // The working variables are renamed each round instead of moved:
+            // v[0..7] are the locals holding a..h.
+            let v = [0, 1, 2, 3, 4, 5, 6, 7].map(i => V + i);
+            for (let t = 0; t < 64; t++) {
+                const w = W + t % 16;
+                if (t >= 16) {
+                    mix(W + (t - 2) % 16, 17, 19, 10, true);
+                    code.get(W + (t - 7) % 16).op(OP.i32Add);
+                    mix(W + (t - 15) % 16, 7, 18, 3, true);
+                    code.op(OP.i32Add).get(w).op(OP.i32Add).set(w);
+                }
+                const [a, b, c, d, e, f, g, h] = v;
+                code.get(h);
+                mix(e, 6, 11, 25, false);
+                code.op(OP.i32Add);
+                code.get(g).get(e).get(f).get(g).op(OP.i32Xor, OP.i32And, OP.i32Xor, OP.i32Add);
+                code.i32(SHA256_K[t]).op(OP.i32Add).get(w).op(OP.i32Add).set(T1);
+                mix(a, 2, 13, 22, false);
+                code.get(a).get(b).op(OP.i32And).get(c).get(a).get(b).op(OP.i32Or, OP.i32And, OP.i32Or, OP.i32Add).set(T2);
+                code.get(d).get(T1).op(OP.i32Add).set(d);
+                code.get(T1).get(T2).op(OP.i32Add).set(h);
+                v = [h, a, b, c, d, e, f, g];
+            }
+            for (let i = 0; i < 8; i++) code.get(S + i).get(V + i).op(OP.i32Add).set(S + i);
+        },
+        () => {
+            for (let i = 0; i < 8; i++) code.get(SRC).get(S + i).store32(4 * i);
+        }
+    );
+    return code;
+}
+
+function functionBody(locals: [number, number][], code: Code): number[] {
+    const body = [...vec(locals.map(([count, type]) => [...uleb(count), type])), ...code.bytes, OP.end];
+    return [...uleb(body.length), ...body];
+}
+
+function name(text: string): number[] {
+    const bytes = Array.from(new TextEncoder().encode(text));
+    return [...uleb(bytes.length), ...bytes];
+}
+
+// buildHashModule: The bytes of the module.
+export function buildHashModule(): Uint8Array {
+    const batchType = [0x60, ...vec([[I32], [I32], [I32], [I32]]), ...vec([])];
+    return new Uint8Array([
+        0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+        ...section(1, vec([batchType])),
+        ...section(3, vec([[0], [0]])),
+        ...section(5, vec([[0x00, 1]])),
+        ...section(7, vec([
+            [...name('memory'), 0x02, 0],
+            [...name('keccak'), 0x00, 0],
+            [...name('sha256'), 0x00, 1],
+        ])),
+        ...section(10, vec([
+            functionBody([[4, I32], [56, I64]], keccakBody()),
+            functionBody([[37, I32]], sha256Body()),
+        ])),
+    ]);
+}
+
+// INPUT_ADDR: Inputs start after the round constants, on their own page part.
+const INPUT_ADDR = 1024;
+const PAGE_SIZE = 65536;
+
+type BatchFunction = (ptr: number, count: number, blocks: number, out: number) => void;
+
+// The parts of the WebAssembly API we use. The tsconfig has no DOM library,
+// and runtimes without WebAssembly fall back to JavaScript hashes.
+interface WasmMemory {
+    readonly buffer: ArrayBuffer;
+    grow(pages: number): number;
+}
+interface WasmInstance {
+    readonly exports: Record<string, unknown>;
+}
+interface WasmApi {
+    instantiate(bytes: Uint8Array): Promise<{ instance: WasmInstance }>;
+}
+
+// wasmAvailable: True if the runtime has WebAssembly.
+export function wasmAvailable(): boolean {
+    return (globalThis as { WebAssembly?: WasmApi }).WebAssembly !== undefined;
+}
+
+// WasmHasher: An instance of the module with the padding around its exports.
+export class WasmHasher {
+    private readonly memory: WasmMemory;
+    private readonly keccakFn: BatchFunction;
+    private readonly sha256Fn: BatchFunction;
+
+    private constructor(instance: WasmInstance) {
+        this.memory = instance.exports.memory as WasmMemory;
+        this.keccakFn = instance.exports.keccak as BatchFunction;
+        this.sha256Fn = instance.exports.sha256 as BatchFunction;
+        const view = new DataView(this.memory.buffer);
+        KECCAK_ROUND_CONSTANTS.forEach((rc, i) => view.setBigUint64(KECCAK_RC_ADDR + 8 * i, rc, true));
+    }
+
+    // create: Compile and instantiate the module. Compilation is async so it
+    // also works on browser main threads, which refuse large sync compiles.
+    public static async create(): Promise<WasmHasher> {
+        const api = (globalThis as { WebAssembly?: WasmApi }).WebAssembly;
+        if (api === undefined) {
+            throw new InvalidParameterError("WebAssembly is not available");
+        }
+        const { instance } = await api.instantiate(buildHashModule());
+        return new WasmHasher(instance);
+    }
+
+    // memoryFor: A view of memory with at least `bytes` bytes after INPUT_ADDR.
+    private memoryFor(bytes: number): Uint8Array {
+        const needed = INPUT_ADDR + bytes;
+        if (needed > this.memory.buffer.byteLength) {
+            this.memory.grow(Math.ceil((needed - this.memory.buffer.byteLength) / PAGE_SIZE));
+        }
+        return new Uint8Array(this.memory.buffer);
+    }
+
+    // run: Hash inputs that all pad to `blocks` blocks. `pad` writes one padded
+    // input at an offset, `digest` reads one 32 byte digest.
+    private run(
+        fn: BatchFunction,
+        rate: number,
+        blocks: number,
+        inputs: Uint8Array[],
+        pad: (memory: Uint8Array, offset: number, input: Uint8Array, length: number) => void,
+        digest: (memory: Uint8Array, offset: number) => Uint8Array
+    ): Uint8Array[] {
+        const inputBytes = inputs.length * blocks * rate;
+        const memory = this.memoryFor(inputBytes + 32 * inputs.length);
+        memory.fill(0, INPUT_ADDR, INPUT_ADDR + inputBytes);
+        inputs.forEach((input, i) => pad(memory, INPUT_ADDR + i * blocks * rate, input, blocks * rate));
+        const out = INPUT_ADDR + inputBytes;
+        fn(INPUT_ADDR, inputs.length, blocks, out);
+        const digests = inputs.map((_, i) => digest(memory, out + 32 * i));
+        // Inputs may be secret chain values
+        memory.fill(0, INPUT_ADDR, out + 32 * inputs.length);
+        return digests;
+    }
+
+    // grouped: Run `hash` on groups of inputs with the same number of blocks.
+    private grouped(
+        inputs: Uint8Array[],
+        blocksOf: (length: number) => number,
+        hash: (blocks: number, group: Uint8Array[]) => Uint8Array[]
+    ): Uint8Array[] {
+        const groups = new Map<number, number[]>();
+        inputs.forEach((input, i) => {
+            const blocks = blocksOf(input.length);
+            const group = groups.get(blocks);
+            if (group === undefined) {
+                groups.set(blocks, [i]);
+            } else {
+                group.push(i);
+            }
+        });
+        const outputs: Uint8Array[] = new Array(inputs.length);
+        for (const [blocks, indexes] of groups) {
+            const digests = hash(blocks, indexes.map(i => inputs[i]));
+            indexes.forEach((index, i) => outputs[index] = digests[i]);
+        }
+        return outputs;
+    }
+
+    // keccak256Many: keccak256 (the original Keccak padding, as Ethereum uses) of every input.
+    public keccak256Many(inputs: Uint8Array[]): Uint8Array[] {
+        return this.grouped(inputs, length => Math.floor(length / KECCAK_RATE) + 1, (blocks, group) =>
+            this.run(this.keccakFn, KECCAK_RATE, blocks, group,
+                (memory, offset, input, length) => {
+                    memory.set(input, offset);
+                    memory[offset + input.length] ^= 0x01;
+                    memory[offset + length - 1] ^= 0x80;
+                },
+                (memory, offset) => memory.slice(offset, offset + 32)
+            ));
+    }
+
+    // sha256Many: SHA-256 of every input.
+    public sha256Many(inputs: Uint8Array[]): Uint8Array[] {
+        return this.grouped(inputs, length => Math.floor((length + 8) / SHA256_RATE) + 1, (blocks, group) =>
+            this.run(this.sha256Fn, SHA256_RATE, blocks, group,
+                (memory, offset, input, length) => {
+                    const padded = new Uint8Array(length);
+                    padded.set(input);
+                    padded[input.length] = 0x80;
+                    const view = new DataView(padded.buffer);
+                    view.setUint32(length - 8, Math.floor(input.length / 2 ** 29));
+                    view.setUint32(length - 4, (input.length * 8) >>> 0);
+                    // Words are big-endian, WebAssembly loads are little-endian
+                    for (let i = 0; i < length; i += 4) {
+                        memory[offset + i] = padded[i + 3];
+                        memory[offset + i + 1] = padded[i + 2];
+                        memory[offset + i + 2] = padded[i + 1];
+                        memory[offset + i + 3] = padded[i];
+                    }
+                    padded.fill(0);
+                },
+                (memory, offset) => {
+                    const digest = new Uint8Array(32);
+                    for (let i = 0; i < 32; i += 4) {
+                        digest[i] = memory[offset + i + 3];
+                        digest[i + 1] = memory[offset + i + 2];
+                        digest[i + 2] = memory[offset + i + 1];
+                        digest[i + 3] = memory[offset + i];
+                    }
+                    return digest;
+                }
+            ));
+    }
+}
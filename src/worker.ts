@@ -0,0 +1,38 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+// Worker entry point for `createNodeWorkerPool`, `fromNodeWorker` and
+// `fromWebWorker`. Works both as a worker_threads script and a Web Worker.
+
+import { handleWorkerRequest, WorkerRequest } from './async';
+
+interface WorkerScope {
+    postMessage(message: unknown): void;
+    addEventListener(type: 'message', listener: (event: { data: WorkerRequest }) => void): void;
+}
+
+declare const self: WorkerScope | undefined;
+
+if (typeof self !== 'undefined' && typeof self.addEventListener === 'function') {
+    const scope = self;
+    scope.addEventListener('message', (event) => {
+        scope.postMessage(handleWorkerRequest(event.data));
+    });
+} else {
+    import('worker_threads').then(({ parentPort }) => {
+        parentPort?.on('message', (request: WorkerRequest) => {
+            parentPort.postMessage(handleWorkerRequest(request));
+        });
+    });
+}
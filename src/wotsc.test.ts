@@ -0,0 +1,98 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { WOTSPlusC } from './wotsc';
+import { WOTSPlus } from './wotsplus';
+import { BufferUtil } from './utils';
+import { GrindingLimitError, InvalidEncodingError, InvalidParameterError } from './errors';
+
+describe('WOTSPlusC', () => {
+    const privateSeed = keccak_256(new TextEncoder().encode('wots+c private seed'));
+    const publicSeed = keccak_256(new TextEncoder().encode('wots+c public seed'));
+    const message = new TextEncoder().encode('constant sum');
+
+    it('should drop the checksum chains and report its costs', () => {
+        const wotsc = new WOTSPlusC(keccak_256);
+        expect(wotsc.numChunks).toBe(64);
+        expect(wotsc.signatureSize).toBe(4 + 64 * 32);
+        expect(wotsc.targetSum).toBe(480);
+        expect(wotsc.expectedVerifierHashes).toBe(64 + 2 + 64 * 15 - 480);
+        expect(wotsc.expectedSigningAttempts).toBeGreaterThan(80);
+        expect(wotsc.expectedSigningAttempts).toBeLessThan(110);
+
+        // A higher target sum trades signing attempts for verifier hashes
+        const cheaper = new WOTSPlusC(keccak_256, 32, 16, { targetSum: 560 });
+        expect(cheaper.expectedVerifierHashes).toBe(wotsc.expectedVerifierHashes - 80);
+        expect(cheaper.expectedSigningAttempts).toBeGreaterThan(wotsc.expectedSigningAttempts);
+
+        expect(() => new WOTSPlusC(keccak_256, 32, 16, { targetSum: 64 * 15 + 1 })).toThrow(InvalidParameterError);
+        expect(() => new WOTSPlusC(keccak_256, 32, 16, { maxAttempts: 0 })).toThrow(InvalidParameterError);
+    });
+
+    it('should share its chains with WOTSPlus', () => {
+        const wotsc = new WOTSPlusC(keccak_256);
+        const wotsPlus = new WOTSPlus(keccak_256);
+        const { publicKey, privateKey } = wotsc.generateKeyPair(privateSeed, publicSeed);
+        const ends = wotsPlus.derivePublicKeySegments(privateKey, publicSeed).slice(0, wotsc.numChunks);
+        expect(publicKey).toEqual(BufferUtil.concat(publicSeed, keccak_256(BufferUtil.concat(...ends))));
+    });
+
+    it('should sign and verify digests with the target sum', () => {
+        for (const chainLen of [4, 16, 256]) {
+            const wotsc = new WOTSPlusC(keccak_256, 32, chainLen);
+            const { publicKey, privateKey } = wotsc.generateKeyPair(privateSeed, publicSeed);
+            const signature = wotsc.sign(privateKey, publicKey, message);
+            const digest = wotsc.hashMessage(publicKey, signature.counter, message);
+            expect(wotsc.chainIndexes(digest).reduce((a, b) => a + b, 0)).toBe(wotsc.targetSum);
+            expect(wotsc.verify(publicKey, message, signature)).toBe(true);
+            expect(wotsc.verify(publicKey, new TextEncoder().encode('other'), signature)).toBe(false);
+        }
+    });
+
+    it('should reject tampered signatures', () => {
+        const wotsc = new WOTSPlusC(keccak_256);
+        const { publicKey, privateKey } = wotsc.generateKeyPair(privateSeed, publicSeed);
+        const signature = wotsc.sign(privateKey, publicKey, message);
+
+        expect(wotsc.verify(publicKey, message, { ...signature, counter: signature.counter + 1 })).toBe(false);
+        const chunks = signature.signature.map(chunk => chunk.slice());
+        chunks[10][0] ^= 1;
+        expect(wotsc.verify(publicKey, message, { ...signature, signature: chunks })).toBe(false);
+        expect(wotsc.verify(publicKey, message, { ...signature, counter: -1 })).toBe(false);
+    });
+
+    it('should round trip encoded signatures', () => {
+        const wotsc = new WOTSPlusC(keccak_256);
+        const { publicKey, privateKey } = wotsc.generateKeyPair(privateSeed, publicSeed);
+        const signature = wotsc.sign(privateKey, publicKey, message);
+        const encoded = wotsc.encodeSignature(signature);
+        expect(encoded.length).toBe(wotsc.signatureSize);
+        expect(wotsc.decodeSignature(encoded)).toEqual(signature);
+        expect(() => wotsc.decodeSignature(encoded.subarray(1))).toThrow(InvalidEncodingError);
+    });
+
+    it('should stop grinding at the budget', () => {
+        // The largest reachable sum needs every digit at 15 but one at 14
+        const wotsc = new WOTSPlusC(keccak_256, 32, 16, { targetSum: 64 * 15 - 1, maxAttempts: 8 });
+        const { publicKey, privateKey } = wotsc.generateKeyPair(privateSeed, publicSeed);
+        try {
+            wotsc.sign(privateKey, publicKey, message);
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(GrindingLimitError);
+            expect((err as GrindingLimitError).attempts).toBe(8);
+        }
+    });
+});
@@ -0,0 +1,341 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { HashFunction } from './wotsplus';
+import { BufferUtil } from './utils';
+import { GrindingLimitError, InvalidEncodingError, InvalidLengthError, InvalidParameterError } from './errors';
+
+// WOTS+C: WOTS+ with a constant-sum (target-sum) encoding, after Kudinov,
+// Hülsing, Ronen and Yogev, "SPHINCS+C: Compressing SPHINCS+ With (Almost)
+// No Cost".
+//
+// The signer grinds a counter until the base-w digits of
+//   digest = hash(0x06 || publicKey || counter || message)
+// add up to TargetSum, and sends the counter with the signature. Every digest
+// a verifier accepts has the same digit sum, so lowering one digit means
+// raising another: the checksum chains of WOTS+ are not needed, and a
+// verifier always runs exactly NumChunks * (ChainLen - 1) - TargetSum chain
+// steps. A higher TargetSum makes verification cheaper and signing slower.
+//
+// Keys, randomization elements and chains are those of WOTSPlus in quip
+// mode; the chain ends are the first NumChunks public key segments of the
+// WOTSPlus key pair with the same seeds.
+
+export interface WOTSPlusCOptions {
+    // TargetSum: The digit sum of every signed digest. Defaults to the most
+    // likely sum, which needs the fewest attempts.
+    targetSum?: number;
+
+    // MaxAttempts: How many counters `sign` tries before giving up.
+    maxAttempts?: number;
+}
+
+export interface WOTSPlusCSignature {
+    counter: number;
+    signature: Uint8Array[];
+}
+
+const DEFAULT_MAX_ATTEMPTS = 2 ** 20;
+const COUNTER_SIZE = 4;
+
+export class WOTSPlusC {
+    private readonly hashFn: HashFunction;
+
+    public readonly hashLen: number;
+    public readonly chainLen: number;
+    public readonly lgChainLen: number;
+
+    // NumChunks: the `len_1` parameter of WOTS+, ceil(8 * HashLen / lg(ChainLen)).
+    // There are no checksum chunks.
+    public readonly numChunks: number;
+
+    public readonly numRandomizationElements: number;
+    public readonly targetSum: number;
+    public readonly maxAttempts: number;
+
+    // ExpectedSigningAttempts: The mean number of counters `sign` tries,
+    // 1 / Pr[digit sum = TargetSum].
+    public readonly expectedSigningAttempts: number;
+
+    // ExpectedVerifierHashes: The hash calls of `verify`: the randomization
+    // elements, the digest, NumChunks * (ChainLen - 1) - TargetSum chain steps
+    // and the public key. It is the same for every valid signature.
+    public readonly expectedVerifierHashes: number;
+
+    // SignatureSize: counter (4 bytes) || NumChunks chunks of HashLen bytes.
+    public readonly signatureSize: number;
+    public readonly publicKeySize: number;
+
+    constructor(
+        hashFunction: HashFunction,
+        hashLen: number = 32,
+        chainLen: number = 16,
+        options: WOTSPlusCOptions = {}
+    ) {
+        if (!Number.isInteger(hashLen) || hashLen <= 0) {
+            throw new InvalidParameterError("HashLen must be positive");
+        }
+        if (!Number.isInteger(chainLen) || (chainLen & (chainLen - 1)) !== 0 || chainLen < 2 || chainLen > 256) {
+            throw new InvalidParameterError("ChainLen must be a power of 2 between 2 and 256");
+        }
+        this.hashFn = hashFunction;
+        this.hashLen = hashLen;
+        this.chainLen = chainLen;
+        this.lgChainLen = Math.log2(chainLen);
+        this.numChunks = Math.ceil((8 * hashLen) / this.lgChainLen);
+        this.numRandomizationElements = Math.max(this.numChunks, chainLen);
+        if (this.numRandomizationElements > 0xFFFF) {
+            throw new InvalidParameterError("HashLen is too large for the prf index");
+        }
+
+        const distribution = this.sumDistribution();
+        let mostLikely = 0;
+        for (let sum = 1; sum < distribution.length; sum++) {
+            if (distribution[sum] > distribution[mostLikely]) {
+                mostLikely = sum;
+            }
+        }
+        this.targetSum = options.targetSum ?? mostLikely;
+        if (!Number.isInteger(this.targetSum) || !(distribution[this.targetSum] > 0)) {
+            throw new InvalidParameterError(`target sum ${this.targetSum} cannot be reached`);
+        }
+        this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+        if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1 || this.maxAttempts > 2 ** 32) {
+            throw new InvalidParameterError("maxAttempts must be between 1 and 2^32");
+        }
+
+        this.expectedSigningAttempts = 1 / distribution[this.targetSum];
+        this.expectedVerifierHashes = this.numRandomizationElements + 2
+            + this.numChunks * (chainLen - 1) - this.targetSum;
+        this.signatureSize = COUNTER_SIZE + this.numChunks * hashLen;
+        this.publicKeySize = 2 * hashLen;
+    }
+
+    // sumDistribution: Pr[digit sum = s] for a uniformly random digest. The
+    // last digit may have fewer real bits than lg(ChainLen); `toBaseW` pads
+    // it with zeros, so it only takes multiples of 2^padding.
+    private sumDistribution(): number[] {
+        let distribution = [1];
+        for (let i = 0; i < this.numChunks; i++) {
+            const bits = Math.min(this.lgChainLen, 8 * this.hashLen - i * this.lgChainLen);
+            const values = 2 ** bits;
+            const step = 2 ** (this.lgChainLen - bits);
+            const next: number[] = new Array(distribution.length + (values - 1) * step).fill(0);
+            for (let sum = 0; sum < distribution.length; sum++) {
+                for (let v = 0; v < values; v++) {
+                    next[sum + v * step] += distribution[sum] / values;
+                }
+            }
+            distribution = next;
+        }
+        return distribution;
+    }
+
+    private hash(data: Uint8Array): Uint8Array {
+        const digest = this.hashFn(data);
+        if (digest.length < this.hashLen) {
+            throw new InvalidParameterError(`hash function output must be at least ${this.hashLen} bytes`);
+        }
+        return digest.length === this.hashLen ? digest : digest.slice(0, this.hashLen);
+    }
+
+    private checkLength(value: Uint8Array, field: string, expected: number): void {
+        if (value.length !== expected) {
+            throw new InvalidLengthError(`${field} length must be ${expected} bytes`, field, expected, value.length);
+        }
+    }
+
+    // prf: hash(0x03 || seed || index), as in WOTSPlus.
+    private prf(seed: Uint8Array, index: number): Uint8Array {
+        return this.hash(BufferUtil.concat(new Uint8Array([0x03]), seed, BufferUtil.toBytes(index, 2)));
+    }
+
+    private randomizationElements(publicSeed: Uint8Array): Uint8Array[] {
+        const elements: Uint8Array[] = new Array(this.numRandomizationElements);
+        for (let i = 0; i < this.numRandomizationElements; i++) {
+            elements[i] = this.prf(publicSeed, i);
+        }
+        return elements;
+    }
+
+    // chain: `steps` applications of hash(value XOR r[index + step]).
+    private chain(value: Uint8Array, elements: Uint8Array[], index: number, steps: number): Uint8Array {
+        let out = value;
+        const buffer = new Uint8Array(this.hashLen);
+        for (let i = 1; i <= steps; i++) {
+            const element = elements[i + index];
+            for (let j = 0; j < this.hashLen; j++) {
+                buffer[j] = out[j] ^ element[j];
+            }
+            out = this.hash(buffer);
+        }
+        buffer.fill(0);
+        return out;
+    }
+
+    // secretKeySegment: hash(r[0] || prf(privateKey, i + 1)), as in WOTSPlus.
+    private secretKeySegment(privateKey: Uint8Array, elements: Uint8Array[], i: number): Uint8Array {
+        const prf = this.prf(privateKey, i + 1);
+        const input = BufferUtil.concat(elements[0], prf);
+        const segment = this.hash(input);
+        prf.fill(0);
+        input.fill(0);
+        return segment;
+    }
+
+    // generateKeyPair: The private key is hash(privateSeed || publicSeed) and the
+    // public key publicSeed || hash(chain ends), as in WOTSPlus.
+    public generateKeyPair(privateSeed: Uint8Array, publicSeed: Uint8Array): {
+        publicKey: Uint8Array,
+        privateKey: Uint8Array
+    } {
+        this.checkLength(publicSeed, 'publicSeed', this.hashLen);
+        const combinedSeed = BufferUtil.concat(privateSeed, publicSeed);
+        const privateKey = this.hash(combinedSeed);
+        combinedSeed.fill(0);
+
+        const elements = this.randomizationElements(publicSeed);
+        const ends: Uint8Array[] = new Array(this.numChunks);
+        for (let i = 0; i < this.numChunks; i++) {
+            const segment = this.secretKeySegment(privateKey, elements, i);
+            ends[i] = this.chain(segment, elements, 0, this.chainLen - 1);
+            segment.fill(0);
+        }
+        return { publicKey: BufferUtil.concat(publicSeed, this.hash(BufferUtil.concat(...ends))), privateKey };
+    }
+
+    // hashMessage: The digest for `counter`, hash(0x06 || publicKey || counter || message).
+    public hashMessage(publicKey: Uint8Array, counter: number, message: Uint8Array): Uint8Array {
+        this.checkLength(publicKey, 'publicKey', this.publicKeySize);
+        return this.hash(BufferUtil.concat(
+            new Uint8Array([0x06]),  // prefix to domain separate
+            publicKey,
+            BufferUtil.toBytes(counter, COUNTER_SIZE),
+            message
+        ));
+    }
+
+    // chainIndexes: The base-w digits of a digest, read as a big-endian bit
+    // string with missing trailing bits treated as zero, like WOTSPlus.
+    public chainIndexes(digest: Uint8Array): number[] {
+        const mask = this.chainLen - 1;
+        const digits: number[] = new Array(this.numChunks);
+        let index = 0;
+        let total = 0;
+        let bits = 0;
+        for (let i = 0; i < this.numChunks; i++) {
+            while (bits < this.lgChainLen) {
+                total = ((total << 8) | (index < digest.length ? digest[index] : 0)) & 0xFFFF;
+                index++;
+                bits += 8;
+            }
+            bits -= this.lgChainLen;
+            digits[i] = (total >> bits) & mask;
+        }
+        return digits;
+    }
+
+    // digitSum: The sum of the chain indexes of a digest.
+    private digitSum(digest: Uint8Array): number {
+        return this.chainIndexes(digest).reduce((sum, digit) => sum + digit, 0);
+    }
+
+    // sign: Grind counters from 0 until the digest hits TargetSum, then sign it.
+    // Throws a GrindingLimitError when MaxAttempts counters all miss.
+    public sign(privateKey: Uint8Array, publicKey: Uint8Array, message: Uint8Array): WOTSPlusCSignature {
+        this.checkLength(privateKey, 'privateKey', this.hashLen);
+        this.checkLength(publicKey, 'publicKey', this.publicKeySize);
+
+        let counter = 0;
+        let digest = this.hashMessage(publicKey, counter, message);
+        while (this.digitSum(digest) !== this.targetSum) {
+            counter++;
+            if (counter >= this.maxAttempts) {
+                throw new GrindingLimitError(
+                    `no counter below ${this.maxAttempts} reaches the target sum ${this.targetSum}`,
+                    counter
+                );
+            }
+            digest = this.hashMessage(publicKey, counter, message);
+        }
+
+        const elements = this.randomizationElements(publicKey.subarray(0, this.hashLen));
+        const signature = this.chainIndexes(digest).map((digit, i) => {
+            const segment = this.secretKeySegment(privateKey, elements, i);
+            const chunk = this.chain(segment, elements, 0, digit);
+            if (chunk !== segment) {
+                segment.fill(0);
+            }
+            return chunk;
+        });
+        return { counter, signature };
+    }
+
+    // verify: Check the digest sum, complete every chain and compare the hash
+    // of the chain ends with the public key.
+    public verify(publicKey: Uint8Array, message: Uint8Array, signature: WOTSPlusCSignature): boolean {
+        this.checkLength(publicKey, 'publicKey', this.publicKeySize);
+        if (signature.signature.length !== this.numChunks) {
+            throw new InvalidLengthError(
+                `signature length must be ${this.numChunks}`,
+                'signature', this.numChunks, signature.signature.length
+            );
+        }
+        for (const chunk of signature.signature) {
+            this.checkLength(chunk, 'signatureChunk', this.hashLen);
+        }
+        if (!Number.isInteger(signature.counter) || signature.counter < 0 || signature.counter >= 2 ** 32) {
+            return false;
+        }
+
+        const digest = this.hashMessage(publicKey, signature.counter, message);
+        const digits = this.chainIndexes(digest);
+        if (digits.reduce((sum, digit) => sum + digit, 0) !== this.targetSum) {
+            return false;
+        }
+
+        const elements = this.randomizationElements(publicKey.subarray(0, this.hashLen));
+        const ends = digits.map((digit, i) =>
+            this.chain(signature.signature[i], elements, digit, this.chainLen - 1 - digit));
+        return BufferUtil.equals(this.hash(BufferUtil.concat(...ends)), publicKey.subarray(this.hashLen));
+    }
+
+    // encodeSignature: counter (4 bytes, big-endian) || chunks back to back.
+    public encodeSignature(signature: WOTSPlusCSignature): Uint8Array {
+        if (signature.signature.length !== this.numChunks) {
+            throw new InvalidLengthError(
+                `signature length must be ${this.numChunks}`,
+                'signature', this.numChunks, signature.signature.length
+            );
+        }
+        for (const chunk of signature.signature) {
+            this.checkLength(chunk, 'signatureChunk', this.hashLen);
+        }
+        return BufferUtil.concat(BufferUtil.toBytes(signature.counter, COUNTER_SIZE), ...signature.signature);
+    }
+
+    // decodeSignature: The inverse of `encodeSignature`.
+    public decodeSignature(data: Uint8Array): WOTSPlusCSignature {
+        if (data.length !== this.signatureSize) {
+            throw new InvalidEncodingError(`WOTS+C signature length must be ${this.signatureSize} bytes`);
+        }
+        const counter = ((data[0] << 24) | (data[1] << 16) | (data[2] << 8) | data[3]) >>> 0;
+        const signature: Uint8Array[] = new Array(this.numChunks);
+        for (let i = 0; i < this.numChunks; i++) {
+            const start = COUNTER_SIZE + i * this.hashLen;
+            signature[i] = data.slice(start, start + this.hashLen);
+        }
+        return { counter, signature };
+    }
+}
@@ -0,0 +1,61 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { bench, describe } from 'vitest';
+import { WOTSPlus } from './wotsplus';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
+
+// Throughput of the WOTS+ operations. Run with `npm run bench`.
+// The "one-shot" variants hide `create` from WOTSPlus to measure the
+// plain HashFunction path.
+
+const privateSeed = keccak_256(new Uint8Array([1]));
+const publicSeed = keccak_256(new Uint8Array([2]));
+const message = keccak_256(new Uint8Array([3]));
+
+const hashes = {
+    'keccak256': keccak_256,
+    'keccak256 one-shot': (data: Uint8Array) => keccak_256(data),
+    'sha256': sha256,
+};
+
+for (const [name, hashFunction] of Object.entries(hashes)) {
+    describe(`WOTSPlus ${name}`, () => {
+        const wotsPlus = new WOTSPlus(hashFunction);
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        const signature = wotsPlus.sign(privateKey, publicSeed, message);
+        const randomizationElements = wotsPlus.generateRandomizationElements(publicSeed);
+        const publicKeyHash = publicKey.slice(wotsPlus.hashLen);
+
+        bench('generateKeyPair', () => {
+            wotsPlus.generateKeyPair(privateSeed, publicSeed);
+        });
+
+        bench('sign', () => {
+            wotsPlus.sign(privateKey, publicSeed, message);
+        });
+
+        bench('verify', () => {
+            wotsPlus.verify(publicKey, message, signature);
+        });
+
+        bench('verifyWithRandomizationElements', () => {
+            wotsPlus.verifyWithRandomizationElements(publicKeyHash, message, signature, randomizationElements);
+        });
+
+        bench('generateRandomizationElements', () => {
+            wotsPlus.generateRandomizationElements(publicSeed);
+        });
+    });
+}
@@ -12,8 +12,12 @@
 // GNU Affero General Public License for more details.
 import { describe, it, expect } from 'vitest';
 import { WOTSPlus } from './wotsplus';
-import { keccak_256 } from '@noble/hashes/sha3';
+import { Address, AddressType } from './address';
+import { ErrorCode, InvalidLengthError } from './errors';
+import { keccak_256, shake128 } from '@noble/hashes/sha3';
+import { sha256 } from '@noble/hashes/sha2';
 import testVectors from '../test/test_vectors/wotsplus_keccak256.json';
+import xmssReferenceVectors from '../test/test_vectors/xmss_reference_shake128.json';
 
 describe('WOTSPlus', () => {
     // Helper to convert number to Uint8Array (similar to bytes32 in Solidity)
@@ -35,6 +39,7 @@ describe('WOTSPlus', () => {
         expect(publicKey.length).toBe(wotsPlus.publicKeySize);
         expect(publicSeed).toEqual(publicKey.slice(0, wotsPlus.hashLen));
         expect(privateKey).not.toEqual(new Uint8Array(32));
+        expect(wotsPlus.derivePrivateKey(privateSeed, publicSeed)).toEqual(privateKey);
     });
 
     it('should fail to verify empty signature', () => {
@@ -188,4 +193,508 @@ describe('WOTSPlus', () => {
             expect(isValidWithRand, `Randomized verification failed for ${vectorName}`).toBe(true);
         });
     });
+    describe('base-w encoding and checksum', () => {
+        it('should match the RFC 8391 base_w example', () => {
+            // RFC 8391 section 2.6: X = 0x1234 is (1, 2, 3, 4) for w = 16 and
+            // (0, 1, 0, 2, 0, 3, 1, 0) for w = 4.
+            const w16 = new WOTSPlus(keccak_256, 2, 16);
+            expect(w16.computeMessageHashChainIndexes(new Uint8Array([0x12, 0x34])).slice(0, 4))
+                .toEqual([1, 2, 3, 4]);
+
+            const w4 = new WOTSPlus(keccak_256, 2, 4);
+            expect(w4.computeMessageHashChainIndexes(new Uint8Array([0x12, 0x34])).slice(0, 8))
+                .toEqual([0, 1, 0, 2, 0, 3, 1, 0]);
+
+            const w256 = new WOTSPlus(keccak_256, 2, 256);
+            expect(w256.computeMessageHashChainIndexes(new Uint8Array([0x12, 0x34])).slice(0, 2))
+                .toEqual([0x12, 0x34]);
+        });
+
+        it('should compute RFC 8391 left-shifted checksums', () => {
+            // w = 4, n = 32: len_1 = 128, len_2 = 5. An all zero message has
+            // checksum 128 * 3 = 384 = 0b01_10_00_00_00 in 5 base-4 digits.
+            const w4 = new WOTSPlus(keccak_256, 32, 4);
+            expect(w4.numMessageChunks).toBe(128);
+            expect(w4.numChecksumChunks).toBe(5);
+            expect(w4.computeMessageHashChainIndexes(new Uint8Array(32)).slice(128))
+                .toEqual([1, 2, 0, 0, 0]);
+
+            // w = 16, n = 32: checksum 64 * 15 = 960 = 0x3c0.
+            const w16 = new WOTSPlus(keccak_256, 32, 16);
+            expect(w16.computeMessageHashChainIndexes(new Uint8Array(32)).slice(64))
+                .toEqual([3, 12, 0]);
+
+            // w = 256, n = 32: len_2 = 2 fills whole bytes, checksum 32 * 255 = 0x1fe0.
+            const w256 = new WOTSPlus(keccak_256, 32, 256);
+            expect(w256.numChecksumChunks).toBe(2);
+            expect(w256.computeMessageHashChainIndexes(new Uint8Array(32)).slice(32))
+                .toEqual([0x1f, 0xe0]);
+
+            // An all 0xff message has a zero checksum for every w.
+            for (const wots of [w4, w16, w256]) {
+                const indexes = wots.computeMessageHashChainIndexes(new Uint8Array(32).fill(0xff));
+                expect(indexes.slice(wots.numMessageChunks).every(d => d === 0)).toBe(true);
+            }
+        });
+
+        it('should round-trip every supported parameter combination', () => {
+            for (const hashLen of [16, 24, 32]) {
+                for (const chainLen of [2, 4, 8, 16, 256]) {
+                    const wotsPlus = new WOTSPlus(keccak_256, hashLen, chainLen);
+                    const privateSeed = numberToUint8Array(1).slice(0, hashLen);
+                    const publicSeed = numberToUint8Array(2).slice(32 - hashLen);
+                    const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+                    expect(publicKey.length).toBe(wotsPlus.publicKeySize);
+
+                    const message = keccak_256(new TextEncoder().encode(`${hashLen}/${chainLen}`))
+                        .slice(0, hashLen);
+                    const signature = wotsPlus.sign(privateKey, publicSeed, message);
+                    expect(signature.every(chunk => chunk.length === hashLen)).toBe(true);
+
+                    const label = `n=${hashLen} w=${chainLen}`;
+                    expect(wotsPlus.verify(publicKey, message, signature), label).toBe(true);
+
+                    const otherMessage = message.slice();
+                    otherMessage[0] ^= 0x01;
+                    expect(wotsPlus.verify(publicKey, otherMessage, signature), label).toBe(false);
+                }
+            }
+        }, 30000);
+
+        it('should match known answers for non-default parameters', () => {
+            const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+            const vectors = [
+                {
+                    hashLen: 32, chainLen: 4, numSignatureChunks: 133,
+                    publicKey: 'f2ee15ea639b73fa3db9b34a245bdfa015c260c598b211bf05a1ecc4b3e3b4f2bce5494b3ab8fc0a7f9b477482f8e7a97f649511b724cc57a584f2b9ac2ae39d',
+                    signatureHash: '1e9be3f13930f551f7c28f222f6248a0738df2eaae00dbaa01952e506ce5be18',
+                },
+                {
+                    hashLen: 32, chainLen: 256, numSignatureChunks: 34,
+                    publicKey: 'f2ee15ea639b73fa3db9b34a245bdfa015c260c598b211bf05a1ecc4b3e3b4f207b10a867b2ce43ef5fc33061666d04632a3e7553da8352a0e31b108d8393617',
+                    signatureHash: '88a7546fda9ba0b71bcd66d527389f17b31f6369b417103de8151268dd88c3de',
+                },
+                {
+                    hashLen: 24, chainLen: 16, numSignatureChunks: 51,
+                    publicKey: 'f2ee15ea639b73fa3db9b34a245bdfa015c260c598b211bf54684ad7d02a7dee69be3556e4d9fc8a2d3c146ae17e04b0',
+                    signatureHash: '49361b9f8377f115a22e7dc1455887db7f694526f1051d062b284e9a166811b0',
+                },
+            ];
+
+            for (const vector of vectors) {
+                const { hashLen, chainLen } = vector;
+                const wotsPlus = new WOTSPlus(keccak_256, hashLen, chainLen);
+                const privateSeed = keccak_256(new Uint8Array([1])).slice(0, hashLen);
+                const publicSeed = keccak_256(new Uint8Array([2])).slice(0, hashLen);
+                const message = keccak_256(new Uint8Array([3])).slice(0, hashLen);
+
+                const { publicKey, privateKey } = wotsPlus.generateKeyPair(privateSeed, publicSeed);
+                const signature = wotsPlus.sign(privateKey, publicSeed, message);
+
+                expect(wotsPlus.numSignatureChunks).toBe(vector.numSignatureChunks);
+                expect(toHex(publicKey)).toBe(vector.publicKey);
+                expect(toHex(keccak_256(Buffer.concat(signature)))).toBe(vector.signatureHash);
+            }
+        });
+
+        it('should reject unsupported parameters', () => {
+            expect(() => new WOTSPlus(keccak_256, 32, 1)).toThrow();
+            expect(() => new WOTSPlus(keccak_256, 32, 12)).toThrow();
+            expect(() => new WOTSPlus(keccak_256, 32, 512)).toThrow();
+            expect(() => new WOTSPlus(keccak_256, 0)).toThrow();
+            expect(() => new WOTSPlus(keccak_256, 64).generateKeyPair(new Uint8Array(64), new Uint8Array(64)))
+                .toThrow(/hash function output/);
+        });
+    });
+    describe('incremental hashing', () => {
+        it('should produce identical output with and without the incremental interface', () => {
+            const oneShot = (data: Uint8Array) => keccak_256(data);
+            for (const [hashLen, chainLen] of [[32, 16], [32, 4], [24, 16]]) {
+                const incremental = new WOTSPlus(keccak_256, hashLen, chainLen);
+                const plain = new WOTSPlus(oneShot, hashLen, chainLen);
+                const privateSeed = numberToUint8Array(1).slice(0, hashLen);
+                const publicSeed = numberToUint8Array(2).slice(0, hashLen);
+                const message = keccak_256(new Uint8Array([hashLen, chainLen])).slice(0, hashLen);
+
+                const a = incremental.generateKeyPair(privateSeed, publicSeed);
+                const b = plain.generateKeyPair(privateSeed, publicSeed);
+                expect(a).toEqual(b);
+                expect(incremental.generateRandomizationElements(publicSeed))
+                    .toEqual(plain.generateRandomizationElements(publicSeed));
+
+                const signature = incremental.sign(a.privateKey, publicSeed, message);
+                expect(signature).toEqual(plain.sign(b.privateKey, publicSeed, message));
+                expect(plain.verify(a.publicKey, message, signature)).toBe(true);
+            }
+        });
+
+        it('should reuse one create() hasher for the hash chains when available', () => {
+            let oneShotCalls = 0;
+            let createCalls = 0;
+            const counting = Object.assign(
+                (data: Uint8Array) => { oneShotCalls++; return keccak_256(data); },
+                { create: () => { createCalls++; return keccak_256.create(); } }
+            );
+            const wotsPlus = new WOTSPlus(counting);
+            const { privateKey } = wotsPlus.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+
+            // only the private key and public key hashes go through the one-shot call
+            expect(oneShotCalls).toBe(2);
+            // one hasher is created with the instance and reset for every step
+            wotsPlus.sign(privateKey, numberToUint8Array(2), new Uint8Array(32));
+            expect(createCalls).toBe(1);
+        });
+
+        it('should not leak scratch buffers into results', () => {
+            const wotsPlus = new WOTSPlus(keccak_256);
+            const publicSeed = numberToUint8Array(2);
+            const { privateKey } = wotsPlus.generateKeyPair(numberToUint8Array(1), publicSeed);
+            const first = wotsPlus.sign(privateKey, publicSeed, new Uint8Array(32));
+            const copy = first.map(chunk => chunk.slice());
+            wotsPlus.sign(privateKey, publicSeed, new Uint8Array(32).fill(0xff));
+            expect(first).toEqual(copy);
+            expect(new Set(first.map(chunk => chunk.buffer)).size).toBe(first.length);
+        });
+    });
+    describe('public key recovery', () => {
+        const hexToUint8Array = (hex: string): Uint8Array =>
+            new Uint8Array(Buffer.from(hex.startsWith('0x') ? hex.slice(2) : hex, 'hex'));
+
+        it('should recover public keys and segments from the test vectors', () => {
+            const wotsPlus = new WOTSPlus(keccak_256);
+            Object.entries(testVectors).forEach(([vectorName, vector]) => {
+                const publicKey = hexToUint8Array(vector.publicKey);
+                const publicSeed = hexToUint8Array(vector.publicSeed);
+                const message = hexToUint8Array(vector.message);
+                const signature = vector.signature.map(hexToUint8Array);
+
+                // The recovered segments hash to the public key hash. (The vectors'
+                // `publicKeySegments` field does not, so we do not compare against it.)
+                const segments = wotsPlus.recoverPublicKeySegments(publicSeed, message, signature);
+                expect(segments.length).toBe(wotsPlus.numSignatureChunks);
+                expect(keccak_256(Buffer.concat(segments)), vectorName)
+                    .toEqual(publicKey.slice(wotsPlus.hashLen));
+
+                expect(wotsPlus.recoverPublicKeyHash(publicSeed, message, signature))
+                    .toEqual(publicKey.slice(wotsPlus.hashLen));
+                expect(wotsPlus.recoverPublicKey(publicSeed, message, signature)).toEqual(publicKey);
+            });
+        });
+
+        it('should recover a different key for a different message', () => {
+            const wotsPlus = new WOTSPlus(keccak_256);
+            const publicSeed = numberToUint8Array(2);
+            const { publicKey, privateKey } = wotsPlus.generateKeyPair(numberToUint8Array(1), publicSeed);
+            const message = keccak_256(new Uint8Array([1]));
+            const signature = wotsPlus.sign(privateKey, publicSeed, message);
+
+            expect(wotsPlus.recoverPublicKey(publicSeed, message, signature)).toEqual(publicKey);
+            expect(wotsPlus.recoverPublicKey(publicSeed, keccak_256(new Uint8Array([2])), signature))
+                .not.toEqual(publicKey);
+            expect(() => wotsPlus.recoverPublicKeyHash(publicSeed.slice(1), message, signature)).toThrow();
+            expect(() => wotsPlus.recoverPublicKeySegments(publicSeed, message, signature.slice(1))).toThrow();
+        });
+    });
+    describe('message signing', () => {
+        const wotsPlus = new WOTSPlus(keccak_256);
+        const publicSeed = numberToUint8Array(2);
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(numberToUint8Array(1), publicSeed);
+
+        it('should sign and verify messages of any length', () => {
+            for (const length of [0, 1, 31, 32, 33, 1000]) {
+                const message = new Uint8Array(length).fill(0xab);
+                const messageSignature = wotsPlus.signMessage(privateKey, publicKey, message);
+                expect(messageSignature.randomizer.length).toBe(wotsPlus.hashLen);
+                expect(wotsPlus.verifyMessage(publicKey, message, messageSignature)).toBe(true);
+
+                const longer = new Uint8Array(length + 1).fill(0xab);
+                expect(wotsPlus.verifyMessage(publicKey, longer, messageSignature)).toBe(false);
+            }
+        });
+
+        it('should be deterministic by default and randomize on request', () => {
+            const message = new TextEncoder().encode('Hello World');
+            // a retry signs the same digest, so it reveals nothing new
+            const a = wotsPlus.signMessage(privateKey, publicKey, message);
+            const b = wotsPlus.signMessage(privateKey, publicKey, message);
+            expect(a).toEqual(b);
+            expect(a.randomizer).toEqual(
+                keccak_256(new Uint8Array([0x05, ...privateKey, ...message]))
+            );
+            expect(wotsPlus.signMessage(privateKey, publicKey, message, { randomized: false })).toEqual(a);
+
+            const c = wotsPlus.signMessage(privateKey, publicKey, message, { randomized: true });
+            const d = wotsPlus.signMessage(privateKey, publicKey, message, { randomized: true });
+            expect(c.randomizer).not.toEqual(d.randomizer);
+            expect(wotsPlus.verifyMessage(publicKey, message, c)).toBe(true);
+
+            const randomizer = new Uint8Array(32).fill(7);
+            const e = wotsPlus.signMessage(privateKey, publicKey, message, { randomizer });
+            expect(e.randomizer).toEqual(randomizer);
+            expect(e.signature).toEqual(
+                wotsPlus.sign(privateKey, publicSeed, wotsPlus.hashMessage(randomizer, publicKey, message))
+            );
+        });
+
+        it('should bind the digest to the randomizer and public key', () => {
+            const message = new TextEncoder().encode('Hello World');
+            const randomizer = new Uint8Array(32).fill(7);
+            const digest = wotsPlus.hashMessage(randomizer, publicKey, message);
+            expect(wotsPlus.hashMessage(new Uint8Array(32).fill(8), publicKey, message)).not.toEqual(digest);
+
+            const otherKey = publicKey.slice();
+            otherKey[40] ^= 0x01;
+            expect(wotsPlus.hashMessage(randomizer, otherKey, message)).not.toEqual(digest);
+
+            // the digest is not the plain hash of the message
+            expect(digest).not.toEqual(keccak_256(message));
+
+            const messageSignature = wotsPlus.signMessage(privateKey, publicKey, message, { randomizer });
+            expect(wotsPlus.verifyMessage(publicKey, message, {
+                ...messageSignature,
+                randomizer: new Uint8Array(32).fill(8),
+            })).toBe(false);
+        });
+
+        it('should reject malformed input', () => {
+            const message = new Uint8Array(3);
+            expect(() => wotsPlus.signMessage(privateKey, publicKey.slice(1), message)).toThrow();
+            expect(() => wotsPlus.signMessage(privateKey.slice(1), publicKey, message)).toThrow();
+            expect(() => wotsPlus.signMessage(privateKey, publicKey, message, { randomizer: new Uint8Array(1) }))
+                .toThrow(/randomizer/);
+        });
+    });
+    describe('detailed verification', () => {
+        const wotsPlus = new WOTSPlus(keccak_256);
+        const publicSeed = numberToUint8Array(2);
+        const { publicKey, privateKey } = wotsPlus.generateKeyPair(numberToUint8Array(1), publicSeed);
+        const publicKeySegments = wotsPlus.derivePublicKeySegments(privateKey, publicSeed);
+        const message = keccak_256(new TextEncoder().encode('Hello World'));
+        const signature = wotsPlus.sign(privateKey, publicSeed, message);
+
+        it('should accept valid signatures', () => {
+            expect(wotsPlus.verifyDetailed(publicKey, message, signature)).toEqual({ valid: true });
+            expect(wotsPlus.verifyDetailed(publicKey, message, signature, { publicKeySegments }))
+                .toEqual({ valid: true });
+        });
+
+        it('should report the diverging chains of a mismatch', () => {
+            const tampered = signature.map(chunk => chunk.slice());
+            tampered[5][0] ^= 0x01;
+            tampered[66][0] ^= 0x01;
+            expect(wotsPlus.verifyDetailed(publicKey, message, tampered)).toEqual({ valid: false, kind: 'mismatch' });
+            expect(wotsPlus.verifyDetailed(publicKey, message, tampered, { publicKeySegments })).toEqual({
+                valid: false,
+                kind: 'mismatch',
+                chainIndex: 5,
+                chainIndexes: [5, 66],
+            });
+        });
+
+        it('should report malformed input instead of throwing', () => {
+            const result = wotsPlus.verifyDetailed(publicKey.slice(1), message, signature);
+            expect(result.valid).toBe(false);
+            if (result.valid || result.kind !== 'malformed') {
+                throw new Error('expected a malformed result');
+            }
+            expect(result.error).toBeInstanceOf(InvalidLengthError);
+            expect(result.error).toMatchObject({ code: ErrorCode.InvalidLength, field: 'publicKey', actual: 63 });
+
+            expect(wotsPlus.verifyDetailed(publicKey, message.slice(1), signature))
+                .toMatchObject({ valid: false, kind: 'malformed', error: { field: 'message' } });
+            expect(wotsPlus.verifyDetailed(publicKey, message, signature.slice(1)))
+                .toMatchObject({ valid: false, kind: 'malformed', error: { field: 'signature' } });
+            expect(wotsPlus.verifyDetailed(publicKey, message, [...signature.slice(1), new Uint8Array(3)]))
+                .toMatchObject({ valid: false, kind: 'malformed', error: { field: 'chainInput' } });
+            expect(wotsPlus.verifyDetailed(publicKey, message, signature, { publicKeySegments: [] }))
+                .toMatchObject({ valid: false, kind: 'malformed', error: { field: 'publicKeySegments' } });
+        });
+    });
+    describe('rfc8391 mode', () => {
+        const secretSeed = new Uint8Array(32).fill(0x11);
+        const publicSeed = new Uint8Array(32).fill(0x22);
+        const message = sha256(new TextEncoder().encode('Hello World'));
+
+        // Straight from RFC 8391 Algorithm 2 and NIST SP 800-208, independent of
+        // the scratch buffers in WOTSPlus.
+        const toByte = (x: number, n: number) => {
+            const out = new Uint8Array(n);
+            out[n - 1] = x;
+            return out;
+        };
+        const cat = (...parts: Uint8Array[]) => {
+            const out = new Uint8Array(parts.reduce((len, p) => len + p.length, 0));
+            let offset = 0;
+            for (const p of parts) {
+                out.set(p, offset);
+                offset += p.length;
+            }
+            return out;
+        };
+        const referencePublicKeySegment = (ots: number, chain: number, w: number) => {
+            const adrs = (hash: number, keyAndMask: number) =>
+                new Address().setType(AddressType.OTS).setOTSAddress(ots).setChainAddress(chain)
+                    .setHashAddress(hash).setKeyAndMask(keyAndMask).toBytes();
+            let tmp = sha256(cat(toByte(4, 32), secretSeed, publicSeed, adrs(0, 0)));
+            for (let i = 0; i < w - 1; i++) {
+                const key = sha256(cat(toByte(3, 32), publicSeed, adrs(i, 0)));
+                const bitmask = sha256(cat(toByte(3, 32), publicSeed, adrs(i, 1)));
+                tmp = sha256(cat(toByte(0, 32), key, tmp.map((b, j) => b ^ bitmask[j])));
+            }
+            return tmp;
+        };
+
+        it('should sign and verify with w = 4 and w = 16', () => {
+            for (const chainLen of [4, 16]) {
+                const wotsPlus = new WOTSPlus(sha256, 32, chainLen, 'rfc8391');
+                expect(wotsPlus.mode).toBe('rfc8391');
+                const { publicKey, privateKey } = wotsPlus.generateKeyPair(secretSeed, publicSeed);
+                expect(privateKey).toEqual(secretSeed);
+
+                const signature = wotsPlus.sign(privateKey, publicSeed, message);
+                expect(signature.length).toBe(wotsPlus.numSignatureChunks);
+                expect(wotsPlus.verify(publicKey, message, signature)).toBe(true);
+                expect(wotsPlus.recoverPublicKey(publicSeed, message, signature)).toEqual(publicKey);
+
+                const tampered = message.slice();
+                tampered[0] ^= 0x01;
+                expect(wotsPlus.verify(publicKey, tampered, signature)).toBe(false);
+            }
+        });
+
+        it('should match the RFC 8391 chaining function', () => {
+            const wotsPlus = new WOTSPlus(sha256, 32, 16, 'rfc8391');
+            const address = new Address().setOTSAddress(5);
+            const { publicKey } = wotsPlus.generateKeyPair(secretSeed, publicSeed, address);
+            const segments = wotsPlus.recoverPublicKeySegments(
+                publicSeed,
+                message,
+                wotsPlus.sign(secretSeed, publicSeed, message, address),
+                address
+            );
+
+            for (const chain of [0, 1, wotsPlus.numSignatureChunks - 1]) {
+                expect(segments[chain]).toEqual(referencePublicKeySegment(5, chain, 16));
+            }
+            expect(publicKey.slice(32)).toEqual(sha256(cat(...segments)));
+        });
+
+        // XMSS signatures made by an independent implementation, QRL's fork of
+        // xmss-reference (see `source` in the vector file). The WOTS+ public key
+        // recovered from each signature must hash, through the RFC 8391 L-tree
+        // and authentication path, to the published root. QRL derives secret
+        // segments with the expand_seed of the pre SP 800-208 reference code, so
+        // its keys cannot be regenerated from the seed; key generation is
+        // checked against the PRF_keygen transcription above.
+        it('should verify xmss-reference signatures', () => {
+            const vectors = xmssReferenceVectors;
+            const n = vectors.n;
+            const hash = (data: Uint8Array) => shake128(data, { dkLen: n });
+            const hex = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+            const root = hex(vectors.root);
+            const seed = hex(vectors.publicSeed);
+            const wotsPlus = new WOTSPlus(hash, n, vectors.w, 'rfc8391');
+
+            // RFC 8391 Algorithm 7, RAND_HASH
+            const randHash = (left: Uint8Array, right: Uint8Array, adrs: Address) => {
+                const prf = (keyAndMask: number) =>
+                    hash(cat(toByte(3, n), seed, adrs.clone().setKeyAndMask(keyAndMask).toBytes()));
+                const [key, leftMask, rightMask] = [prf(0), prf(1), prf(2)];
+                return hash(cat(
+                    toByte(1, n), key,
+                    left.map((b, i) => b ^ leftMask[i]), right.map((b, i) => b ^ rightMask[i])
+                ));
+            };
+            // RFC 8391 Algorithm 8, ltree
+            const lTree = (segments: Uint8Array[], index: number) => {
+                let nodes = segments;
+                for (let height = 0; nodes.length > 1; height++) {
+                    const next: Uint8Array[] = [];
+                    for (let i = 0; i + 1 < nodes.length; i += 2) {
+                        const adrs = new Address().setType(AddressType.LTree).setLTreeAddress(index)
+                            .setTreeHeight(height).setTreeIndex(i / 2);
+                        next.push(randHash(nodes[i], nodes[i + 1], adrs));
+                    }
+                    if (nodes.length % 2 === 1) {
+                        next.push(nodes[nodes.length - 1]);
+                    }
+                    nodes = next;
+                }
+                return nodes[0];
+            };
+
+            const chunksStart = 4 + n;
+            const authStart = chunksStart + wotsPlus.signatureSize;
+            for (const vector of vectors.signatures) {
+                const signature = hex(vector.signature);
+                expect(signature.length).toBe(authStart + vectors.height * n);
+                const index = new DataView(signature.buffer).getUint32(0);
+                const randomizer = signature.slice(4, chunksStart);
+                const chunks = Array.from({ length: wotsPlus.numSignatureChunks }, (_, i) =>
+                    signature.slice(chunksStart + i * n, chunksStart + (i + 1) * n));
+
+                // RFC 8391 section 5.1, H_msg(r || root || toByte(idx, n), M)
+                const digest = hash(cat(toByte(2, n), randomizer, root, toByte(index, n), hex(vector.message)));
+                const rootFrom = (wotsSignature: Uint8Array[]) => {
+                    const segments = wotsPlus.recoverPublicKeySegments(
+                        seed, digest, wotsSignature, new Address().setOTSAddress(index));
+                    let node = lTree(segments, index);
+                    for (let height = 0; height < vectors.height; height++) {
+                        const authNode = signature.slice(authStart + height * n, authStart + (height + 1) * n);
+                        const adrs = new Address().setType(AddressType.HashTree)
+                            .setTreeHeight(height).setTreeIndex(index >>> (height + 1));
+                        node = ((index >>> height) & 1) === 0
+                            ? randHash(node, authNode, adrs)
+                            : randHash(authNode, node, adrs);
+                    }
+                    return node;
+                };
+                expect(rootFrom(chunks)).toEqual(root);
+
+                chunks[0] = chunks[0].map(b => b ^ 0x01);
+                expect(rootFrom(chunks)).not.toEqual(root);
+            }
+        });
+
+        it('should separate key pairs by OTS address', () => {
+            const wotsPlus = new WOTSPlus(sha256, 32, 16, 'rfc8391');
+            const address = new Address().setLayerAddress(1).setTreeAddress(2).setOTSAddress(3);
+            const a = wotsPlus.generateKeyPair(secretSeed, publicSeed, address);
+            const b = wotsPlus.generateKeyPair(secretSeed, publicSeed, address.clone().setOTSAddress(4));
+            expect(a.publicKey).not.toEqual(b.publicKey);
+
+            const signature = wotsPlus.sign(a.privateKey, publicSeed, message, address);
+            expect(wotsPlus.verify(a.publicKey, message, signature, address)).toBe(true);
+            expect(wotsPlus.verify(a.publicKey, message, signature)).toBe(false);
+
+            // the caller's address is not modified
+            expect(address.toBytes()).toEqual(
+                new Address().setLayerAddress(1).setTreeAddress(2).setOTSAddress(3).toBytes()
+            );
+        });
+
+        it('should keep quip as the default mode', () => {
+            const wotsPlus = new WOTSPlus(keccak_256);
+            expect(wotsPlus.mode).toBe('quip');
+            const vector = testVectors.vector0;
+            const publicKey = new Uint8Array(Buffer.from(vector.publicKey.slice(2), 'hex'));
+            const message = new Uint8Array(Buffer.from(vector.message.slice(2), 'hex'));
+            const signature = vector.signature.map(s => new Uint8Array(Buffer.from(s.slice(2), 'hex')));
+            expect(wotsPlus.verify(publicKey, message, signature)).toBe(true);
+
+            const rfc = new WOTSPlus(keccak_256, 32, 16, 'rfc8391');
+            expect(rfc.verify(publicKey, message, signature)).toBe(false);
+        });
+
+        it('should reject mode mismatches', () => {
+            const quip = new WOTSPlus(sha256);
+            const rfc = new WOTSPlus(sha256, 32, 16, 'rfc8391');
+            expect(() => quip.generateKeyPair(secretSeed, publicSeed, new Address())).toThrow(/rfc8391/);
+            expect(() => rfc.generateRandomizationElements(publicSeed)).toThrow(/rfc8391/);
+            expect(() => rfc.generateKeyPair(secretSeed.slice(1), publicSeed)).toThrow(/private seed/);
+            expect(() => rfc.generateKeyPair(secretSeed, publicSeed, new Address().setType(AddressType.LTree)))
+                .toThrow(/OTS/);
+            expect(() => new WOTSPlus(sha256, 32, 16, 'xmss' as 'quip')).toThrow(/Mode/);
+        });
+    });
 });
@@ -11,32 +11,91 @@
 // MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
 // GNU Affero General Public License for more details.
 
-// Buffer utility for cross-platform compatibility
-const BufferUtil = {
-    equals: (a: Uint8Array, b: Uint8Array): boolean => {
-        if (a.length !== b.length) return false;
-        for (let i = 0; i < a.length; i++) {
-            if (a[i] !== b[i]) return false;
-        }
-        return true;
-    },
+import { randomBytes } from '@noble/hashes/utils';
+import { BufferUtil } from './utils';
+import { ParameterSet, getParameterSet } from './params';
+import { Address, AddressType, ADRS_SIZE } from './address';
+import { HashSigsError, InvalidLengthError, InvalidParameterError } from './errors';
+import { SignatureScheme } from './scheme';
 
-    from: (data: Uint8Array): Uint8Array => {
-        if (typeof Buffer !== 'undefined') {
-            return Buffer.from(data);
-        }
-        return new Uint8Array(data);
-    }
-};
+// IncrementalHash is the streaming interface of @noble/hashes hashes
+// (`keccak_256.create().update(data).digest()`).
+export interface IncrementalHash {
+    update(data: Uint8Array): IncrementalHash;
+    digest(): Uint8Array;
+    digestInto?(out: Uint8Array): void;
+    outputLen?: number;
+    // destroy: Wipe the internal state, as @noble/hashes instances can.
+    destroy?(): void;
+    // _cloneInto: Copy the state into `to`, as @noble/hashes instances can.
+    _cloneInto?(to?: IncrementalHash): IncrementalHash;
+}
+
+// ReusableHash: An incremental hash WOTSPlus can reset by copying a fresh
+// instance over it, so one hasher serves every hash step.
+type ReusableHash = IncrementalHash & Required<Pick<IncrementalHash, 'digestInto' | '_cloneInto'>>;
+
+// isReusableHash: Whether `hasher` can be reset in place and writes HashLen
+// byte digests into `out`.
+function isReusableHash(hasher: IncrementalHash | undefined, hashLen: number): hasher is ReusableHash {
+    return hasher?.digestInto !== undefined && hasher._cloneInto !== undefined && hasher.outputLen === hashLen;
+}
 
 // HashFunction interface defines the shape of hash functions that can be used
+// If the function also provides `create` (as @noble/hashes functions do), digests
+// are written straight into preallocated buffers instead of new arrays, and
+// hashers that support `_cloneInto` are created once per instance.
+// If it provides `hashMany` (as the backends in `backend.ts` do), WOTSPlus
+// advances all chains in lockstep and hashes each step as one batch.
 export interface HashFunction {
     (data: Uint8Array): Uint8Array;
+    create?: () => IncrementalHash;
+    hashMany?: (inputs: Uint8Array[]) => Uint8Array[];
 }
 
-export class WOTSPlus {
+// WOTSPlusMode selects how the hash calls are keyed.
+// - 'quip': the default, compatible with the Quip Solidity verifier. One set of
+//   randomization elements from the public seed is shared by every chain.
+// - 'rfc8391': XMSS RFC 8391 section 3.1, where every PRF and F call is
+//   tweaked by a 32 byte address (ADRS) so each chain step has its own key
+//   and bitmask.
+export type WOTSPlusMode = 'quip' | 'rfc8391';
+
+// VerifyResult is the result of `verifyDetailed`.
+// - kind 'malformed': the input has the wrong shape and could not be checked;
+//   `error` says which input and how.
+// - kind 'mismatch': the input was checked and the signature is not valid.
+//   When the expected public key segments are known, `chainIndexes` lists the
+//   chains whose recomputed segment differs and `chainIndex` is the first.
+export type VerifyResult =
+    | { valid: true }
+    | { valid: false, kind: 'malformed', error: HashSigsError }
+    | { valid: false, kind: 'mismatch', chainIndex?: number, chainIndexes?: number[] };
+
+// MessageSignature is the result of `signMessage`: the randomizer that was
+// mixed into the message digest and the WOTS+ signature of that digest.
+export interface MessageSignature {
+    randomizer: Uint8Array;
+    signature: Uint8Array[];
+}
+
+export class WOTSPlus implements SignatureScheme {
     private readonly hashFn: HashFunction;
 
+    // Scratch buffers reused by prf, chain and secret key segment derivation so
+    // the hot path does not allocate on every hash step. They are only used
+    // within a single synchronous call, so sharing them per instance is safe.
+    private readonly prfBuffer: Uint8Array;       // 0x03 || seed || index
+    private readonly xorBuffer: Uint8Array;       // chainOut XOR randomization element
+    private readonly segmentBuffer: Uint8Array;   // functionKey || prf(privateKey, i)
+    private readonly segmentPrfView: Uint8Array;  // second half of segmentBuffer
+    private readonly rfcPrfBuffer: Uint8Array;    // toByte(3, n) || SEED || ADRS
+    private readonly rfcFBuffer: Uint8Array;      // toByte(0, n) || KEY || (M XOR BM)
+    private readonly rfcKeygenBuffer: Uint8Array; // toByte(4, n) || SK_SEED || SEED || ADRS
+    // Hashers reused by hashInto: `fresh` is never updated and is copied over
+    // `work` before each hash. Undefined when the hash function cannot do this.
+    private readonly hashers?: { fresh: ReusableHash, work: ReusableHash };
+
     // HashLen: The WOTS+ `n` security parameter which is the size 
     // of the hash function output in bytes.
     // This is 32 for keccak256 (256 / 8 = 32)
@@ -63,6 +122,7 @@ export class WOTSPlus {
     // 
     // For XMSS (rfc8391) this value is limited to 4 or 16 because
     // they simplify the algorithm and offer the best trade-offs.
+    // We accept any power of 2 from 2 to 256 (lg(w) of 1 to 8 bits).
     public readonly chainLen: number;
 
     // lg(ChainLen) so we don't calculate it repeatedly
@@ -85,18 +145,40 @@ export class WOTSPlus {
 
     public readonly numSignatureChunks: number;
 
+    // NumRandomizationElements: the number of randomization elements
+    // generated from the public seed. The chain function indexes them by
+    // step, and the key derivation by chunk, so we need
+    // max(NumSignatureChunks, ChainLen) of them.
+    public readonly numRandomizationElements: number;
+
     // SignatureSize: The size of the signature in bytes.
     public readonly signatureSize: number;
 
     // PublicKeySize: The size of the public key in bytes.
     public readonly publicKeySize: number;
 
+    // PrivateKeySize: The size of the private key material `signBytes` takes,
+    // privateKey || publicSeed.
+    public readonly privateKeySize: number;
+
+    // ParameterSet: The named parameter set this instance was built from,
+    // if it was built with `fromParameterSet` or given one. A given set must
+    // match the hash function, `n` and `w` of the instance, in quip mode.
+    public readonly parameterSet?: ParameterSet;
+
+    // Mode: How hash calls are keyed, see WOTSPlusMode.
+    public readonly mode: WOTSPlusMode;
+
     constructor(
         hashFunction: HashFunction,
         hashLen?: number,
-        chainLen: number = 16
+        chainLen: number = 16,
+        mode: WOTSPlusMode = 'quip',
+        parameterSet?: ParameterSet
     ) {
         this.hashFn = hashFunction;
+        this.mode = mode;
+        this.parameterSet = parameterSet;
         
         // Initialize core parameters
         this.hashLen = hashLen ?? 32; // Default to 32 bytes if not specified
@@ -116,33 +198,135 @@ export class WOTSPlus {
 
         // Calculate remaining parameters
         this.numSignatureChunks = this.numMessageChunks + this.numChecksumChunks;
+        this.numRandomizationElements = Math.max(this.numSignatureChunks, this.chainLen);
         this.signatureSize = this.numSignatureChunks * this.hashLen;
         this.publicKeySize = this.hashLen * 2;
+        this.privateKeySize = this.hashLen * 2;
 
         // Validate parameters
         this.validateParameters();
+
+        this.prfBuffer = new Uint8Array(1 + this.hashLen + 2);
+        this.xorBuffer = new Uint8Array(this.hashLen);
+        this.segmentBuffer = new Uint8Array(2 * this.hashLen);
+        this.segmentPrfView = this.segmentBuffer.subarray(this.hashLen);
+        this.rfcPrfBuffer = new Uint8Array(2 * this.hashLen + ADRS_SIZE);
+        this.rfcFBuffer = new Uint8Array(3 * this.hashLen);
+        this.rfcKeygenBuffer = new Uint8Array(3 * this.hashLen + ADRS_SIZE);
+        const fresh = this.hashFn.create?.();
+        if (isReusableHash(fresh, this.hashLen)) {
+            const work = fresh._cloneInto();
+            if (isReusableHash(work, this.hashLen)) {
+                this.hashers = { fresh, work };
+            }
+        }
+        this.zeroize();
+    }
+
+    // zeroize: Wipe the scratch buffers and the reused hasher. While signing
+    // and generating keys they hold the private key and secret chain values; `sign`, `generateKeyPair`
+    // and `derivePublicKey` call this before returning.
+    public zeroize(): void {
+        this.prfBuffer.fill(0);
+        this.xorBuffer.fill(0);
+        this.segmentBuffer.fill(0);
+        this.rfcPrfBuffer.fill(0);
+        this.rfcPrfBuffer.set(BufferUtil.toBytes(3, this.hashLen), 0);
+        this.rfcFBuffer.fill(0);
+        this.rfcFBuffer.set(BufferUtil.toBytes(0, this.hashLen), 0);
+        this.rfcKeygenBuffer.fill(0);
+        this.rfcKeygenBuffer.set(BufferUtil.toBytes(4, this.hashLen), 0);
+        this.hashers?.work.destroy?.();
+    }
+
+    // fromParameterSet: Build an instance from a registered parameter set,
+    // looked up by name (e.g. "WOTSP-KECCAK256-W16") or by OID.
+    public static fromParameterSet(nameOrOid: string | number): WOTSPlus {
+        const parameterSet = getParameterSet(nameOrOid);
+        return new WOTSPlus(
+            parameterSet.hashFunction,
+            parameterSet.hashLen,
+            parameterSet.chainLen,
+            'quip',
+            parameterSet
+        );
     }
 
     private validateParameters(): void {
+        if (this.mode !== 'quip' && this.mode !== 'rfc8391') {
+            throw new InvalidParameterError("Mode must be either quip or rfc8391");
+        }
+
         // Ensure chainLen is a power of 2
-        if ((this.chainLen & (this.chainLen - 1)) !== 0) {
-            throw new Error("ChainLen must be a power of 2");
+        if (!Number.isInteger(this.chainLen) || (this.chainLen & (this.chainLen - 1)) !== 0) {
+            throw new InvalidParameterError("ChainLen must be a power of 2");
         }
 
         // Ensure hashLen is positive
-        if (this.hashLen <= 0) {
-            throw new Error("HashLen must be positive");
+        if (!Number.isInteger(this.hashLen) || this.hashLen <= 0) {
+            throw new InvalidParameterError("HashLen must be positive");
+        }
+
+        // Base-w digits are at most one byte wide
+        if (this.chainLen < 2 || this.chainLen > 256) {
+            throw new InvalidParameterError("ChainLen must be between 2 and 256");
+        }
+
+        // The prf encodes the index in 2 bytes
+        if (this.numRandomizationElements > 0xFFFF) {
+            throw new InvalidParameterError("HashLen is too large for the prf index");
         }
 
-        // Additional validations as needed
-        if (this.chainLen !== 16 && this.chainLen !== 4) {
-            throw new Error("ChainLen must be either 4 or 16 for XMSS compatibility");
+        // A parameter set names a quip mode configuration, it must be this one
+        const set = this.parameterSet;
+        if (set !== undefined && (
+            set.hashFunction !== this.hashFn ||
+            set.hashLen !== this.hashLen ||
+            set.chainLen !== this.chainLen ||
+            this.mode !== 'quip'
+        )) {
+            throw new InvalidParameterError(`Parameter set ${set.name} does not match the instance configuration`);
         }
     }
 
     // Hash: The WOTS+ `F` hash function.
+    // Outputs longer than HashLen are truncated, as SPHINCS+ does for n < 32.
     private hash(data: Uint8Array): Uint8Array {
-        return this.hashFn(data);
+        return this.truncate(this.hashFn(data));
+    }
+
+    private truncate(digest: Uint8Array): Uint8Array {
+        if (digest.length === this.hashLen) {
+            return digest;
+        }
+        if (digest.length < this.hashLen) {
+            throw new InvalidParameterError(`hash function output must be at least ${this.hashLen} bytes`);
+        }
+        return digest.slice(0, this.hashLen);
+    }
+
+    // hashInto: Hash `data` into `out`, which is HashLen bytes.
+    // With a reusable hasher the digest is written in place without creating
+    // a hasher; other incremental hashes are created per call.
+    private hashInto(data: Uint8Array, out: Uint8Array): void {
+        if (this.hashers !== undefined) {
+            const { fresh, work } = this.hashers;
+            fresh._cloneInto(work);
+            work.update(data);
+            work.digestInto(out);
+            return;
+        }
+        if (this.hashFn.create !== undefined) {
+            const hasher = this.hashFn.create().update(data);
+            if (hasher.digestInto !== undefined && hasher.outputLen === this.hashLen) {
+                hasher.digestInto(out);
+                hasher.destroy?.();
+                return;
+            }
+            out.set(this.truncate(hasher.digest()));
+            return;
+        }
+        out.set(this.hash(data));
     }
 
     // prf: Generate randomization elements from seed and index
@@ -150,22 +334,32 @@ export class WOTSPlus {
     // NOTE: while sha256 and ripemd160 are available in solidity,
     // they are implemented as precompiled contracts and are more expensive for gas. 
     private prf(seed: Uint8Array, index: number): Uint8Array {
+        const out = new Uint8Array(this.hashLen);
+        this.prfInto(seed, index, out);
+        return out;
+    }
+
+    // prfInto: prf writing its output into `out`.
+    private prfInto(seed: Uint8Array, index: number, out: Uint8Array): void {
         // Create a buffer with prefix (0x03), seed, and index
-        const buffer = new Uint8Array(1 + seed.length + 2);
+        const buffer = seed.length === this.hashLen
+            ? this.prfBuffer
+            : new Uint8Array(1 + seed.length + 2);
         buffer[0] = 0x03;  // prefix to domain separate
         buffer.set(seed, 1);  // the seed input
         // Set index as 2 bytes (uint16)
         buffer[seed.length + 1] = (index >> 8) & 0xFF;
         buffer[seed.length + 2] = index & 0xFF;
         
-        return this.hash(buffer);
+        this.hashInto(buffer, out);
     }
 
     // Generate randomization elements from seed and index
     // Similar to XMSS RFC 8391 section 5.1
     public generateRandomizationElements(publicSeed: Uint8Array): Uint8Array[] {
+        this.requireQuipMode('randomization elements');
         const elements: Uint8Array[] = [];
-        for (let i = 0; i < this.numSignatureChunks; i++) {
+        for (let i = 0; i < this.numRandomizationElements; i++) {
             elements.push(this.prf(publicSeed, i));
         }
         return elements;
@@ -175,97 +369,317 @@ export class WOTSPlus {
     // the hash of (prevChainOut XOR randomization element at index).
     // As a practical matter, we generate the randomization elements
     // via a seed like in XMSS(rfc8391) with a defined PRF.
+    //
+    // The chain is computed in `out`, which may be `prevChainOut` itself.
     private chain(
         prevChainOut: Uint8Array, 
         randomizationElements: Uint8Array[], 
         index: number, 
-        steps: number
+        steps: number,
+        out: Uint8Array = new Uint8Array(this.hashLen)
     ): Uint8Array {
         if (index + steps >= this.chainLen) {
-            throw new Error("steps + index must be less than ChainLen");
+            throw new InvalidParameterError("steps + index must be less than ChainLen");
+        }
+        if (prevChainOut.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                'Arrays must have equal length',
+                'chainInput', this.hashLen, prevChainOut.length
+            );
         }
 
-        let chainOut = prevChainOut;
+        if (out !== prevChainOut) {
+            out.set(prevChainOut);
+        }
         for (let i = 1; i <= steps; i++) {
-            const xored = this.xor(chainOut, randomizationElements[i + index]);
-            chainOut = this.hash(xored);
+            this.xorInto(out, randomizationElements[i + index], this.xorBuffer);
+            this.hashInto(this.xorBuffer, out);
         }
-        return chainOut;
+        return out;
     }
 
-    // xor: Bitwise XOR of two byte arrays
-    private xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+    // xorInto: Bitwise XOR of two byte arrays into `out`
+    private xorInto(a: Uint8Array, b: Uint8Array, out: Uint8Array): void {
         if (a.length !== b.length) {
-            throw new Error('Arrays must have equal length');
+            throw new InvalidLengthError('Arrays must have equal length', 'xorInput', a.length, b.length);
         }
-        const result = new Uint8Array(a.length);
         for (let i = 0; i < a.length; i++) {
-            result[i] = a[i] ^ b[i];
+            out[i] = a[i] ^ b[i];
         }
-        return result;
+    }
+
+    // secretKeySegmentInto: The secret key segment for chunk `index`,
+    // hash(functionKey || prf(privateKey, index + 1)), written into `out`.
+    private secretKeySegmentInto(
+        privateKey: Uint8Array,
+        functionKey: Uint8Array,
+        index: number,
+        out: Uint8Array
+    ): void {
+        this.segmentBuffer.set(functionKey, 0);
+        this.prfInto(privateKey, index + 1, this.segmentPrfView);
+        this.hashInto(this.segmentBuffer, out);
     }
 
     // Generate key pair
-    public generateKeyPair(privateSeed: Uint8Array, publicSeed: Uint8Array): {
+    // `address` is the OTS address of the key pair in RFC 8391 mode.
+    public generateKeyPair(privateSeed: Uint8Array, publicSeed: Uint8Array, address?: Address): {
         publicKey: Uint8Array,
         privateKey: Uint8Array
     } {
-        const combinedSeed = new Uint8Array([...privateSeed, ...publicSeed]);
+        if (this.mode !== 'rfc8391') {
+            this.rejectAddress(address);
+        }
+        const privateKey = this.derivePrivateKey(privateSeed, publicSeed);
+        const publicKey = this.derivePublicKey(privateKey, publicSeed, address);
+        return { publicKey, privateKey };
+    }
+
+    // derivePrivateKey: The private key `generateKeyPair` derives from the seeds,
+    // without computing the chains of the public key.
+    public derivePrivateKey(privateSeed: Uint8Array, publicSeed: Uint8Array): Uint8Array {
+        if (publicSeed.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `public seed length must be ${this.hashLen} bytes`,
+                'publicSeed', this.hashLen, publicSeed.length
+            );
+        }
+        if (this.mode === 'rfc8391') {
+            if (privateSeed.length !== this.hashLen) {
+                throw new InvalidLengthError(
+                    `private seed length must be ${this.hashLen} bytes`,
+                    'privateSeed', this.hashLen, privateSeed.length
+                );
+            }
+            return privateSeed.slice();
+        }
+        const combinedSeed = BufferUtil.concat(privateSeed, publicSeed);
         const privateKey = this.hash(combinedSeed);
-        
-        const randomizationElements = this.generateRandomizationElements(publicSeed);
-        const functionKey = randomizationElements[0];
-        
-        const publicKeySegments = new Uint8Array(this.numSignatureChunks * this.hashLen);
+        combinedSeed.fill(0);
+        return privateKey;
+    }
+
+    // derivePublicKey: The public key of an existing private key,
+    // publicSeed || hash(publicKeySegments).
+    public derivePublicKey(privateKey: Uint8Array, publicSeed: Uint8Array, address?: Address): Uint8Array {
+        try {
+            const publicKeySegments = this.publicKeySegmentBytes(privateKey, publicSeed, address);
+            return BufferUtil.concat(publicSeed, this.hash(publicKeySegments));
+        } finally {
+            this.zeroize();
+        }
+    }
 
+    // derivePublicKeySegments: The ends of every hash chain of a private key.
+    public derivePublicKeySegments(privateKey: Uint8Array, publicSeed: Uint8Array, address?: Address): Uint8Array[] {
+        let publicKeySegments: Uint8Array;
+        try {
+            publicKeySegments = this.publicKeySegmentBytes(privateKey, publicSeed, address);
+        } finally {
+            this.zeroize();
+        }
+        const segments: Uint8Array[] = new Array(this.numSignatureChunks);
         for (let i = 0; i < this.numSignatureChunks; i++) {
-            const secretKeySegment = this.hash(
-                new Uint8Array([...functionKey, ...this.prf(privateKey, i + 1)])
+            segments[i] = publicKeySegments.slice(i * this.hashLen, (i + 1) * this.hashLen);
+        }
+        return segments;
+    }
+
+    // publicKeySegmentBytes: The public key segments back to back.
+    private publicKeySegmentBytes(privateKey: Uint8Array, publicSeed: Uint8Array, address?: Address): Uint8Array {
+        if (privateKey.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `private key length must be ${this.hashLen} bytes`,
+                'privateKey', this.hashLen, privateKey.length
+            );
+        }
+        if (publicSeed.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `public seed length must be ${this.hashLen} bytes`,
+                'publicSeed', this.hashLen, publicSeed.length
             );
-            const segment = this.chain(secretKeySegment, randomizationElements, 0, this.chainLen - 1);
-            
-            // Copy segment to the correct position in publicKeySegments
-            publicKeySegments.set(segment, i * this.hashLen);
         }
 
-        const publicKeyHash = this.hash(publicKeySegments);
-        
-        // Combine publicSeed and publicKeyHash to form the complete public key
-        const publicKey = new Uint8Array([...publicSeed, ...publicKeyHash]);
+        const publicKeySegments = new Uint8Array(this.numSignatureChunks * this.hashLen);
+        if (this.mode === 'rfc8391') {
+            const adrs = this.otsAddress(address);
+            if (this.hashFn.hashMany !== undefined) {
+                const segments: Uint8Array[] = new Array(this.numSignatureChunks);
+                for (let i = 0; i < this.numSignatureChunks; i++) {
+                    segments[i] = publicKeySegments.subarray(i * this.hashLen, (i + 1) * this.hashLen);
+                }
+                this.rfcSecretKeySegmentsInto(privateKey, publicSeed, adrs, segments);
+                this.rfcLockstepChains(segments, publicSeed, adrs,
+                    new Array(this.numSignatureChunks).fill(0),
+                    new Array(this.numSignatureChunks).fill(this.chainLen - 1));
+                return publicKeySegments;
+            }
+            for (let i = 0; i < this.numSignatureChunks; i++) {
+                const segment = publicKeySegments.subarray(i * this.hashLen, (i + 1) * this.hashLen);
+                this.rfcSecretKeySegmentInto(privateKey, publicSeed, adrs, i, segment);
+                this.rfcChain(segment, 0, this.chainLen - 1, publicSeed, adrs, segment);
+            }
+            return publicKeySegments;
+        }
+        this.rejectAddress(address);
 
-        return { publicKey, privateKey };
+        const randomizationElements = this.generateRandomizationElements(publicSeed);
+        const functionKey = randomizationElements[0];
+
+        if (this.hashFn.hashMany !== undefined) {
+            const segments: Uint8Array[] = new Array(this.numSignatureChunks);
+            for (let i = 0; i < this.numSignatureChunks; i++) {
+                segments[i] = publicKeySegments.subarray(i * this.hashLen, (i + 1) * this.hashLen);
+            }
+            this.secretKeySegmentsInto(privateKey, functionKey, segments);
+            this.lockstepChains(segments, randomizationElements,
+                new Array(this.numSignatureChunks).fill(0),
+                new Array(this.numSignatureChunks).fill(this.chainLen - 1));
+            return publicKeySegments;
+        }
+
+        for (let i = 0; i < this.numSignatureChunks; i++) {
+            // Each chain is computed in place at its position in publicKeySegments
+            const segment = publicKeySegments.subarray(i * this.hashLen, (i + 1) * this.hashLen);
+            this.secretKeySegmentInto(privateKey, functionKey, i, segment);
+            this.chain(segment, randomizationElements, 0, this.chainLen - 1, segment);
+        }
+        return publicKeySegments;
     }
 
     // sign: Sign a message with a WOTS+ private key. 
     public sign(
         privateKey: Uint8Array, 
         publicSeed: Uint8Array,
-        message: Uint8Array
+        message: Uint8Array,
+        address?: Address
     ): Uint8Array[] {
         if (privateKey.length !== this.hashLen) {
-            throw new Error(`private key length must be ${this.hashLen} bytes`);
+            throw new InvalidLengthError(
+                `private key length must be ${this.hashLen} bytes`,
+                'privateKey', this.hashLen, privateKey.length
+            );
         }
         if (message.length !== this.messageLen) {
-            throw new Error(`message length must be ${this.messageLen} bytes`);
+            throw new InvalidLengthError(
+                `message length must be ${this.messageLen} bytes`,
+                'message', this.messageLen, message.length
+            );
         }
+        try {
+            if (this.mode === 'rfc8391') {
+                return this.rfcSign(privateKey, publicSeed, message, this.otsAddress(address));
+            }
+            this.rejectAddress(address);
+            return this.quipSign(privateKey, publicSeed, message);
+        } finally {
+            this.zeroize();
+        }
+    }
 
+    private quipSign(privateKey: Uint8Array, publicSeed: Uint8Array, message: Uint8Array): Uint8Array[] {
         const randomizationElements = this.generateRandomizationElements(publicSeed);
         const functionKey = randomizationElements[0];
         
         const signature: Uint8Array[] = new Array(this.numSignatureChunks);
         const chainSegments = this.computeMessageHashChainIndexes(message);
 
+        if (this.hashFn.hashMany !== undefined) {
+            for (let i = 0; i < this.numSignatureChunks; i++) {
+                signature[i] = new Uint8Array(this.hashLen);
+            }
+            this.secretKeySegmentsInto(privateKey, functionKey, signature);
+            this.lockstepChains(signature, randomizationElements,
+                new Array(this.numSignatureChunks).fill(0), chainSegments);
+            return signature;
+        }
+
         for (let i = 0; i < chainSegments.length; i++) {
             const chainIdx = chainSegments[i];
-            const secretKeySegment = this.hash(
-                new Uint8Array([...functionKey, ...this.prf(privateKey, i + 1)])
-            );
-            signature[i] = this.chain(secretKeySegment, randomizationElements, 0, chainIdx);
+            const chunk = new Uint8Array(this.hashLen);
+            this.secretKeySegmentInto(privateKey, functionKey, i, chunk);
+            signature[i] = this.chain(chunk, randomizationElements, 0, chainIdx, chunk);
         }
 
         return signature;
     }
 
+    // hashMessage: The message digest `H_msg` signed by `signMessage`.
+    // Similar to XMSS RFC 8391 section 5.1, the digest of an arbitrary length
+    // message is keyed by a randomizer and the signer's public key:
+    // hash(0x02 || randomizer || publicKey || message).
+    // Keying by the public key prevents multi-target attacks across signers.
+    public hashMessage(
+        randomizer: Uint8Array,
+        publicKey: Uint8Array,
+        message: Uint8Array
+    ): Uint8Array {
+        if (randomizer.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `randomizer length must be ${this.hashLen} bytes`,
+                'randomizer', this.hashLen, randomizer.length
+            );
+        }
+        if (publicKey.length !== this.publicKeySize) {
+            throw new InvalidLengthError(
+                `public key length must be ${this.publicKeySize} bytes`,
+                'publicKey', this.publicKeySize, publicKey.length
+            );
+        }
+        return this.hash(BufferUtil.concat(
+            new Uint8Array([0x02]),  // prefix to domain separate
+            randomizer,
+            publicKey,
+            message
+        ));
+    }
+
+    // signMessage: Sign a message of any length.
+    // By default the randomizer is derived from the private key and message,
+    // hash(0x05 || privateKey || message), so signing the same message again
+    // signs the same digest and reveals no further chain values. Pass
+    // `randomized: true` for a fresh random randomizer, which makes every
+    // retry a second one-time signature, or a `randomizer` to use a specific one.
+    // The fixed-length `sign` remains available for callers that sign raw digests.
+    public signMessage(
+        privateKey: Uint8Array,
+        publicKey: Uint8Array,
+        message: Uint8Array,
+        options: { randomizer?: Uint8Array, randomized?: boolean } = {}
+    ): MessageSignature {
+        if (privateKey.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `private key length must be ${this.hashLen} bytes`,
+                'privateKey', this.hashLen, privateKey.length
+            );
+        }
+
+        let randomizer: Uint8Array;
+        if (options.randomizer !== undefined) {
+            randomizer = options.randomizer.slice();
+        } else if (options.randomized === true) {
+            randomizer = randomBytes(this.hashLen);
+        } else {
+            const randomizerInput = BufferUtil.concat(new Uint8Array([0x05]), privateKey, message);
+            randomizer = this.hash(randomizerInput);
+            randomizerInput.fill(0);
+        }
+
+        const digest = this.hashMessage(randomizer, publicKey, message);
+        const publicSeed = publicKey.slice(0, this.hashLen);
+        return { randomizer, signature: this.sign(privateKey, publicSeed, digest) };
+    }
+
+    // verifyMessage: Verify a signature made with `signMessage`.
+    public verifyMessage(
+        publicKey: Uint8Array,
+        message: Uint8Array,
+        messageSignature: MessageSignature
+    ): boolean {
+        const digest = this.hashMessage(messageSignature.randomizer, publicKey, message);
+        return this.verify(publicKey, digest, messageSignature.signature);
+    }
+
     // verify: Verify a WOTS+ signature. 
     // 1. The first part of the publicKey is a public seed used to regenerate the randomization elements. (`r` from the paper).
     // 2. The second part of the publicKey is the hash of the NumMessageChunks + NumChecksumChunks public key segments.
@@ -276,14 +690,24 @@ export class WOTSPlus {
     public verify(
         publicKey: Uint8Array,
         message: Uint8Array,
-        signature: Uint8Array[]
+        signature: Uint8Array[],
+        address?: Address
     ): boolean {
         if (publicKey.length !== this.publicKeySize) {
-            throw new Error(`public key length must be ${this.publicKeySize} bytes`);
+            throw new InvalidLengthError(
+                `public key length must be ${this.publicKeySize} bytes`,
+                'publicKey', this.publicKeySize, publicKey.length
+            );
         }
 
         const publicSeed = publicKey.slice(0, this.hashLen);
         const publicKeyHash = publicKey.slice(this.hashLen, this.publicKeySize);
+
+        if (this.mode === 'rfc8391') {
+            const computedHash = this.recoverPublicKeyHash(publicSeed, message, signature, address);
+            return BufferUtil.equals(computedHash, publicKeyHash);
+        }
+        this.rejectAddress(address);
         
         const randomizationElements = this.generateRandomizationElements(publicSeed);
         
@@ -295,6 +719,68 @@ export class WOTSPlus {
         );
     }
 
+    // verifyDetailed: Like `verify`, but never throws for malformed input and
+    // says why a signature failed. Pass the expected `publicKeySegments` (e.g.
+    // from key generation or a test vector) to learn which chains diverged;
+    // the public key alone only holds their hash.
+    public verifyDetailed(
+        publicKey: Uint8Array,
+        message: Uint8Array,
+        signature: Uint8Array[],
+        options: { publicKeySegments?: Uint8Array[], address?: Address } = {}
+    ): VerifyResult {
+        const { publicKeySegments, address } = options;
+        let recovered: Uint8Array;
+        try {
+            if (publicKey.length !== this.publicKeySize) {
+                throw new InvalidLengthError(
+                    `public key length must be ${this.publicKeySize} bytes`,
+                    'publicKey', this.publicKeySize, publicKey.length
+                );
+            }
+            if (publicKeySegments !== undefined) {
+                if (publicKeySegments.length !== this.numSignatureChunks) {
+                    throw new InvalidLengthError(
+                        `public key segments length must be ${this.numSignatureChunks}`,
+                        'publicKeySegments', this.numSignatureChunks, publicKeySegments.length
+                    );
+                }
+                for (const segment of publicKeySegments) {
+                    if (segment.length !== this.hashLen) {
+                        throw new InvalidLengthError(
+                            `public key segments must be ${this.hashLen} bytes`,
+                            'publicKeySegment', this.hashLen, segment.length
+                        );
+                    }
+                }
+            }
+            recovered = this.recoverPublicKeySegmentBytes(
+                publicKey.subarray(0, this.hashLen), message, signature, address
+            );
+        } catch (err) {
+            if (err instanceof HashSigsError) {
+                return { valid: false, kind: 'malformed', error: err };
+            }
+            throw err;
+        }
+
+        if (BufferUtil.equals(this.hash(recovered), publicKey.subarray(this.hashLen))) {
+            return { valid: true };
+        }
+        if (publicKeySegments === undefined) {
+            return { valid: false, kind: 'mismatch' };
+        }
+
+        const chainIndexes: number[] = [];
+        for (let i = 0; i < this.numSignatureChunks; i++) {
+            const segment = recovered.subarray(i * this.hashLen, (i + 1) * this.hashLen);
+            if (!BufferUtil.equals(segment, publicKeySegments[i])) {
+                chainIndexes.push(i);
+            }
+        }
+        return { valid: false, kind: 'mismatch', chainIndex: chainIndexes[0], chainIndexes };
+    }
+
     // verify: Verify a WOTS+ signature. 
     // 1. The first part of the publicKey is a public seed used to regenerate the randomization elements. (`r` from the paper).
     // 2. The second part of the publicKey is the hash of the NumMessageChunks + NumChecksumChunks public key segments.
@@ -309,17 +795,85 @@ export class WOTSPlus {
         randomizationElements: Uint8Array[]
     ): boolean {
         if (publicKeyHash.length !== this.hashLen) {
-            throw new Error(`public key hash length must be ${this.hashLen} bytes`);
+            throw new InvalidLengthError(
+                `public key hash length must be ${this.hashLen} bytes`,
+                'publicKeyHash', this.hashLen, publicKeyHash.length
+            );
+        }
+        if (message.length !== this.messageLen) {
+            throw new InvalidLengthError(
+                `message length must be ${this.messageLen} bytes`,
+                'message', this.messageLen, message.length
+            );
+        }
+        if (signature.length !== this.numSignatureChunks) {
+            throw new InvalidLengthError(
+                `signature length must be ${this.numSignatureChunks}`,
+                'signature', this.numSignatureChunks, signature.length
+            );
+        }
+
+        const computedHash = this.computePublicKeyHash(message, signature, randomizationElements);
+        return BufferUtil.equals(computedHash, publicKeyHash);
+    }
+
+    // computePublicKeyHash: Complete every hash chain of a signature and return the
+    // hash of the resulting public key segments. A valid signature yields the
+    // second half of the public key; anything else yields an unrelated hash.
+    // Callers such as XMSS use this to rebuild a tree leaf from a signature.
+    //
+    // `scratch` optionally provides the NumSignatureChunks * HashLen byte buffer
+    // the public key segments are assembled in, so repeated verifications do
+    // not need to allocate it every time.
+    public computePublicKeyHash(
+        message: Uint8Array,
+        signature: Uint8Array[],
+        randomizationElements: Uint8Array[],
+        scratch?: Uint8Array
+    ): Uint8Array {
+        this.requireQuipMode('randomization elements');
+        if (scratch !== undefined && scratch.length !== this.numSignatureChunks * this.hashLen) {
+            throw new InvalidLengthError(
+                `scratch buffer length must be ${this.numSignatureChunks * this.hashLen} bytes`,
+                'scratch', this.numSignatureChunks * this.hashLen, scratch.length
+            );
+        }
+
+        if (randomizationElements.length < this.numRandomizationElements) {
+            throw new InvalidLengthError(
+                `randomization elements length must be ${this.numRandomizationElements}`,
+                'randomizationElements', this.numRandomizationElements, randomizationElements.length
+            );
         }
+
+        const publicKeySegments = scratch ?? new Uint8Array(this.numSignatureChunks * this.hashLen);
+        this.completeQuipChains(message, signature, publicKeySegments, randomizationElements);
+        return this.hash(publicKeySegments);
+    }
+
+    // computePublicKeySegments: Complete every hash chain of a signature, writing
+    // the resulting public key segments back to back into `publicKeySegments`.
+    // `complete` runs the mode specific chain function for chain `i`.
+    private computePublicKeySegments(
+        message: Uint8Array,
+        signature: Uint8Array[],
+        publicKeySegments: Uint8Array,
+        complete: (prevChainOut: Uint8Array, index: number, steps: number, out: Uint8Array, i: number) => void
+    ): void {
         if (message.length !== this.messageLen) {
-            throw new Error(`message length must be ${this.messageLen} bytes`);
+            throw new InvalidLengthError(
+                `message length must be ${this.messageLen} bytes`,
+                'message', this.messageLen, message.length
+            );
         }
         if (signature.length !== this.numSignatureChunks) {
-            throw new Error(`signature length must be ${this.numSignatureChunks}`);
+            throw new InvalidLengthError(
+                `signature length must be ${this.numSignatureChunks}`,
+                'signature', this.numSignatureChunks, signature.length
+            );
         }
 
         const chainSegments = this.computeMessageHashChainIndexes(message);
-        const publicKeySegments = new Uint8Array(this.numSignatureChunks * this.hashLen);
 
         // Compute each public key segment. These are done by taking the signature, which is prevChainOut at chainIdx - 1, 
         // and completing the hash chain via the chain function to recompute the public key segment.
@@ -328,36 +882,505 @@ export class WOTSPlus {
             const numIterations = this.chainLen - chainIdx - 1;
             const prevChainOut = signature[i];
             
-            const segment = this.chain(prevChainOut, randomizationElements, chainIdx, numIterations);
-            publicKeySegments.set(segment, i * this.hashLen);
+            const segment = publicKeySegments.subarray(i * this.hashLen, (i + 1) * this.hashLen);
+            complete(prevChainOut, chainIdx, numIterations, segment, i);
         }
+    }
 
-        const computedHash = this.hash(publicKeySegments);
-        return BufferUtil.equals(computedHash, publicKeyHash);
+    // recoverPublicKeySegments: Recover every public key segment from a signature,
+    // like `ecrecover` recovers a signer. The segments only match the signer's
+    // if the signature is valid; compare the result before trusting it.
+    public recoverPublicKeySegments(
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        signature: Uint8Array[],
+        address?: Address
+    ): Uint8Array[] {
+        const publicKeySegments = this.recoverPublicKeySegmentBytes(publicSeed, message, signature, address);
+
+        const segments: Uint8Array[] = new Array(this.numSignatureChunks);
+        for (let i = 0; i < this.numSignatureChunks; i++) {
+            segments[i] = publicKeySegments.slice(i * this.hashLen, (i + 1) * this.hashLen);
+        }
+        return segments;
+    }
+
+    // recoverPublicKeyHash: Recover the public key hash (the second half of the
+    // public key) from a signature. Storing only this hash, or an address derived
+    // from it, and comparing it with the recovered one is equivalent to `verify`.
+    public recoverPublicKeyHash(
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        signature: Uint8Array[],
+        address?: Address
+    ): Uint8Array {
+        return this.hash(this.recoverPublicKeySegmentBytes(publicSeed, message, signature, address));
+    }
+
+    // recoverPublicKey: Recover the full public key, publicSeed || publicKeyHash.
+    public recoverPublicKey(
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        signature: Uint8Array[],
+        address?: Address
+    ): Uint8Array {
+        return BufferUtil.concat(publicSeed, this.recoverPublicKeyHash(publicSeed, message, signature, address));
+    }
+
+    // recoverPublicKeySegmentBytes: The recovered public key segments back to back,
+    // using the chain function of the instance's mode.
+    private recoverPublicKeySegmentBytes(
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        signature: Uint8Array[],
+        address?: Address
+    ): Uint8Array {
+        if (publicSeed.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `public seed length must be ${this.hashLen} bytes`,
+                'publicSeed', this.hashLen, publicSeed.length
+            );
+        }
+
+        const publicKeySegments = new Uint8Array(this.numSignatureChunks * this.hashLen);
+        if (this.mode === 'rfc8391') {
+            this.completeRfcChains(message, signature, publicKeySegments, publicSeed, this.otsAddress(address));
+            return publicKeySegments;
+        }
+
+        this.rejectAddress(address);
+        const randomizationElements = this.generateRandomizationElements(publicSeed);
+        this.completeQuipChains(message, signature, publicKeySegments, randomizationElements);
+        return publicKeySegments;
+    }
+
+    // completeRfcChains: `computePublicKeySegments` with the RFC 8391 chain
+    // function, in lockstep when the hash function can batch.
+    private completeRfcChains(
+        message: Uint8Array,
+        signature: Uint8Array[],
+        publicKeySegments: Uint8Array,
+        publicSeed: Uint8Array,
+        adrs: Address
+    ): void {
+        if (this.hashFn.hashMany === undefined) {
+            this.computePublicKeySegments(message, signature, publicKeySegments,
+                (prevChainOut, index, steps, out, i) => {
+                    adrs.setChainAddress(i);
+                    this.rfcChain(prevChainOut, index, steps, publicSeed, adrs, out);
+                }
+            );
+            return;
+        }
+
+        const values: Uint8Array[] = [];
+        const starts: number[] = [];
+        const steps: number[] = [];
+        this.computePublicKeySegments(message, signature, publicKeySegments,
+            (prevChainOut, index, numSteps, out) => {
+                if (prevChainOut.length !== this.hashLen) {
+                    throw new InvalidLengthError(
+                        'Arrays must have equal length',
+                        'chainInput', this.hashLen, prevChainOut.length
+                    );
+                }
+                out.set(prevChainOut);
+                values.push(out);
+                starts.push(index);
+                steps.push(numSteps);
+            }
+        );
+        this.rfcLockstepChains(values, publicSeed, adrs, starts, steps);
+    }
+
+    // completeQuipChains: `computePublicKeySegments` with the quip chain function,
+    // in lockstep when the hash function can batch.
+    private completeQuipChains(
+        message: Uint8Array,
+        signature: Uint8Array[],
+        publicKeySegments: Uint8Array,
+        randomizationElements: Uint8Array[]
+    ): void {
+        if (this.hashFn.hashMany === undefined) {
+            this.computePublicKeySegments(message, signature, publicKeySegments,
+                (prevChainOut, index, steps, out) => {
+                    this.chain(prevChainOut, randomizationElements, index, steps, out);
+                }
+            );
+            return;
+        }
+
+        const values: Uint8Array[] = [];
+        const starts: number[] = [];
+        const steps: number[] = [];
+        this.computePublicKeySegments(message, signature, publicKeySegments,
+            (prevChainOut, index, numSteps, out) => {
+                if (prevChainOut.length !== this.hashLen) {
+                    throw new InvalidLengthError(
+                        'Arrays must have equal length',
+                        'chainInput', this.hashLen, prevChainOut.length
+                    );
+                }
+                out.set(prevChainOut);
+                values.push(out);
+                starts.push(index);
+                steps.push(numSteps);
+            }
+        );
+        this.lockstepChains(values, randomizationElements, starts, steps);
+    }
+
+    // Lockstep chains
+    //
+    // With a batch hash function (`hashMany`) the chains of a key advance
+    // together: each step of every chain that still has steps left is hashed
+    // in one batch. The hash inputs are those of `chain` and
+    // `secretKeySegmentInto`, so the output is byte-identical.
+
+    // hashMany: The batch hash, truncated to HashLen like `hash`. Hash
+    // functions without `hashMany` hash the inputs one by one.
+    private hashMany(inputs: Uint8Array[]): Uint8Array[] {
+        const hashMany = this.hashFn.hashMany;
+        const digests = hashMany !== undefined
+            ? hashMany.call(this.hashFn, inputs)
+            : inputs.map(input => this.hashFn(input));
+        return digests.map(digest => this.truncate(digest));
+    }
+
+    // secretKeySegmentsInto: `secretKeySegmentInto` for chunks 0 to
+    // segments.length - 1, written into `segments`, in two batches.
+    private secretKeySegmentsInto(privateKey: Uint8Array, functionKey: Uint8Array, segments: Uint8Array[]): void {
+        const prfInputs = segments.map((_, i) =>
+            BufferUtil.concat(new Uint8Array([0x03]), privateKey, BufferUtil.toBytes(i + 1, 2)));
+        const prfs = this.hashMany(prfInputs);
+        const segmentInputs = prfs.map(prf => BufferUtil.concat(functionKey, prf));
+        const outputs = this.hashMany(segmentInputs);
+        outputs.forEach((output, i) => segments[i].set(output));
+        for (const secret of [...prfInputs, ...prfs, ...segmentInputs, ...outputs]) {
+            secret.fill(0);
+        }
+    }
+
+    // lockstepChains: `chain(values[i], randomizationElements, starts[i], steps[i], values[i])`
+    // for every i, one step of all chains at a time.
+    private lockstepChains(
+        values: Uint8Array[],
+        randomizationElements: Uint8Array[],
+        starts: number[],
+        steps: number[]
+    ): void {
+        const maxSteps = Math.max(0, ...steps);
+        for (let i = 0; i < values.length; i++) {
+            if (starts[i] + steps[i] >= this.chainLen) {
+                throw new InvalidParameterError("steps + index must be less than ChainLen");
+            }
+        }
+        for (let step = 1; step <= maxSteps; step++) {
+            const active: number[] = [];
+            const inputs: Uint8Array[] = [];
+            for (let i = 0; i < values.length; i++) {
+                if (steps[i] >= step) {
+                    const input = new Uint8Array(this.hashLen);
+                    this.xorInto(values[i], randomizationElements[starts[i] + step], input);
+                    active.push(i);
+                    inputs.push(input);
+                }
+            }
+            const outputs = this.hashMany(inputs);
+            active.forEach((chain, k) => {
+                values[chain].set(outputs[k]);
+                inputs[k].fill(0);
+                outputs[k].fill(0);
+            });
+        }
+    }
+
+    // rfcSecretKeySegmentsInto: `rfcSecretKeySegmentInto` for chunks 0 to
+    // segments.length - 1, written into `segments`, in one batch.
+    private rfcSecretKeySegmentsInto(
+        secretSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        adrs: Address,
+        segments: Uint8Array[]
+    ): void {
+        const inputs = segments.map((_, i) => {
+            adrs.setChainAddress(i).setHashAddress(0).setKeyAndMask(0);
+            return BufferUtil.concat(BufferUtil.toBytes(4, this.hashLen), secretSeed, publicSeed, adrs.view());
+        });
+        const outputs = this.hashMany(inputs);
+        outputs.forEach((output, i) => segments[i].set(output));
+        for (const secret of [...inputs, ...outputs]) {
+            secret.fill(0);
+        }
+    }
+
+    // rfcLockstepChains: `rfcChain(values[i], starts[i], steps[i], publicSeed, adrs, values[i])`
+    // with ADRS.chainAddress = i for every i, one step of all chains at a
+    // time: the keys and bitmasks of a step in one batch, then F in another.
+    private rfcLockstepChains(
+        values: Uint8Array[],
+        publicSeed: Uint8Array,
+        adrs: Address,
+        starts: number[],
+        steps: number[]
+    ): void {
+        const n = this.hashLen;
+        const maxSteps = Math.max(0, ...steps);
+        for (let i = 0; i < values.length; i++) {
+            if (starts[i] + steps[i] >= this.chainLen) {
+                throw new InvalidParameterError("steps + index must be less than ChainLen");
+            }
+        }
+        const prfPrefix = BufferUtil.toBytes(3, n);
+        const fPrefix = BufferUtil.toBytes(0, n);
+        for (let step = 1; step <= maxSteps; step++) {
+            const active: number[] = [];
+            const prfInputs: Uint8Array[] = [];
+            for (let i = 0; i < values.length; i++) {
+                if (steps[i] >= step) {
+                    adrs.setChainAddress(i).setHashAddress(starts[i] + step - 1);
+                    for (const keyAndMask of [0, 1]) {
+                        adrs.setKeyAndMask(keyAndMask);
+                        prfInputs.push(BufferUtil.concat(prfPrefix, publicSeed, adrs.view()));
+                    }
+                    active.push(i);
+                }
+            }
+            const keysAndMasks = this.hashMany(prfInputs);
+
+            const fInputs = active.map((chain, k) => {
+                const input = new Uint8Array(3 * n);
+                input.set(fPrefix, 0);
+                input.set(keysAndMasks[2 * k], n);
+                this.xorInto(values[chain], keysAndMasks[2 * k + 1], input.subarray(2 * n));
+                return input;
+            });
+            const outputs = this.hashMany(fInputs);
+            active.forEach((chain, k) => {
+                values[chain].set(outputs[k]);
+                fInputs[k].fill(0);
+                outputs[k].fill(0);
+            });
+        }
+    }
+
+    // SignatureScheme
+    //
+    // The flat encoding counterparts of generateKeyPair, sign and verify, see
+    // `SignatureScheme`. They use the default OTS address in RFC 8391 mode.
+
+    // parameterId: The parameter set name, or WOTSP-N<hashLen>-W<chainLen>
+    // (with an -RFC8391 suffix in that mode) for custom instances.
+    public get parameterId(): string {
+        if (this.parameterSet !== undefined) {
+            return this.parameterSet.name;
+        }
+        return `WOTSP-N${this.hashLen}-W${this.chainLen}` + (this.mode === 'rfc8391' ? '-RFC8391' : '');
+    }
+
+    // keygen: `generateKeyPair`, returning privateKey || publicSeed as the private key.
+    public keygen(privateSeed: Uint8Array, publicSeed: Uint8Array): { publicKey: Uint8Array, privateKey: Uint8Array } {
+        const { publicKey, privateKey } = this.generateKeyPair(privateSeed, publicSeed);
+        const material = BufferUtil.concat(privateKey, publicSeed);
+        privateKey.fill(0);
+        return { publicKey, privateKey: material };
+    }
+
+    // signBytes: `sign` with privateKey || publicSeed, returning the chunks back to back.
+    public signBytes(privateKey: Uint8Array, message: Uint8Array): Uint8Array {
+        if (privateKey.length !== this.privateKeySize) {
+            throw new InvalidLengthError(
+                `private key length must be ${this.privateKeySize} bytes`,
+                'privateKey', this.privateKeySize, privateKey.length
+            );
+        }
+        const signature = this.sign(
+            privateKey.subarray(0, this.hashLen),
+            privateKey.subarray(this.hashLen),
+            message
+        );
+        return BufferUtil.concat(...signature);
+    }
+
+    // verifyBytes: `verify` with a flat signature.
+    public verifyBytes(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+        if (signature.length !== this.signatureSize) {
+            throw new InvalidLengthError(
+                `signature length must be ${this.signatureSize} bytes`,
+                'signature', this.signatureSize, signature.length
+            );
+        }
+        const chunks: Uint8Array[] = new Array(this.numSignatureChunks);
+        for (let i = 0; i < this.numSignatureChunks; i++) {
+            chunks[i] = signature.subarray(i * this.hashLen, (i + 1) * this.hashLen);
+        }
+        return this.verify(publicKey, message, chunks);
+    }
+
+    // RFC 8391 mode
+    //
+    // The hash calls follow XMSS RFC 8391 section 5.1:
+    //   F(KEY, M)          = hash(toByte(0, n) || KEY || M)
+    //   PRF(KEY, ADRS)     = hash(toByte(3, n) || KEY || ADRS)
+    // and secret key segments are derived as in NIST SP 800-208 section 7.2.1:
+    //   PRF_keygen(KEY, M) = hash(toByte(4, n) || KEY || M), M = SEED || ADRS
+    // The private key is the secret seed itself.
+
+    // requireQuipMode: Reject features that only exist in the default mode.
+    private requireQuipMode(feature: string): void {
+        if (this.mode !== 'quip') {
+            throw new InvalidParameterError(`${feature} are not used in ${this.mode} mode`);
+        }
+    }
+
+    // rejectAddress: Addresses only tweak hashes in RFC 8391 mode.
+    private rejectAddress(address?: Address): void {
+        if (address !== undefined) {
+            throw new InvalidParameterError("address is only used in rfc8391 mode");
+        }
+    }
+
+    // otsAddress: A private copy of the caller's OTS address, or the all zero one.
+    private otsAddress(address?: Address): Address {
+        const adrs = address !== undefined ? address.clone() : new Address();
+        if (adrs.getType() !== AddressType.OTS) {
+            throw new InvalidParameterError("address type must be OTS");
+        }
+        return adrs;
+    }
+
+    // rfcChain: The chaining function of RFC 8391 Algorithm 2, iterating F on
+    // `prevChainOut` from step `index` for `steps` steps. Every step gets its own
+    // key and bitmask from PRF(SEED, ADRS) with ADRS.hashAddress set to the step.
+    private rfcChain(
+        prevChainOut: Uint8Array,
+        index: number,
+        steps: number,
+        publicSeed: Uint8Array,
+        adrs: Address,
+        out: Uint8Array
+    ): void {
+        if (index + steps >= this.chainLen) {
+            throw new InvalidParameterError("steps + index must be less than ChainLen");
+        }
+        if (prevChainOut.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                'Arrays must have equal length',
+                'chainInput', this.hashLen, prevChainOut.length
+            );
+        }
+
+        const n = this.hashLen;
+        const prfBuffer = this.rfcPrfBuffer;
+        const fBuffer = this.rfcFBuffer;
+        const key = fBuffer.subarray(n, 2 * n);
+        const bitmask = this.xorBuffer;
+        prfBuffer.set(publicSeed, n);
+
+        if (out !== prevChainOut) {
+            out.set(prevChainOut);
+        }
+        for (let j = index; j < index + steps; j++) {
+            adrs.setHashAddress(j);
+            adrs.setKeyAndMask(0);
+            prfBuffer.set(adrs.view(), 2 * n);
+            this.hashInto(prfBuffer, key);
+
+            adrs.setKeyAndMask(1);
+            prfBuffer.set(adrs.view(), 2 * n);
+            this.hashInto(prfBuffer, bitmask);
+
+            for (let i = 0; i < n; i++) {
+                fBuffer[2 * n + i] = out[i] ^ bitmask[i];
+            }
+            this.hashInto(fBuffer, out);
+        }
+    }
+
+    // rfcSecretKeySegmentInto: sk_i = PRF_keygen(secretSeed, SEED || ADRS)
+    // with ADRS.chainAddress = i and hash address and keyAndMask zero.
+    private rfcSecretKeySegmentInto(
+        secretSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        adrs: Address,
+        index: number,
+        out: Uint8Array
+    ): void {
+        adrs.setChainAddress(index).setHashAddress(0).setKeyAndMask(0);
+        const buffer = this.rfcKeygenBuffer;
+        buffer.set(secretSeed, this.hashLen);
+        buffer.set(publicSeed, 2 * this.hashLen);
+        buffer.set(adrs.view(), 3 * this.hashLen);
+        this.hashInto(buffer, out);
+    }
+
+    private rfcSign(
+        privateKey: Uint8Array,
+        publicSeed: Uint8Array,
+        message: Uint8Array,
+        adrs: Address
+    ): Uint8Array[] {
+        if (publicSeed.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `public seed length must be ${this.hashLen} bytes`,
+                'publicSeed', this.hashLen, publicSeed.length
+            );
+        }
+
+        const signature: Uint8Array[] = new Array(this.numSignatureChunks);
+        const chainSegments = this.computeMessageHashChainIndexes(message);
+        if (this.hashFn.hashMany !== undefined) {
+            for (let i = 0; i < this.numSignatureChunks; i++) {
+                signature[i] = new Uint8Array(this.hashLen);
+            }
+            this.rfcSecretKeySegmentsInto(privateKey, publicSeed, adrs, signature);
+            this.rfcLockstepChains(signature, publicSeed, adrs,
+                new Array(this.numSignatureChunks).fill(0), chainSegments);
+            return signature;
+        }
+        for (let i = 0; i < chainSegments.length; i++) {
+            const chunk = new Uint8Array(this.hashLen);
+            this.rfcSecretKeySegmentInto(privateKey, publicSeed, adrs, i, chunk);
+            this.rfcChain(chunk, 0, chainSegments[i], publicSeed, adrs, chunk);
+            signature[i] = chunk;
+        }
+        return signature;
     }
 
     // toBaseW: Convert a message to base-w representation (or base of ChainLen representation)
     // These numbers are used to index into each hash chain which is rooted at a secret key segment and produces
     // a public key segment at the end of the chain. Verification of a signature means using these
     // index into each hash chain to recompute the corresponding public key segment.
+    //
+    // This is the base_w function of XMSS RFC 8391 section 2.6, generalized to read
+    // the input as a big-endian bit string so any lg(w) from 1 to 8 works. Missing
+    // trailing bits are treated as zero.
     private toBaseW(
         message: Uint8Array, 
         numChunks: number, 
         basew: number[], 
         offset: number
     ): void {
+        const mask = this.chainLen - 1;
         let index = 0;
+        let total = 0;
+        let bits = 0;
         for (let i = 0; i < numChunks; i++) {
-            if (i % 2 === 0) {
-                basew[offset + i] = (message[index] >> 4) & 0xF;
-            } else {
-                basew[offset + i] = message[index] & 0xF;
+            while (bits < this.lgChainLen) {
+                total = ((total << 8) | (index < message.length ? message[index] : 0)) & 0xFFFF;
                 index++;
+                bits += 8;
             }
+            bits -= this.lgChainLen;
+            basew[offset + i] = (total >> bits) & mask;
         }
     }
 
     // Compute checksum for the chain indexes
+    // Following RFC 8391 Algorithm 5, the checksum is left-shifted so its
+    // significant bits sit at the start of len_2_bytes bytes, then converted
+    // to base-w. We take the shift modulo 8 (as SPHINCS+ does) so that a
+    // checksum which already fills whole bytes is not shifted out of range.
     private checksum(chainIndexes: number[]): void {
         let sum = 0;
         // Sum up the first NUM_MESSAGE_CHUNKS elements
@@ -365,17 +1388,20 @@ export class WOTSPlus {
             sum += this.chainLen - 1 - chainIndexes[i];
         }
 
+        const checksumBits = this.numChecksumChunks * this.lgChainLen;
+        const checksumBytes = Math.ceil(checksumBits / 8);
+        const shift = (8 - (checksumBits % 8)) % 8;
+        const shifted = BufferUtil.toBytes(sum * 2 ** shift, checksumBytes);
+
         // Convert checksum to base-w representation
         // Start filling from NUM_MESSAGE_CHUNKS position
-        for (let i = 0; i < this.numChecksumChunks; i++) {
-            chainIndexes[this.numMessageChunks + i] = (sum >> ((this.numChecksumChunks - 1 - i) * this.lgChainLen)) & (this.chainLen - 1);
-        }
+        this.toBaseW(shifted, this.numChecksumChunks, chainIndexes, this.numMessageChunks);
     }
 
     // Compute message hash chain indexes
     // We convert the message to base-w representation (or base of ChainLen representation)
     // We attach the checksum, also in base-w representation, to the end of the hash chain index list. 
-    private computeMessageHashChainIndexes(message: Uint8Array): number[] {
+    public computeMessageHashChainIndexes(message: Uint8Array): number[] {
         const chainIndexes = new Array(this.numMessageChunks + this.numChecksumChunks).fill(0);
         
         // Convert message to base-w representation
@@ -390,4 +1416,6 @@ export class WOTSPlus {
 
 // Example usage:
 // const wotsPlus = new WOTSPlus(keccak_256); // Uses defaults (32 byte hash, w=16)
-// const wotsPlus = new WOTSPlus(keccak_256, 64, 4); // 64 byte hash, w=4
+// const wotsPlus = new WOTSPlus(keccak_256, 24, 4); // 24 byte (truncated) hash, w=4
+// const wotsPlus = WOTSPlus.fromParameterSet('WOTSP-SHA256-W16');
+// const wotsPlus = new WOTSPlus(sha256, 32, 16, 'rfc8391'); // RFC 8391 WOTSP-SHA2_256
@@ -0,0 +1,135 @@
+
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+import { describe, it, expect } from 'vitest';
+import { XMSS } from './xmss';
+import { BDSTraversal } from './bds';
+import { KeyReuseError } from './errors';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+describe('XMSS', () => {
+    // Helper to convert number to Uint8Array (similar to bytes32 in Solidity)
+    const numberToUint8Array = (num: number): Uint8Array => {
+        const arr = new Uint8Array(32);
+        for (let i = 0; i < 32; i++) {
+            arr[31 - i] = num & 0xff;
+            num = num >> 8;
+        }
+        return arr;
+    };
+
+    const messageFor = (i: number): Uint8Array =>
+        keccak_256(new TextEncoder().encode(`Hello World${i}`));
+
+    it('should generate key pair', () => {
+        const xmss = new XMSS(keccak_256, 2);
+        const publicSeed = numberToUint8Array(2);
+        const { publicKey, privateKey } = xmss.generateKeyPair(numberToUint8Array(1), publicSeed);
+
+        expect(publicKey.length).toBe(xmss.publicKeySize);
+        expect(publicKey.slice(0, xmss.hashLen)).toEqual(publicSeed);
+        expect(publicKey.slice(xmss.hashLen)).toEqual(privateKey.root);
+        expect(privateKey.index).toBe(0);
+        expect(xmss.numLeaves).toBe(4);
+    });
+
+    it('should be deterministic', () => {
+        const xmss = new XMSS(keccak_256, 2);
+        const a = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+        const b = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+        const c = xmss.generateKeyPair(numberToUint8Array(3), numberToUint8Array(2));
+        expect(a.publicKey).toEqual(b.publicKey);
+        expect(a.publicKey).not.toEqual(c.publicKey);
+    });
+
+    it('should sign and verify with every leaf', () => {
+        const xmss = new XMSS(keccak_256, 2);
+        const { publicKey, privateKey } = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+
+        for (let i = 0; i < xmss.numLeaves; i++) {
+            const message = messageFor(i);
+            const signature = xmss.sign(privateKey, message);
+            expect(signature.index).toBe(i);
+            expect(signature.authPath.length).toBe(xmss.height);
+            expect(privateKey.index).toBe(i + 1);
+            expect(xmss.verify(publicKey, message, signature)).toBe(true);
+        }
+    });
+
+    it('should refuse to sign once all leaves are used', () => {
+        const xmss = new XMSS(keccak_256, 1);
+        const { privateKey } = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+        xmss.sign(privateKey, messageFor(0));
+        xmss.sign(privateKey, messageFor(1));
+        expect(() => xmss.sign(privateKey, messageFor(2))).toThrow(KeyReuseError);
+    });
+
+    it('should reject tampered signatures', () => {
+        const xmss = new XMSS(keccak_256, 2);
+        const { publicKey, privateKey } = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+        const message = messageFor(0);
+        const signature = xmss.sign(privateKey, message);
+
+        expect(xmss.verify(publicKey, messageFor(1), signature)).toBe(false);
+        expect(xmss.verify(publicKey, message, { ...signature, index: 1 })).toBe(false);
+        expect(xmss.verify(publicKey, message, { ...signature, index: 4 })).toBe(false);
+
+        const authPath = signature.authPath.map(node => node.slice());
+        authPath[1][0] ^= 0x01;
+        expect(xmss.verify(publicKey, message, { ...signature, authPath })).toBe(false);
+    });
+
+    it('should reject malformed inputs', () => {
+        const xmss = new XMSS(keccak_256, 2);
+        const { publicKey, privateKey } = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+        const message = messageFor(0);
+        const signature = xmss.sign(privateKey, message);
+
+        expect(() => xmss.verify(publicKey.slice(1), message, signature)).toThrow();
+        expect(() => xmss.verify(publicKey, message, { ...signature, authPath: [] })).toThrow();
+        expect(() => xmss.sign(privateKey, new Uint8Array(31))).toThrow();
+        expect(() => new XMSS(keccak_256, 0)).toThrow();
+        expect(() => new XMSS(keccak_256, 21)).toThrow();
+    });
+
+    it('should sign with a BDS traversal and resume it from JSON', () => {
+        const xmss = new XMSS(keccak_256, 3);
+        const { publicKey, privateKey } = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+        const reference = { ...privateKey };
+        let traversal = xmss.createTraversal(privateKey);
+
+        for (let i = 0; i < xmss.numLeaves; i++) {
+            const signature = xmss.sign(privateKey, messageFor(i), traversal);
+            expect(signature).toEqual(xmss.sign(reference, messageFor(i)));
+            expect(xmss.verify(publicKey, messageFor(i), signature)).toBe(true);
+            if (i === 4) {
+                traversal = BDSTraversal.fromJSON(JSON.parse(JSON.stringify(traversal)));
+            }
+        }
+    }, 30000);
+
+    it('should start a traversal at the next unused leaf', () => {
+        const xmss = new XMSS(keccak_256, 2);
+        const { privateKey } = xmss.generateKeyPair(numberToUint8Array(1), numberToUint8Array(2));
+        const stale = xmss.createTraversal(privateKey);
+        xmss.sign(privateKey, messageFor(0));
+
+        expect(() => xmss.sign(privateKey, messageFor(1), stale)).toThrow(/leaf 0/);
+        expect(privateKey.index).toBe(1);
+        const traversal = xmss.createTraversal(privateKey);
+        expect(traversal.leafIndex).toBe(1);
+        expect(xmss.sign(privateKey, messageFor(1), traversal).index).toBe(1);
+
+        expect(() => xmss.createTraversal({ ...privateKey, root: new Uint8Array(32) })).toThrow(/root/);
+    });
+});
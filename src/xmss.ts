@@ -0,0 +1,354 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2024 quip.network
+//
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Affero General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+//
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU Affero General Public License for more details.
+
+import { HashFunction, WOTSPlus } from './wotsplus';
+import { BDSTraversal, MerkleTreeHasher, TreeHashBuilder } from './bds';
+import { BufferUtil } from './utils';
+import { InvalidLengthError, InvalidParameterError, KeyReuseError } from './errors';
+
+// Address types, numbered as in XMSS RFC 8391 section 2.5.
+// We only need the OTS and hash tree types because the WOTS+
+// public key is already compressed to a single hash (no L-tree).
+const ADDR_TYPE_OTS = 0;
+const ADDR_TYPE_HASHTREE = 2;
+
+// XMSSSignature bundles everything needed to check a signature against
+// the tree root: the leaf index, the WOTS+ signature made with that leaf
+// and the authentication path from the leaf up to the root.
+export interface XMSSSignature {
+    index: number;
+    wotsSignature: Uint8Array[];
+    authPath: Uint8Array[];
+}
+
+// XMSSPrivateKey holds the seeds all leaves are derived from and the index
+// of the next unused leaf. `sign` advances `index`, so callers MUST persist
+// the key after every signature.
+export interface XMSSPrivateKey {
+    privateSeed: Uint8Array;
+    publicSeed: Uint8Array;
+    root: Uint8Array;
+    index: number;
+}
+
+export class XMSS {
+    private readonly hashFn: HashFunction;
+
+    // WOTSPlus: The one-time signature scheme used for every leaf.
+    public readonly wotsPlus: WOTSPlus;
+
+    // Height: The XMSS `h` parameter, the height of the Merkle tree.
+    // The tree has 2^h leaves so a key pair can make 2^h signatures.
+    public readonly height: number;
+
+    // NumLeaves: 2^h, the number of signatures a key pair can make.
+    public readonly numLeaves: number;
+
+    // HashLen: The `n` security parameter, shared with WOTSPlus.
+    public readonly hashLen: number;
+
+    // PublicKeySize: publicSeed || root
+    public readonly publicKeySize: number;
+
+    // SignatureSize: 4 byte index || WOTS+ signature || authentication path
+    public readonly signatureSize: number;
+
+    constructor(
+        hashFunction: HashFunction,
+        height: number = 10,
+        hashLen?: number,
+        chainLen: number = 16
+    ) {
+        this.hashFn = hashFunction;
+        this.wotsPlus = new WOTSPlus(hashFunction, hashLen, chainLen);
+        this.hashLen = this.wotsPlus.hashLen;
+        this.height = height;
+
+        // RFC 8391 defines heights of 10, 16 and 20, we allow anything up to 20.
+        if (!Number.isInteger(height) || height < 1 || height > 20) {
+            throw new InvalidParameterError("Height must be an integer between 1 and 20");
+        }
+
+        this.numLeaves = 2 ** height;
+        this.publicKeySize = this.hashLen * 2;
+        this.signatureSize = 4 + this.wotsPlus.signatureSize + this.height * this.hashLen;
+    }
+
+    // hash: The underlying hash truncated to HashLen, like WOTSPlus does.
+    private hash(data: Uint8Array): Uint8Array {
+        return this.hashFn(data).slice(0, this.hashLen);
+    }
+
+    // prf: Keyed pseudorandom function over an address.
+    // Similar to XMSS RFC 8391 section 5.1, with the 32 byte ADRS
+    // reduced to the fields we use (type, height, index and keyAndMask).
+    private prf(
+        seed: Uint8Array,
+        type: number,
+        height: number,
+        index: number,
+        keyAndMask: number
+    ): Uint8Array {
+        return this.hash(BufferUtil.concat(
+            new Uint8Array([0x03]),
+            seed,
+            BufferUtil.toBytes(type, 4),
+            BufferUtil.toBytes(height, 4),
+            BufferUtil.toBytes(index, 4),
+            BufferUtil.toBytes(keyAndMask, 4)
+        ));
+    }
+
+    // randHash: The RAND_HASH function from RFC 8391 section 4.1.4.
+    // Hashes two child nodes into their parent after masking each child
+    // with a bitmask derived from the public seed and the parent position.
+    private randHash(
+        left: Uint8Array,
+        right: Uint8Array,
+        publicSeed: Uint8Array,
+        height: number,
+        index: number
+    ): Uint8Array {
+        const key = this.prf(publicSeed, ADDR_TYPE_HASHTREE, height, index, 0);
+        const bm0 = this.prf(publicSeed, ADDR_TYPE_HASHTREE, height, index, 1);
+        const bm1 = this.prf(publicSeed, ADDR_TYPE_HASHTREE, height, index, 2);
+
+        const buffer = new Uint8Array(1 + 3 * this.hashLen);
+        buffer[0] = 0x01;  // prefix to domain separate from prf
+        buffer.set(key, 1);
+        for (let i = 0; i < this.hashLen; i++) {
+            buffer[1 + this.hashLen + i] = left[i] ^ bm0[i];
+            buffer[1 + 2 * this.hashLen + i] = right[i] ^ bm1[i];
+        }
+        return this.hash(buffer);
+    }
+
+    // leafPrivateSeed: The WOTS+ private seed of the leaf at `index`.
+    private leafPrivateSeed(privateSeed: Uint8Array, index: number): Uint8Array {
+        return this.prf(privateSeed, ADDR_TYPE_OTS, 0, index, 0);
+    }
+
+    // leaf: The tree leaf at `index`, which is the hash half of the
+    // WOTS+ public key generated for that leaf.
+    private leaf(privateSeed: Uint8Array, publicSeed: Uint8Array, index: number): Uint8Array {
+        const { publicKey } = this.wotsPlus.generateKeyPair(
+            this.leafPrivateSeed(privateSeed, index),
+            publicSeed
+        );
+        return publicKey.slice(this.hashLen, this.wotsPlus.publicKeySize);
+    }
+
+    // hasher: The leaves and node hash of the tree of a private key.
+    private hasher(privateSeed: Uint8Array, publicSeed: Uint8Array): MerkleTreeHasher {
+        return {
+            leaf: (index) => this.leaf(privateSeed, publicSeed, index),
+            hashNodes: (left, right, height, index) => this.randHash(left, right, publicSeed, height, index)
+        };
+    }
+
+    // treeHash: Compute the node at `targetHeight` whose left-most leaf is `start`.
+    // This is the stack based treeHash algorithm from RFC 8391 section 4.1.6.
+    private treeHash(
+        privateSeed: Uint8Array,
+        publicSeed: Uint8Array,
+        start: number,
+        targetHeight: number
+    ): Uint8Array {
+        if (targetHeight === 0) {
+            return this.leaf(privateSeed, publicSeed, start);
+        }
+        const hasher = this.hasher(privateSeed, publicSeed);
+        const builder = new TreeHashBuilder(hasher.hashNodes, targetHeight, start);
+        builder.pushFrom(hasher);
+        return builder.root();
+    }
+
+    // generateKeyPair: Derive every leaf from the seeds and compute the tree root.
+    // The public key is publicSeed || root, mirroring the WOTS+ publicSeed || hash layout.
+    public generateKeyPair(privateSeed: Uint8Array, publicSeed: Uint8Array): {
+        publicKey: Uint8Array,
+        privateKey: XMSSPrivateKey
+    } {
+        if (publicSeed.length !== this.hashLen) {
+            throw new InvalidLengthError(
+                `public seed length must be ${this.hashLen} bytes`,
+                'publicSeed', this.hashLen, publicSeed.length
+            );
+        }
+
+        const root = this.treeHash(privateSeed, publicSeed, 0, this.height);
+        const publicKey = BufferUtil.concat(publicSeed, root);
+
+        return {
+            publicKey,
+            privateKey: {
+                privateSeed: privateSeed.slice(),
+                publicSeed: publicSeed.slice(),
+                root,
+                index: 0
+            }
+        };
+    }
+
+    // buildAuthPath: The sibling of every node on the path from leaf `index` to the root.
+    private buildAuthPath(privateSeed: Uint8Array, publicSeed: Uint8Array, index: number): Uint8Array[] {
+        const authPath: Uint8Array[] = new Array(this.height);
+        for (let j = 0; j < this.height; j++) {
+            const sibling = (index >> j) ^ 1;
+            authPath[j] = this.treeHash(privateSeed, publicSeed, sibling << j, j);
+        }
+        return authPath;
+    }
+
+    // createTraversal: A BDS traversal state for the private key, positioned
+    // at its next unused leaf. Signing with it costs about (h - k) / 2 leaf
+    // computations instead of rebuilding every authentication path node.
+    // Creating it builds the whole tree once; persist it with `toJSON` next to
+    // the private key to avoid that on restart. `k` defaults to 2, or 1 for
+    // odd heights.
+    public createTraversal(privateKey: XMSSPrivateKey, k: number = this.height % 2 === 0 ? 2 : 1): BDSTraversal {
+        const hasher = this.hasher(privateKey.privateSeed, privateKey.publicSeed);
+        const { traversal, root } = BDSTraversal.initialize(hasher, this.height, k);
+        if (!BufferUtil.equals(root, privateKey.root)) {
+            throw new InvalidParameterError("private key seeds do not match its root");
+        }
+        const target = Math.min(privateKey.index, this.numLeaves - 1);
+        while (traversal.leafIndex < target) {
+            traversal.next(hasher);
+        }
+        return traversal;
+    }
+
+    // sign: Sign a message with the next unused leaf of the private key.
+    // The index is advanced before the signature is computed, as in
+    // RFC 8391 section 4.1.9, so a failure can never cause leaf reuse.
+    // With a `traversal` from `createTraversal` the authentication path is
+    // taken from it and the traversal moves on to the next leaf; it must be
+    // saved along with the private key.
+    public sign(privateKey: XMSSPrivateKey, message: Uint8Array, traversal?: BDSTraversal): XMSSSignature {
+        if (message.length !== this.wotsPlus.messageLen) {
+            throw new InvalidLengthError(
+                `message length must be ${this.wotsPlus.messageLen} bytes`,
+                'message', this.wotsPlus.messageLen, message.length
+            );
+        }
+
+        const index = privateKey.index;
+        if (!Number.isInteger(index) || index < 0 || index >= this.numLeaves) {
+            throw new KeyReuseError("XMSS private key has no unused leaves left", index);
+        }
+        if (traversal !== undefined && (traversal.height !== this.height || traversal.leafIndex !== index)) {
+            throw new InvalidParameterError(
+                `traversal is at leaf ${traversal.leafIndex} of a height ${traversal.height} tree, ` +
+                `expected leaf ${index} of a height ${this.height} tree`
+            );
+        }
+        privateKey.index = index + 1;
+
+        const { privateSeed, publicSeed } = privateKey;
+        const leafPrivateSeed = this.leafPrivateSeed(privateSeed, index);
+        const wotsPrivateKey = this.wotsPlus.derivePrivateKey(leafPrivateSeed, publicSeed);
+        let wotsSignature: Uint8Array[];
+        try {
+            wotsSignature = this.wotsPlus.sign(wotsPrivateKey, publicSeed, message);
+        } finally {
+            // The one-time key can sign other messages, so do not leave it in memory.
+            wotsPrivateKey.fill(0);
+            leafPrivateSeed.fill(0);
+        }
+
+        let authPath: Uint8Array[];
+        if (traversal !== undefined) {
+            authPath = traversal.authPath();
+            if (index < this.numLeaves - 1) {
+                traversal.next(this.hasher(privateSeed, publicSeed));
+            }
+        } else {
+            authPath = this.buildAuthPath(privateSeed, publicSeed, index);
+        }
+
+        return { index, wotsSignature, authPath };
+    }
+
+    // computeRoot: Rebuild the root from a leaf and its authentication path.
+    // This is the core of XMSS_rootFromSig from RFC 8391 section 4.1.10.
+    private computeRoot(
+        leaf: Uint8Array,
+        index: number,
+        authPath: Uint8Array[],
+        publicSeed: Uint8Array
+    ): Uint8Array {
+        let node = leaf;
+        for (let k = 0; k < this.height; k++) {
+            const parentIndex = index >> (k + 1);
+            if (((index >> k) & 1) === 0) {
+                node = this.randHash(node, authPath[k], publicSeed, k, parentIndex);
+            } else {
+                node = this.randHash(authPath[k], node, publicSeed, k, parentIndex);
+            }
+        }
+        return node;
+    }
+
+    // verify: Verify an XMSS signature against the public key alone.
+    // 1. Recompute the WOTS+ public key hash (the leaf) from the WOTS+ signature.
+    // 2. Hash the leaf up the tree with the authentication path.
+    // 3. Compare the result with the root in the public key.
+    public verify(
+        publicKey: Uint8Array,
+        message: Uint8Array,
+        signature: XMSSSignature
+    ): boolean {
+        if (publicKey.length !== this.publicKeySize) {
+            throw new InvalidLengthError(
+                `public key length must be ${this.publicKeySize} bytes`,
+                'publicKey', this.publicKeySize, publicKey.length
+            );
+        }
+        if (signature.authPath.length !== this.height) {
+            throw new InvalidLengthError(
+                `authentication path length must be ${this.height}`,
+                'authenticationPath', this.height, signature.authPath.length
+            );
+        }
+        for (const node of signature.authPath) {
+            if (node.length !== this.hashLen) {
+                throw new InvalidLengthError(
+                    `authentication path nodes must be ${this.hashLen} bytes`,
+                    'authenticationPathNode', this.hashLen, node.length
+                );
+            }
+        }
+
+        const { index } = signature;
+        if (!Number.isInteger(index) || index < 0 || index >= this.numLeaves) {
+            return false;
+        }
+
+        const publicSeed = publicKey.slice(0, this.hashLen);
+        const root = publicKey.slice(this.hashLen, this.publicKeySize);
+
+        const leaf = this.wotsPlus.computePublicKeyHash(
+            message,
+            signature.wotsSignature,
+            this.wotsPlus.generateRandomizationElements(publicSeed)
+        );
+        const computedRoot = this.computeRoot(leaf, index, signature.authPath, publicSeed);
+        return BufferUtil.equals(computedRoot, root);
+    }
+}
+
+// Example usage:
+// const xmss = new XMSS(keccak_256, 10); // 1024 signatures per key pair
+// const { publicKey, privateKey } = xmss.generateKeyPair(privateSeed, publicSeed);
+// const signature = xmss.sign(privateKey, messageHash); // persist privateKey afterwards!
@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/node.ts", "src/worker.ts", "src/bin.ts"],
   clean: true,
   format: ["cjs", "esm"],
   dts: true,
@@ -4,6 +4,9 @@ export default defineConfig({
   test: {
     globals: true,
     environment: "node",
+    typecheck: {
+      enabled: true, // also check the *.test-d.ts type tests
+    },
     coverage: {
       provider: 'v8', // Using V8 coverage provider
       enabled: true,
@@ -20,6 +23,8 @@ export default defineConfig({
         '**/*.d.ts',
         'coverage/**',
         'vitest.config.ts',
+        '**/*.bench.ts',
+        '**/*.test-d.ts',
       ],
       all: true,
     }